@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import { formatEvaluationReport, runEvaluation, writeEvaluationReport } from './build/synthesisEvaluation.js';
+
+dotenv.config();
+
+const USAGE = `Usage: node evaluate-synthesis.js [options]
+
+  --runs <n>           Replay the n most recent runs (default 3)
+  --run <id>           Replay a specific run (repeatable)
+  --topic <text>       Only runs whose topic contains text
+  --variants <file>    JSON array of { name, description, config } variants
+                       (default: bundled templates vs built-in prompt on the stub provider)
+  --output-dir <dir>   Directory holding the runs (default ./outputs)
+  --min-words <n>      Shortest synthesis scored as full length (default 150)
+  --max-words <n>      Longest synthesis scored as full length (default 1200)`;
+
+function parseArgs(argv) {
+    const options = { runIds: [], limit: 3, outputDir: './outputs' };
+    const lengthTarget = { minWords: 150, maxWords: 1200 };
+
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--runs': options.limit = parseInt(value); i++; break;
+            case '--run': options.runIds.push(value); i++; break;
+            case '--topic': options.topic = value; i++; break;
+            case '--variants': options.variantsFile = value; i++; break;
+            case '--output-dir': options.outputDir = value; i++; break;
+            case '--min-words': lengthTarget.minWords = parseInt(value); i++; break;
+            case '--max-words': lengthTarget.maxWords = parseInt(value); i++; break;
+            case '--help': console.log(USAGE); process.exit(0);
+            default: throw new Error(`Unknown option: ${argv[i]}\n\n${USAGE}`);
+        }
+    }
+
+    if (!Number.isInteger(options.limit) || options.limit < 1) {
+        throw new Error('--runs must be a positive integer');
+    }
+    if (!(lengthTarget.minWords > 0) || !(lengthTarget.maxWords >= lengthTarget.minWords)) {
+        throw new Error('--min-words and --max-words must be positive, with min-words <= max-words');
+    }
+    return { ...options, lengthTarget };
+}
+
+try {
+    const options = parseArgs(process.argv.slice(2));
+    const variants = options.variantsFile
+        ? JSON.parse(await fs.readFile(options.variantsFile, 'utf-8'))
+        : undefined;
+
+    console.log('🧪 Starting synthesis evaluation...');
+    const report = await runEvaluation({ ...options, variants });
+    const files = await writeEvaluationReport(report, options.outputDir);
+
+    console.log(`\n${formatEvaluationReport(report)}`);
+    console.log(`📄 Evaluation report written to ${files.join(' and ')}`);
+} catch (error) {
+    console.error('💥 Synthesis evaluation failed:', error.message);
+    process.exit(1);
+}
@@ -12,6 +12,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
+import { emitEvent, OrchestrationEventListener } from '../events.js';
+import { isAbortError } from '../cancellation.js';
 
 // Helper to resolve paths relative to project root
 function resolvePath(dirPath: string): string {
@@ -52,8 +54,12 @@ export class InternalResearchAgent {
     
     /**
      * Main research analysis method
+     *
+     * options.onEvent receives a source_finished event per scanned directory
+     * and once the discovered documents have been processed. options.signal
+     * stops the analysis between stages when the run is cancelled.
      */
-    async analyzeResearch(topic: any, productArea: any = null) {
+    async analyzeResearch(topic: any, productArea: any = null, options: any = {}) {
         log(`🔍 Internal Research Agent analyzing for: ${topic}`);
         
         const startTime = Date.now();
@@ -67,8 +73,9 @@ export class InternalResearchAgent {
         
         try {
             // Discover and process research files
-            const researchFiles = await this.discoverResearchFiles();
+            const researchFiles = await this.discoverResearchFiles(options.onEvent);
             log(`   📁 Found ${researchFiles.length} research files`);
+            options.signal?.throwIfAborted();
             
             if (researchFiles.length === 0) {
                 return this.generateEmptyResults(topic, productArea, startTime);
@@ -76,7 +83,15 @@ export class InternalResearchAgent {
             
             // Process files and extract relevant content
             const processedContent = await this.processResearchFiles(researchFiles, topic, productArea);
+            options.signal?.throwIfAborted();
             analysisResults.filesProcessed = processedContent.length;
+            emitEvent(options.onEvent, {
+                type: 'source_finished',
+                agent: 'internal',
+                source: 'documents',
+                message: `Processed ${processedContent.length} of ${researchFiles.length} research files`,
+                data: { status: 'success', count: processedContent.length }
+            });
             
             // Analyze content for themes and insights
             const contentAnalysis = await this.analyzeContent(processedContent, topic, productArea);
@@ -109,6 +124,9 @@ export class InternalResearchAgent {
             };
             
         } catch (error) {
+            if (isAbortError(error, options.signal)) {
+                throw error;
+            }
             console.error('💥 Internal Research Agent failed:', error);
             return {
                 status: 'failed',
@@ -122,7 +140,7 @@ export class InternalResearchAgent {
     /**
      * Discover research files in configured directories
      */
-    async discoverResearchFiles(): Promise<string[]> {
+    async discoverResearchFiles(onEvent?: OrchestrationEventListener): Promise<string[]> {
         log('   🔍 Discovering research files...');
         log(`   📁 Working directory: ${process.cwd()}`);
 
@@ -137,6 +155,13 @@ export class InternalResearchAgent {
                 // Check if directory exists
                 if (!fs.existsSync(absoluteDir)) {
                     log(`   ⚠️  Directory not found: ${absoluteDir}`);
+                    emitEvent(onEvent, {
+                        type: 'source_finished',
+                        agent: 'internal',
+                        source: directory,
+                        message: `${directory}: directory not found`,
+                        data: { status: 'failed', count: 0 }
+                    });
                     continue;
                 }
 
@@ -163,9 +188,23 @@ export class InternalResearchAgent {
 
                 allFiles.push(...validFiles);
                 log(`     ✅ ${directory}: ${validFiles.length} valid files`);
+                emitEvent(onEvent, {
+                    type: 'source_finished',
+                    agent: 'internal',
+                    source: directory,
+                    message: `${directory}: ${validFiles.length} research files`,
+                    data: { status: 'success', count: validFiles.length }
+                });
 
             } catch (error) {
                 log(`   ⚠️  Error scanning directory ${directory}: ${(error as Error).message}`);
+                emitEvent(onEvent, {
+                    type: 'source_finished',
+                    agent: 'internal',
+                    source: directory,
+                    message: `${directory}: ${(error as Error).message}`,
+                    data: { status: 'failed', count: 0 }
+                });
             }
         }
 
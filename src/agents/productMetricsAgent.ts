@@ -10,6 +10,9 @@
  */
 
 import fetch from 'node-fetch';
+import { emitEvent } from '../events.js';
+import { isAbortError } from '../cancellation.js';
+import { withQuota } from '../executionPlanner.js';
 
 // Helper function to log only when not in MCP silent mode
 function log(...args: any[]): void {
@@ -51,8 +54,12 @@ export class ProductMetricsAgent {
     
     /**
      * Main metrics collection method
+     *
+     * options.onEvent receives a source_finished event as each data source completes.
+     * options.signal aborts in-flight endpoint requests when the run is cancelled,
+     * and options.quota throttles Amplitude calls under a bounded execution plan.
      */
-    async collectMetrics(topic: any, productArea: any = null) {
+    async collectMetrics(topic: any, productArea: any = null, options: any = {}) {
         log(`📈 Product Metrics Agent collecting metrics for: ${topic}`);
         
         const startTime = Date.now();
@@ -85,16 +92,31 @@ export class ProductMetricsAgent {
             
             // Custom endpoints
             if (this.metricsEndpoints.length > 0) {
-                sourcePromises.push(this.collectCustomMetrics(topic, productArea));
+                sourcePromises.push(this.collectCustomMetrics(topic, productArea, options));
             }
             
             // Amplitude analytics
             if (this.amplitudeApiKey && this.amplitudeSecretKey) {
-                sourcePromises.push(this.collectAmplitudeMetrics(topic, productArea));
+                sourcePromises.push(this.collectAmplitudeMetrics(topic, productArea, options));
             }
             
+            // Report each data source as soon as it completes
+            const reportedPromises = sourcePromises.map(promise => promise.then(result => {
+                emitEvent(options.onEvent, {
+                    type: 'source_finished',
+                    agent: 'product',
+                    source: result.type,
+                    message: result.status === 'success'
+                        ? `${result.source || result.type}: ${result.dataPoints} data points`
+                        : `${result.type} failed: ${result.error}`,
+                    data: { status: result.status, count: result.dataPoints }
+                });
+                return result;
+            }));
+            
             // Wait for all sources with individual error handling
-            const sourceResults = await Promise.allSettled(sourcePromises);
+            const sourceResults = await Promise.allSettled(reportedPromises);
+            options.signal?.throwIfAborted();
             
             // Process results
             sourceResults.forEach((result, index) => {
@@ -138,6 +160,9 @@ export class ProductMetricsAgent {
             };
             
         } catch (error) {
+            if (isAbortError(error, options.signal)) {
+                throw error;
+            }
             console.error('💥 Product Metrics Agent failed:', error);
             return {
                 status: 'failed',
@@ -283,19 +308,22 @@ export class ProductMetricsAgent {
     /**
      * Collect metrics from custom endpoints
      */
-    async collectCustomMetrics(topic: any, productArea: any) {
+    async collectCustomMetrics(topic: any, productArea: any, options: any = {}) {
+        const { signal } = options;
         log('   🔌 Collecting custom metrics...');
         
         try {
             const customData = [];
             
             for (const endpoint of this.metricsEndpoints) {
+                signal?.throwIfAborted();
                 try {
                     const response = await fetch(endpoint, {
                         headers: {
                             'User-Agent': 'Rule-of-Thirds-Agent/1.0',
                             'Accept': 'application/json'
-                        }
+                        },
+                        signal
                     });
                     
                     if (response.ok) {
@@ -309,6 +337,9 @@ export class ProductMetricsAgent {
                         log(`     ⚠️  Custom endpoint ${endpoint} returned ${response.status}`);
                     }
                 } catch (error) {
+                    if (isAbortError(error, signal)) {
+                        throw error;
+                    }
                     log(`     ⚠️  Custom endpoint ${endpoint} failed: ${(error as Error).message}`);
                 }
             }
@@ -326,6 +357,9 @@ export class ProductMetricsAgent {
             };
             
         } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
             log(`   ❌ Custom metrics failed: ${(error as Error).message}`);
             return {
                 type: 'custom_metrics',
@@ -339,7 +373,8 @@ export class ProductMetricsAgent {
     /**
      * Collect metrics from Amplitude
      */
-    async collectAmplitudeMetrics(topic: any, productArea: any) {
+    async collectAmplitudeMetrics(topic: any, productArea: any, options: any = {}) {
+        const { signal, quota } = options;
         log('   📊 Collecting Amplitude metrics...');
         
         try {
@@ -350,12 +385,13 @@ export class ProductMetricsAgent {
             
             const url = `https://amplitude.com/api/2/events/segmentation?e=%7B%22event_type%22%3A%22${encodeURIComponent(topic)}%22%7D&start=${startDate}&end=${endDate}`;
             
-            const response = await fetch(url, {
+            const response = await withQuota(quota, 'amplitude', () => fetch(url, {
                 headers: {
                     'Authorization': `Basic ${Buffer.from(`${this.amplitudeApiKey}:${this.amplitudeSecretKey}`).toString('base64')}`,
                     'User-Agent': 'Rule-of-Thirds-Agent/1.0'
-                }
-            });
+                },
+                signal
+            }), signal);
             
             if (!response.ok) {
                 throw new Error(`Amplitude API error: ${response.status} ${response.statusText}`);
@@ -376,6 +412,9 @@ export class ProductMetricsAgent {
             };
             
         } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
             log(`   ❌ Amplitude metrics failed: ${(error as Error).message}`);
             
             // Fall back to simulated Amplitude-like data
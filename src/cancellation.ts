@@ -0,0 +1,112 @@
+/**
+ * Cancellation helpers - AbortSignal plumbing shared by the orchestrator and agents
+ */
+
+/**
+ * Create a signal that aborts when the parent signal aborts or the deadline passes.
+ * Call dispose() once the work finishes to clear the deadline timer.
+ */
+export function createLinkedSignal(parent?: AbortSignal, deadlineMs?: number): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | null = null;
+
+    const onParentAbort = () => controller.abort(parent?.reason);
+
+    if (parent) {
+        if (parent.aborted) {
+            controller.abort(parent.reason);
+        } else {
+            parent.addEventListener('abort', onParentAbort, { once: true });
+        }
+    }
+
+    if (deadlineMs && deadlineMs > 0) {
+        timer = setTimeout(() => {
+            controller.abort(new DeadlineExceededError(deadlineMs));
+        }, deadlineMs);
+    }
+
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            parent?.removeEventListener('abort', onParentAbort);
+        }
+    };
+}
+
+/**
+ * Whether an error was caused by the given signal aborting
+ */
+export function isAbortError(error: any, signal?: AbortSignal): boolean {
+    return Boolean(signal?.aborted) || error?.name === 'AbortError' || error instanceof DeadlineExceededError;
+}
+
+/**
+ * Human-readable reason a signal was aborted
+ */
+export function abortReason(signal?: AbortSignal): string {
+    const reason = signal?.reason;
+    if (reason instanceof Error) {
+        return reason.message;
+    }
+    return typeof reason === 'string' ? reason : 'Run cancelled';
+}
+
+/**
+ * Raised when a per-request deadline elapses
+ */
+export class DeadlineExceededError extends Error {
+    constructor(deadlineMs: number) {
+        super(`Deadline of ${deadlineMs}ms exceeded`);
+        this.name = 'DeadlineExceededError';
+    }
+}
+
+/**
+ * Raised when a single agent attempt exceeds the orchestrator timeout
+ */
+export class AgentTimeoutError extends Error {
+    constructor(timeoutMs: number, message: string = `Agent timeout after ${timeoutMs}ms`) {
+        super(message);
+        this.name = 'AgentTimeoutError';
+    }
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the wrapped work ignores it
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        if (signal.aborted) {
+            return reject(signal.reason);
+        }
+
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+}
@@ -0,0 +1,184 @@
+/**
+ * External Source Connectors - Pluggable sources for the External Signals Agent
+ *
+ * A connector fetches signals for a topic from one external source (an API,
+ * a set of feeds, a community site). The agent runs every enabled connector in
+ * the registry, so a new source is added by registering a connector:
+ *
+ *   orchestrator.external.connectors.register(new MyConnector({ ... }));
+ *
+ * Connectors are enabled by default unless they say otherwise, and can be
+ * switched on or off per request with the agent's `sources` config
+ * ({ news: false, rss: true }).
+ */
+
+import { ProviderQuotas } from '../executionPlanner.js';
+
+export interface ConnectorCapabilities {
+    // Signal types the connector produces (news_article, youtube_video, ...)
+    signalTypes: string[];
+    requiresApiKey: boolean;
+    // Returns simulated signals when the source is not configured or fails
+    simulatedFallback: boolean;
+    enabledByDefault: boolean;
+}
+
+export interface ConnectorFetchOptions {
+    maxResults: number;
+    signal?: AbortSignal;
+    quota?: ProviderQuotas;
+}
+
+export interface ConnectorResult {
+    status: 'success' | 'failed';
+    signals: any[];
+    // Where the signals came from, e.g. "News API" or "3 RSS feeds"
+    source: string;
+    error?: string;
+    // Connector-specific detail kept with the run's source entry, e.g. per-feed outcomes
+    details?: any;
+}
+
+export type ConnectorHealthStatus = 'healthy' | 'degraded' | 'unavailable';
+
+export interface ConnectorHealth {
+    status: ConnectorHealthStatus;
+    message: string;
+}
+
+export interface ExternalSourceConnector {
+    readonly id: string;
+    readonly name: string;
+    readonly capabilities: ConnectorCapabilities;
+    fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult>;
+    healthCheck(options?: { signal?: AbortSignal }): Promise<ConnectorHealth>;
+}
+
+export class ConnectorRegistryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConnectorRegistryError';
+    }
+}
+
+const CONNECTOR_ID = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Connectors by id, in registration order
+ */
+export class ConnectorRegistry {
+    private connectors: Map<string, ExternalSourceConnector>;
+
+    constructor(connectors: ExternalSourceConnector[] = []) {
+        this.connectors = new Map();
+        connectors.forEach(connector => this.register(connector));
+    }
+
+    register(connector: ExternalSourceConnector): void {
+        if (!CONNECTOR_ID.test(connector.id || '')) {
+            throw new ConnectorRegistryError(`Connector id "${connector.id}" must be lowercase letters, digits, - or _`);
+        }
+        if (this.connectors.has(connector.id)) {
+            throw new ConnectorRegistryError(`Connector "${connector.id}" is already registered`);
+        }
+        this.connectors.set(connector.id, connector);
+    }
+
+    unregister(id: string): boolean {
+        return this.connectors.delete(id);
+    }
+
+    get(id: string): ExternalSourceConnector | undefined {
+        return this.connectors.get(id);
+    }
+
+    has(id: string): boolean {
+        return this.connectors.has(id);
+    }
+
+    list(): ExternalSourceConnector[] {
+        return [...this.connectors.values()];
+    }
+
+    ids(): string[] {
+        return [...this.connectors.keys()];
+    }
+
+    /**
+     * Connectors switched on by the selection, falling back to each connector's default
+     */
+    enabled(selection: { [id: string]: boolean } = {}): ExternalSourceConnector[] {
+        return this.list().filter(connector => selection[connector.id] ?? connector.capabilities.enabledByDefault);
+    }
+}
+
+/**
+ * Configuration errors for a per-request connector selection, for validateConfig
+ */
+export function validateConnectorSelection(selection: any, registry: ConnectorRegistry): string[] {
+    if (selection === undefined || selection === null) {
+        return [];
+    }
+    if (typeof selection !== 'object' || Array.isArray(selection)) {
+        return ['connectors must be an object of connector ids to true or false'];
+    }
+    return Object.entries(selection).flatMap(([id, enabled]) => {
+        if (!registry.has(id)) {
+            return [`connectors.${id} is not a registered connector (available: ${registry.ids().join(', ')})`];
+        }
+        return typeof enabled === 'boolean' ? [] : [`connectors.${id} must be true or false`];
+    });
+}
+
+/**
+ * Relevance of a piece of content to the topic and product area, between 0 and 1
+ */
+export function scoreRelevance(content: string, topic: string, productArea: string | null): number {
+    if (!content) return 0;
+
+    const normalizedContent = content.toLowerCase();
+    const normalizedTopic = topic.toLowerCase();
+    const normalizedProductArea = productArea ? productArea.toLowerCase() : '';
+
+    let score = 0;
+
+    // Topic matches
+    if (normalizedContent.includes(normalizedTopic)) {
+        score += 0.5;
+    }
+
+    // Product area matches
+    if (normalizedProductArea && normalizedContent.includes(normalizedProductArea)) {
+        score += 0.3;
+    }
+
+    // Keyword density
+    const topicWords = normalizedTopic.split(' ');
+    const productWords = normalizedProductArea ? normalizedProductArea.split(' ') : [];
+    const allKeywords = [...topicWords, ...productWords];
+
+    allKeywords.forEach(keyword => {
+        const regex = new RegExp(`\\b${keyword}\\b`, 'gi');
+        const matches = (normalizedContent.match(regex) || []).length;
+        score += matches * 0.1;
+    });
+
+    return Math.min(score, 1.0); // Cap at 1.0
+}
+
+/**
+ * Plain text from an HTML or markdown snippet, shortened to maxLength characters
+ */
+export function plainText(html: string | null | undefined, maxLength: number = 500): string {
+    const text = (html || '')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&#x27;|&#39;/g, "'")
+        .replace(/&#x2F;/g, '/')
+        .replace(/&quot;/g, '"')
+        .replace(/&gt;/g, '>')
+        .replace(/&lt;/g, '<')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
@@ -0,0 +1,24 @@
+/**
+ * The connectors every External Signals Agent starts with
+ */
+
+import { ConnectorRegistry } from './connectorRegistry.js';
+import { GitHubConnector } from './gitHubConnector.js';
+import { HackerNewsConnector } from './hackerNewsConnector.js';
+import { NewsApiConnector } from './newsApiConnector.js';
+import { RedditConnector } from './redditConnector.js';
+import { ReviewConnector } from './reviewConnector.js';
+import { RssConnector } from './rssConnector.js';
+import { YouTubeConnector } from './youtubeConnector.js';
+
+export function createDefaultRegistry(config: any = {}): ConnectorRegistry {
+    return new ConnectorRegistry([
+        new NewsApiConnector({ apiKey: config.newsApiKey }),
+        new YouTubeConnector({ apiKey: config.youtubeApiKey }),
+        new RssConnector({ feeds: config.rssSources, library: config.feedLibrary, tags: config.feedTags }),
+        new HackerNewsConnector(config.hackerNews),
+        new RedditConnector(config.reddit),
+        new GitHubConnector(config.github),
+        new ReviewConnector(config.reviews)
+    ]);
+}
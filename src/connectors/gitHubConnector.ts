@@ -0,0 +1,339 @@
+/**
+ * GitHub Connector - Issues, discussions and releases from chosen repositories
+ *
+ * For developer tooling topics, issues and release notes of competitor and
+ * upstream repositories are the most concrete external signals. Reaction
+ * counts mark what the community cares about most.
+ *
+ * - Issues: the search API, one query across the repositories
+ * - Discussions: the GraphQL search API (needs a token)
+ * - Releases: each repository's recent releases that mention the topic
+ */
+
+import nodeFetch from 'node-fetch';
+import { isAbortError } from '../cancellation.js';
+import { withQuota } from '../executionPlanner.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, plainText, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+const GITHUB_API_URL = 'https://api.github.com';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Repositories per search query, keeping queries under GitHub's length limit
+const REPOS_PER_QUERY = 5;
+const REPOSITORY = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+const DISCUSSIONS_QUERY = `query($search: String!, $first: Int!) {
+  search(query: $search, type: DISCUSSION, first: $first) {
+    nodes {
+      ... on Discussion {
+        title
+        body
+        url
+        createdAt
+        upvoteCount
+        reactions { totalCount }
+        comments { totalCount }
+        repository { nameWithOwner }
+        category { name }
+        author { login }
+      }
+    }
+  }
+}`;
+
+interface GitHubAttempt {
+    label: string;
+    error: string | null;
+}
+
+export interface GitHubConnectorConfig {
+    // owner/name, e.g. ['Azure/bicep', 'hashicorp/terraform']
+    repositories?: string[];
+    token?: string;
+    baseUrl?: string;
+    // Only issues, discussions and releases updated in the last lookbackDays
+    lookbackDays?: number;
+    releasesPerRepository?: number;
+    // Replaces node-fetch, e.g. to serve recorded responses
+    fetch?: (url: string, init?: any) => Promise<any>;
+}
+
+export class GitHubConnector implements ExternalSourceConnector {
+    readonly id = 'github';
+    readonly name = 'GitHub';
+    readonly capabilities = {
+        signalTypes: ['github_issue', 'github_discussion', 'github_release'],
+        requiresApiKey: false,
+        simulatedFallback: false,
+        enabledByDefault: true
+    };
+    private config: Required<Omit<GitHubConnectorConfig, 'fetch' | 'token'>>;
+    private token?: string;
+    // Entries that are not owner/name, reported rather than dropped silently
+    private invalidRepositories: string[];
+    private fetchImpl: (url: string, init?: any) => Promise<any>;
+
+    constructor(config: GitHubConnectorConfig = {}) {
+        // An empty list (e.g. a blank field in the web UI) falls back to the environment
+        const repositories = (config.repositories?.length ? config.repositories : (process.env.GITHUB_REPOSITORIES || '').split(','))
+            .map(repository => repository.trim())
+            .filter(repository => repository);
+        this.invalidRepositories = repositories.filter(repository => !REPOSITORY.test(repository));
+        this.config = {
+            repositories: repositories.filter(repository => REPOSITORY.test(repository)),
+            baseUrl: config.baseUrl || GITHUB_API_URL,
+            lookbackDays: config.lookbackDays || 90,
+            releasesPerRepository: config.releasesPerRepository || 10
+        };
+        this.token = config.token || process.env.GITHUB_TOKEN;
+        this.fetchImpl = config.fetch || nodeFetch;
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { repositories } = this.config;
+        log('   🐙 Gathering GitHub signals...');
+
+        if (this.invalidRepositories.length > 0) {
+            log(`   ⚠️  Ignoring GitHub repositories that are not owner/name: ${this.invalidRepositories.join(', ')}`);
+        }
+        if (repositories.length === 0) {
+            log('   ⚠️  No GitHub repositories configured, skipping');
+            return { status: 'success', signals: [], source: 'GitHub (no repositories configured)' };
+        }
+
+        // A failing query or repository (a typo, a private repository, an exhausted quota) does not stop the others
+        const attempts: GitHubAttempt[] = [];
+        const since = new Date(Date.now() - this.config.lookbackDays * DAY_MS);
+        const [issues, discussions, releases] = await Promise.all([
+            this.fetchIssues(topic, since, options, attempts),
+            this.fetchDiscussions(topic, since, options, attempts),
+            this.fetchReleases(topic, since, options, attempts)
+        ]);
+
+        const failed = attempts.filter(attempt => attempt.error);
+        if (failed.length > 0 && failed.length === attempts.length) {
+            return { status: 'failed', signals: [], source: 'GitHub', error: failed.map(attempt => attempt.error).join('; ') };
+        }
+
+        const signals = [...issues, ...discussions, ...releases].map(item => ({
+            ...item,
+            relevanceScore: scoreRelevance(`${item.title} ${item.content}`, topic, productArea)
+        }));
+
+        return {
+            status: 'success',
+            signals,
+            source: `GitHub (${countRepositories(repositories)}${failed.length > 0 ? `, ${failed.length} of ${attempts.length} requests failed` : ''})`
+        };
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        const { repositories } = this.config;
+        const invalid = this.invalidRepositories.length > 0 ? ` (ignoring ${this.invalidRepositories.join(', ')}: not owner/name)` : '';
+        if (repositories.length === 0) {
+            return { status: 'unavailable', message: `No repositories configured${invalid}` };
+        }
+        return this.token
+            ? { status: invalid ? 'degraded' : 'healthy', message: `${countRepositories(repositories)}, token configured${invalid}` }
+            : { status: 'degraded', message: `${countRepositories(repositories)}, no token - no discussions and low rate limits${invalid}` };
+    }
+
+    /**
+     * Issues matching the topic, most reacted first
+     */
+    private async fetchIssues(topic: string, since: Date, options: ConnectorFetchOptions, attempts: GitHubAttempt[]): Promise<any[]> {
+        const perPage = Math.min(options.maxResults, 50);
+        const pages = await Promise.all(chunk(this.config.repositories, REPOS_PER_QUERY).map(repositories => {
+            const query = `${topic} ${repositories.map(repository => `repo:${repository}`).join(' ')} is:issue updated:>${isoDate(since)}`;
+            return this.attempt(`Issues in ${repositories.join(', ')}`, attempts, options, async () => {
+                const page = await this.request(`/search/issues?${new URLSearchParams({ q: query, sort: 'reactions', order: 'desc', per_page: String(perPage) })}`, options);
+                return page.items || [];
+            });
+        }));
+
+        return pages.flat().map(issue => ({
+            type: 'github_issue',
+            title: issue.title,
+            content: plainText(issue.body, 600),
+            source: repositoryName(issue.repository_url),
+            url: issue.html_url,
+            publishedAt: issue.created_at,
+            metadata: {
+                kind: 'issue',
+                state: issue.state,
+                labels: (issue.labels || []).map(label => label.name),
+                ...engagement(issue.reactions, issue.comments)
+            }
+        }));
+    }
+
+    /**
+     * Discussions matching the topic (the GraphQL API needs a token)
+     */
+    private async fetchDiscussions(topic: string, since: Date, options: ConnectorFetchOptions, attempts: GitHubAttempt[]): Promise<any[]> {
+        if (!this.token) {
+            return [];
+        }
+
+        const first = Math.min(options.maxResults, 50);
+        const pages = await Promise.all(chunk(this.config.repositories, REPOS_PER_QUERY).map(repositories => {
+            const search = `${topic} ${repositories.map(repository => `repo:${repository}`).join(' ')} updated:>${isoDate(since)}`;
+            return this.attempt(`Discussions in ${repositories.join(', ')}`, attempts, options, async () => {
+                const page = await this.request('/graphql', options, { query: DISCUSSIONS_QUERY, variables: { search, first } });
+                if (page.errors?.length) {
+                    throw new Error(`GitHub GraphQL error: ${page.errors[0].message}`);
+                }
+                return page.data?.search?.nodes || [];
+            });
+        }));
+
+        return pages.flat().filter(discussion => discussion.url).map(discussion => ({
+            type: 'github_discussion',
+            title: discussion.title,
+            content: plainText(discussion.body, 600),
+            source: discussion.repository?.nameWithOwner || 'GitHub',
+            url: discussion.url,
+            publishedAt: discussion.createdAt,
+            metadata: {
+                kind: 'discussion',
+                category: discussion.category?.name,
+                author: discussion.author?.login,
+                upvotes: discussion.upvoteCount || 0,
+                reactions: { total: discussion.reactions?.totalCount || 0 },
+                points: (discussion.reactions?.totalCount || 0) + (discussion.upvoteCount || 0),
+                commentCount: discussion.comments?.totalCount || 0
+            }
+        }));
+    }
+
+    /**
+     * Recent releases whose name or notes mention the topic
+     */
+    private async fetchReleases(topic: string, since: Date, options: ConnectorFetchOptions, attempts: GitHubAttempt[]): Promise<any[]> {
+        const topicWords = topic.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+        const perRepository = await Promise.all(this.config.repositories.map(repository => this.attempt(`Releases of ${repository}`, attempts, options, async () => {
+            // Every release of Azure/bicep mentions "bicep"; match on the rest of the topic
+            const keywords = topicWords.filter(word => !repository.toLowerCase().includes(word));
+            const releases = await this.request(`/repos/${repository}/releases?per_page=${this.config.releasesPerRepository}`, options);
+            return (Array.isArray(releases) ? releases : [])
+                .filter(release => !release.draft && new Date(release.published_at || release.created_at) > since)
+                .filter(release => {
+                    const text = `${release.name || ''} ${release.tag_name} ${release.body || ''}`.toLowerCase();
+                    return keywords.length === 0 || keywords.some(keyword => text.includes(keyword));
+                })
+                .map(release => ({
+                    type: 'github_release',
+                    title: `${repository} ${release.name || release.tag_name}`,
+                    content: plainText(release.body, 800),
+                    source: repository,
+                    url: release.html_url,
+                    publishedAt: release.published_at || release.created_at,
+                    metadata: {
+                        kind: 'release',
+                        tag: release.tag_name,
+                        prerelease: !!release.prerelease,
+                        ...engagement(release.reactions, undefined)
+                    }
+                }));
+        })));
+        return perRepository.flat();
+    }
+
+    /**
+     * Run one GitHub request, recording it in attempts; a failure yields no items
+     */
+    private async attempt(label: string, attempts: GitHubAttempt[], options: ConnectorFetchOptions, task: () => Promise<any[]>): Promise<any[]> {
+        const attempt: GitHubAttempt = { label, error: null };
+        attempts.push(attempt);
+        try {
+            return await task();
+        } catch (error) {
+            if (isAbortError(error, options.signal)) {
+                throw error;
+            }
+            attempt.error = `${label}: ${(error as Error).message}`;
+            log(`   ⚠️  GitHub ${attempt.error}`);
+            return [];
+        }
+    }
+
+    /**
+     * One GitHub API response; a body makes it a POST
+     */
+    private async request(path: string, options: ConnectorFetchOptions, body?: any): Promise<any> {
+        const { signal, quota } = options;
+        const response = await withQuota(quota, 'github', () => this.fetchImpl(`${this.config.baseUrl}${path}`, {
+            method: body ? 'POST' : 'GET',
+            headers: {
+                'Accept': 'application/vnd.github+json',
+                'User-Agent': 'Rule-of-Thirds-Agent/1.0',
+                ...(this.token ? { 'Authorization': `Bearer ${this.token}` } : {}),
+                ...(body ? { 'Content-Type': 'application/json' } : {})
+            },
+            body: body ? JSON.stringify(body) : undefined,
+            signal
+        }), signal);
+
+        if (!response.ok) {
+            const remaining = response.headers?.get?.('x-ratelimit-remaining');
+            throw new Error(`GitHub API error: ${response.status} ${response.statusText}${remaining === '0' ? ' (rate limit exhausted)' : ''}`);
+        }
+
+        return response.json();
+    }
+}
+
+/**
+ * Reaction counts as importance, in the points/commentCount shape used for engagement ranking
+ */
+function engagement(reactions: any, comments: number | undefined) {
+    const { url, total_count, ...byReaction } = reactions || {};
+    return {
+        reactions: { total: total_count || 0, ...byReaction },
+        points: total_count || 0,
+        ...(comments !== undefined ? { commentCount: comments } : {})
+    };
+}
+
+function repositoryName(repositoryUrl: string | undefined): string {
+    return repositoryUrl ? repositoryUrl.split('/repos/')[1] || repositoryUrl : 'GitHub';
+}
+
+function countRepositories(repositories: string[]): string {
+    return `${repositories.length} ${repositories.length === 1 ? 'repository' : 'repositories'}`;
+}
+
+function isoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Configuration errors for per-request repositories, for validateConfig
+ */
+export function validateGitHubRepositories(repositories: any): string[] {
+    if (repositories === undefined || repositories === null) {
+        return [];
+    }
+    if (!Array.isArray(repositories)) {
+        return ['githubRepositories must be a list of owner/name repositories'];
+    }
+
+    const invalid = repositories.filter(repository => typeof repository !== 'string' || !REPOSITORY.test(repository.trim()));
+    return invalid.length > 0
+        ? [`githubRepositories has entries that are not owner/name repositories: ${invalid.map(repository => JSON.stringify(repository)).join(', ')}`]
+        : [];
+}
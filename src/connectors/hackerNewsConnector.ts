@@ -0,0 +1,152 @@
+/**
+ * Hacker News Connector - Developer discussion from the Hacker News search API (Algolia)
+ *
+ * Searches recent stories for the topic and adds the top comments of the most
+ * engaged stories. No API key is needed; there is no simulated fallback.
+ */
+
+import nodeFetch from 'node-fetch';
+import { isAbortError } from '../cancellation.js';
+import { withQuota } from '../executionPlanner.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, plainText, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+const HN_SEARCH_URL = 'https://hn.algolia.com/api/v1/search';
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface HackerNewsConnectorConfig {
+    baseUrl?: string;
+    // Only stories from the last lookbackDays
+    lookbackDays?: number;
+    // Stories whose top comments are fetched, most engaged first
+    commentStories?: number;
+    commentsPerStory?: number;
+    // Replaces node-fetch, e.g. to serve recorded responses
+    fetch?: (url: string, init?: any) => Promise<any>;
+}
+
+export class HackerNewsConnector implements ExternalSourceConnector {
+    readonly id = 'hackernews';
+    readonly name = 'Hacker News';
+    readonly capabilities = {
+        signalTypes: ['hackernews_story'],
+        requiresApiKey: false,
+        simulatedFallback: false,
+        enabledByDefault: true
+    };
+    private config: Required<Omit<HackerNewsConnectorConfig, 'fetch'>>;
+    private fetchImpl: (url: string, init?: any) => Promise<any>;
+
+    constructor(config: HackerNewsConnectorConfig = {}) {
+        this.config = {
+            baseUrl: config.baseUrl || HN_SEARCH_URL,
+            lookbackDays: config.lookbackDays || 30,
+            commentStories: config.commentStories ?? 5,
+            commentsPerStory: config.commentsPerStory ?? 3
+        };
+        this.fetchImpl = config.fetch || nodeFetch;
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { signal } = options;
+        log('   🟧 Gathering Hacker News signals...');
+
+        try {
+            const since = Math.floor(Date.now() / 1000) - this.config.lookbackDays * DAY_SECONDS;
+            const stories = await this.search({
+                query: topic,
+                tags: 'story',
+                numericFilters: `created_at_i>${since}`,
+                hitsPerPage: String(Math.min(options.maxResults, 50))
+            }, options);
+
+            // Top comments for the most engaged stories
+            const discussed = [...stories]
+                .sort((a, b) => engagement(b) - engagement(a))
+                .slice(0, this.config.commentStories)
+                .filter(story => story.num_comments > 0);
+            const comments = new Map<string, any[]>();
+            await Promise.all(discussed.map(async story => {
+                try {
+                    comments.set(story.objectID, await this.search({
+                        tags: `comment,story_${story.objectID}`,
+                        hitsPerPage: String(this.config.commentsPerStory)
+                    }, options));
+                } catch (error) {
+                    if (isAbortError(error, signal)) {
+                        throw error;
+                    }
+                    log(`   ⚠️  Hacker News comments failed for story ${story.objectID}: ${(error as Error).message}`);
+                }
+            }));
+
+            const signals = stories.map(story => {
+                const topComments = (comments.get(story.objectID) || []).map(comment => ({
+                    author: comment.author,
+                    text: plainText(comment.comment_text, 300)
+                }));
+                const content = plainText([story.story_text, ...topComments.map(comment => comment.text)].filter(Boolean).join(' … '), 800);
+                const discussionUrl = `https://news.ycombinator.com/item?id=${story.objectID}`;
+
+                return {
+                    type: 'hackernews_story',
+                    title: story.title,
+                    content,
+                    source: 'Hacker News',
+                    url: story.url || discussionUrl,
+                    publishedAt: story.created_at,
+                    relevanceScore: scoreRelevance(`${story.title} ${content}`, topic, productArea),
+                    metadata: {
+                        points: story.points || 0,
+                        commentCount: story.num_comments || 0,
+                        author: story.author,
+                        discussionUrl,
+                        topComments
+                    }
+                };
+            });
+
+            return { status: 'success', signals, source: 'Hacker News' };
+
+        } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            log(`   ❌ Hacker News failed: ${(error as Error).message}`);
+            return { status: 'failed', signals: [], source: 'Hacker News', error: (error as Error).message };
+        }
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        return { status: 'healthy', message: `Public search API, last ${this.config.lookbackDays} days` };
+    }
+
+    /**
+     * One page of search hits
+     */
+    private async search(params: { [key: string]: string }, options: ConnectorFetchOptions): Promise<any[]> {
+        const { signal, quota } = options;
+        const url = `${this.config.baseUrl}?${new URLSearchParams(params)}`;
+        const response = await withQuota(quota, 'hackernews', () => this.fetchImpl(url, {
+            headers: { 'User-Agent': 'Rule-of-Thirds-Agent/1.0' },
+            signal
+        }), signal);
+
+        if (!response.ok) {
+            throw new Error(`Hacker News API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as any;
+        return data.hits || [];
+    }
+}
+
+function engagement(story: any): number {
+    return (story.points || 0) + (story.num_comments || 0);
+}
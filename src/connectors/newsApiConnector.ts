@@ -0,0 +1,140 @@
+/**
+ * News API Connector - Market trends and competitor mentions from newsapi.org
+ *
+ * Falls back to simulated articles without an API key or when the API fails.
+ */
+
+import fetch from 'node-fetch';
+import { isAbortError } from '../cancellation.js';
+import { withQuota } from '../executionPlanner.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+export class NewsApiConnector implements ExternalSourceConnector {
+    readonly id = 'news';
+    readonly name = 'News API';
+    readonly capabilities = {
+        signalTypes: ['news_article'],
+        requiresApiKey: true,
+        simulatedFallback: true,
+        enabledByDefault: true
+    };
+    private apiKey?: string;
+
+    constructor(config: { apiKey?: string } = {}) {
+        this.apiKey = config.apiKey || process.env.NEWS_API_KEY;
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { signal, quota } = options;
+        log('   📰 Gathering news signals...');
+
+        if (!this.apiKey) {
+            log('   ⚠️  No News API key, using simulated data');
+            return this.generateSimulatedData(topic, productArea);
+        }
+
+        try {
+            // Build search query
+            const query = productArea ? `"${topic}" AND "${productArea}"` : `"${topic}"`;
+            const url = `https://newsapi.org/v2/everything?q=${encodeURIComponent(query)}&language=en&sortBy=publishedAt&pageSize=${Math.min(options.maxResults, 100)}`;
+
+            const response = await withQuota(quota, 'newsapi', () => fetch(url, {
+                headers: {
+                    'X-API-Key': this.apiKey,
+                    'User-Agent': 'Rule-of-Thirds-Agent/1.0'
+                },
+                signal
+            }), signal);
+
+            if (!response.ok) {
+                throw new Error(`News API error: ${await response.text()}`);
+            }
+
+            const data = await response.json() as any;
+
+            if (data.status !== 'ok') {
+                throw new Error(`News API error: ${data.message}`);
+            }
+
+            const signals = data.articles.map((article: any) => ({
+                type: 'news_article',
+                title: article.title,
+                content: article.description || article.content,
+                source: article.source.name,
+                url: article.url,
+                publishedAt: article.publishedAt,
+                relevanceScore: scoreRelevance(
+                    article.title + ' ' + (article.description || ''),
+                    topic,
+                    productArea
+                ),
+                metadata: {
+                    author: article.author,
+                    urlToImage: article.urlToImage
+                }
+            }));
+
+            return { status: 'success', signals, source: 'News API' };
+
+        } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            log(`   ❌ News API failed: ${(error as Error).message}, falling back to simulated data`);
+            return this.generateSimulatedData(topic, productArea);
+        }
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        return this.apiKey
+            ? { status: 'healthy', message: 'API key configured' }
+            : { status: 'degraded', message: 'No API key - simulated articles' };
+    }
+
+    /**
+     * Simulated articles when the API is not available
+     */
+    generateSimulatedData(topic: string, productArea: string | null): ConnectorResult {
+        const simulatedArticles = [
+            {
+                type: 'news_article',
+                title: `Industry Analysis: ${topic} Trends Reshape Market Landscape`,
+                content: `Recent market analysis reveals significant shifts in ${topic} adoption patterns. Key industry players are investing heavily in ${productArea || 'related technologies'} to capture emerging opportunities.`,
+                source: 'Tech Industry Report',
+                url: 'https://example.com/news/1',
+                publishedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+                relevanceScore: 0.85,
+                metadata: { simulated: true }
+            },
+            {
+                type: 'news_article',
+                title: `Breaking: Major Investment in ${topic} Solutions`,
+                content: `Venture capital firms announce major funding round for startups focusing on ${topic} innovation, signaling strong market confidence.`,
+                source: 'Business News Daily',
+                url: 'https://example.com/news/2',
+                publishedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
+                relevanceScore: 0.78,
+                metadata: { simulated: true }
+            },
+            {
+                type: 'news_article',
+                title: `Research Report: Consumer Adoption of ${topic} Accelerates`,
+                content: `New consumer research indicates significant increase in ${topic} adoption over the past quarter, driven by improved user experience and cost reduction.`,
+                source: 'Market Research Weekly',
+                url: 'https://example.com/news/3',
+                publishedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+                relevanceScore: 0.72,
+                metadata: { simulated: true }
+            }
+        ];
+
+        return { status: 'success', signals: simulatedArticles, source: 'Simulated News Data' };
+    }
+}
@@ -0,0 +1,167 @@
+/**
+ * Reddit Connector - Developer discussion from Reddit's public JSON search
+ *
+ * Searches recent posts for the topic (optionally within chosen subreddits)
+ * and adds the top comments of the most engaged posts. No API key is needed;
+ * there is no simulated fallback.
+ */
+
+import nodeFetch from 'node-fetch';
+import { isAbortError } from '../cancellation.js';
+import { withQuota } from '../executionPlanner.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, plainText, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+const REDDIT_URL = 'https://www.reddit.com';
+const TIME_WINDOWS = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+export interface RedditConnectorConfig {
+    baseUrl?: string;
+    // Search only these subreddits (e.g. ['programming', 'devops']); all of Reddit by default
+    subreddits?: string[];
+    // Reddit search window: hour, day, week, month, year or all
+    timeWindow?: string;
+    // Posts whose top comments are fetched, most engaged first
+    commentStories?: number;
+    commentsPerStory?: number;
+    // Replaces node-fetch, e.g. to serve recorded responses
+    fetch?: (url: string, init?: any) => Promise<any>;
+}
+
+export class RedditConnector implements ExternalSourceConnector {
+    readonly id = 'reddit';
+    readonly name = 'Reddit';
+    readonly capabilities = {
+        signalTypes: ['reddit_post'],
+        requiresApiKey: false,
+        simulatedFallback: false,
+        enabledByDefault: true
+    };
+    private config: Required<Omit<RedditConnectorConfig, 'fetch'>>;
+    private fetchImpl: (url: string, init?: any) => Promise<any>;
+
+    constructor(config: RedditConnectorConfig = {}) {
+        this.config = {
+            baseUrl: config.baseUrl || REDDIT_URL,
+            subreddits: config.subreddits || [],
+            timeWindow: TIME_WINDOWS.includes(config.timeWindow) ? config.timeWindow : 'month',
+            commentStories: config.commentStories ?? 5,
+            commentsPerStory: config.commentsPerStory ?? 3
+        };
+        this.fetchImpl = config.fetch || nodeFetch;
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { signal } = options;
+        log('   👽 Gathering Reddit signals...');
+
+        try {
+            const { subreddits } = this.config;
+            const searchPath = subreddits.length > 0 ? `/r/${subreddits.join('+')}/search.json` : '/search.json';
+            const listing = await this.get(searchPath, {
+                q: topic,
+                sort: 'relevance',
+                t: this.config.timeWindow,
+                limit: String(Math.min(options.maxResults, 50)),
+                type: 'link',
+                ...(subreddits.length > 0 ? { restrict_sr: '1' } : {})
+            }, options);
+            const posts = (listing.data?.children || []).map(child => child.data);
+
+            // Top comments for the most engaged posts
+            const discussed = [...posts]
+                .sort((a, b) => engagement(b) - engagement(a))
+                .slice(0, this.config.commentStories)
+                .filter(post => post.num_comments > 0);
+            const comments = new Map<string, any[]>();
+            await Promise.all(discussed.map(async post => {
+                try {
+                    const thread = await this.get(`/comments/${post.id}.json`, {
+                        sort: 'top',
+                        limit: String(this.config.commentsPerStory),
+                        depth: '1'
+                    }, options);
+                    comments.set(post.id, (thread[1]?.data?.children || [])
+                        .filter(child => child.kind === 't1')
+                        .slice(0, this.config.commentsPerStory)
+                        .map(child => child.data));
+                } catch (error) {
+                    if (isAbortError(error, signal)) {
+                        throw error;
+                    }
+                    log(`   ⚠️  Reddit comments failed for post ${post.id}: ${(error as Error).message}`);
+                }
+            }));
+
+            const signals = posts.map(post => {
+                const topComments = (comments.get(post.id) || []).map(comment => ({
+                    author: comment.author,
+                    text: plainText(comment.body, 300),
+                    points: comment.score || 0
+                }));
+                const content = plainText([post.selftext, ...topComments.map(comment => comment.text)].filter(Boolean).join(' … '), 800);
+                const discussionUrl = `https://www.reddit.com${post.permalink}`;
+
+                return {
+                    type: 'reddit_post',
+                    title: post.title,
+                    content,
+                    source: post.subreddit_name_prefixed || 'Reddit',
+                    url: post.is_self ? discussionUrl : post.url || discussionUrl,
+                    publishedAt: post.created_utc ? new Date(post.created_utc * 1000).toISOString() : null,
+                    relevanceScore: scoreRelevance(`${post.title} ${content}`, topic, productArea),
+                    metadata: {
+                        points: post.score || 0,
+                        commentCount: post.num_comments || 0,
+                        author: post.author,
+                        subreddit: post.subreddit,
+                        discussionUrl,
+                        topComments
+                    }
+                };
+            });
+
+            return { status: 'success', signals, source: subreddits.length > 0 ? `Reddit (${subreddits.length} subreddits)` : 'Reddit' };
+
+        } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            log(`   ❌ Reddit failed: ${(error as Error).message}`);
+            return { status: 'failed', signals: [], source: 'Reddit', error: (error as Error).message };
+        }
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        const scope = this.config.subreddits.length > 0 ? `r/${this.config.subreddits.join('+')}` : 'all subreddits';
+        return { status: 'healthy', message: `Public JSON search, ${scope}, past ${this.config.timeWindow}` };
+    }
+
+    /**
+     * One JSON response from Reddit (unauthenticated requests need a descriptive User-Agent)
+     */
+    private async get(path: string, params: { [key: string]: string }, options: ConnectorFetchOptions): Promise<any> {
+        const { signal, quota } = options;
+        const url = `${this.config.baseUrl}${path}?${new URLSearchParams({ ...params, raw_json: '1' })}`;
+        const response = await withQuota(quota, 'reddit', () => this.fetchImpl(url, {
+            headers: { 'User-Agent': 'Rule-of-Thirds-Agent/1.0' },
+            signal
+        }), signal);
+
+        if (!response.ok) {
+            throw new Error(`Reddit API error: ${response.status} ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+}
+
+function engagement(post: any): number {
+    return (post.score || 0) + (post.num_comments || 0);
+}
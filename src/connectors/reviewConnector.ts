@@ -0,0 +1,382 @@
+/**
+ * Review Connector - Customer voice from app stores and marketplaces
+ *
+ * Reads star ratings and review text from:
+ * - App Store customer review feeds (iTunes RSS, JSON format)
+ * - VS Code Marketplace extension reviews
+ * - Review CSV exports (from Google Play, G2, Zendesk and the like)
+ *
+ * Reviews come from the product's own listings, so they are kept whether or
+ * not they mention the topic. The agent summarizes their ratings.
+ */
+
+import nodeFetch from 'node-fetch';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isAbortError } from '../cancellation.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, plainText, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+const APP_STORE_URL = 'https://itunes.apple.com';
+const MARKETPLACE_URL = 'https://marketplace.visualstudio.com/_apis/public/gallery';
+// Floor for reviews that do not mention the topic, which still speak to the product
+const REVIEW_BASE_RELEVANCE = 0.4;
+const EXTENSION_ID = /^[A-Za-z0-9-]+\.[A-Za-z0-9-]+$/;
+// Review CSV exports are only read from inside this directory
+const DEFAULT_IMPORT_DIRECTORY = './research-outputs';
+
+// CSV header names accepted for each field, lowercase
+const CSV_COLUMNS = {
+    rating: ['rating', 'stars', 'star rating', 'score'],
+    text: ['text', 'review', 'review text', 'body', 'content', 'comment'],
+    title: ['title', 'review title', 'subject'],
+    version: ['version', 'app version', 'product version'],
+    date: ['date', 'review date', 'created', 'created at', 'updated', 'submitted'],
+    author: ['author', 'user', 'reviewer', 'name'],
+    url: ['url', 'link']
+};
+
+export type ReviewSourceKind = 'app-store' | 'vscode-marketplace' | 'csv';
+
+export interface AppStoreListing {
+    appId: string;
+    // Two-letter store country (default us)
+    country?: string;
+    name?: string;
+}
+
+export interface ReviewConnectorConfig {
+    appStore?: AppStoreListing[];
+    // publisher.extension, e.g. ['ms-azuretools.vscode-bicep']
+    vscodeMarketplace?: string[];
+    // Review CSV exports with a header row (rating and review text columns required)
+    csvFiles?: string[];
+    // Directory the CSV exports must be in (default REVIEW_IMPORT_DIR, else ./research-outputs)
+    importDirectory?: string;
+    maxReviewsPerSource?: number;
+    // Replaces node-fetch, e.g. to serve recorded responses
+    fetch?: (url: string, init?: any) => Promise<any>;
+}
+
+interface Review {
+    rating: number;
+    text: string;
+    title: string | null;
+    version: string | null;
+    date: string | null;
+    author: string | null;
+    url: string | null;
+}
+
+interface ReviewSource {
+    kind: ReviewSourceKind;
+    label: string;
+    load: (options: ConnectorFetchOptions) => Promise<Review[]>;
+}
+
+export class ReviewConnector implements ExternalSourceConnector {
+    readonly id = 'reviews';
+    readonly name = 'App & Marketplace Reviews';
+    readonly capabilities = {
+        signalTypes: ['app_review'],
+        requiresApiKey: false,
+        simulatedFallback: false,
+        enabledByDefault: true
+    };
+    private config: Required<Omit<ReviewConnectorConfig, 'fetch'>>;
+    private fetchImpl: (url: string, init?: any) => Promise<any>;
+
+    constructor(config: ReviewConnectorConfig = {}) {
+        this.config = {
+            appStore: (config.appStore || []).filter(listing => listing && /^\d+$/.test(String(listing.appId))),
+            vscodeMarketplace: (config.vscodeMarketplace || []).filter(id => EXTENSION_ID.test(id)),
+            csvFiles: config.csvFiles || [],
+            importDirectory: reviewImportDirectory(config.importDirectory),
+            maxReviewsPerSource: config.maxReviewsPerSource || 50
+        };
+        this.fetchImpl = config.fetch || nodeFetch;
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { signal } = options;
+        const sources = this.sources();
+        log('   ⭐ Gathering app and marketplace reviews...');
+
+        if (sources.length === 0) {
+            log('   ⚠️  No review sources configured, skipping');
+            return { status: 'success', signals: [], source: 'Reviews (no sources configured)' };
+        }
+
+        // One failing listing does not stop the others
+        const results = await Promise.all(sources.map(async source => {
+            try {
+                const reviews = await source.load(options);
+                return { source, reviews: reviews.slice(0, this.config.maxReviewsPerSource), error: null };
+            } catch (error) {
+                if (isAbortError(error, signal)) {
+                    throw error;
+                }
+                log(`   ⚠️  Reviews failed for ${source.label}: ${(error as Error).message}`);
+                return { source, reviews: [], error: `${source.label}: ${(error as Error).message}` };
+            }
+        }));
+
+        const failed = results.filter(result => result.error);
+        if (failed.length === results.length) {
+            return { status: 'failed', signals: [], source: 'Reviews', error: failed.map(result => result.error).join('; ') };
+        }
+
+        const signals = results.flatMap(({ source, reviews }) => reviews.map(review => ({
+            type: 'app_review',
+            title: review.title || plainText(review.text, 80),
+            content: plainText(review.text, 800),
+            source: source.label,
+            url: review.url,
+            publishedAt: review.date,
+            relevanceScore: Math.max(scoreRelevance(`${review.title || ''} ${review.text}`, topic, productArea), REVIEW_BASE_RELEVANCE),
+            metadata: {
+                rating: review.rating,
+                version: review.version,
+                author: review.author,
+                reviewSource: source.kind
+            }
+        })));
+
+        const succeeded = results.length - failed.length;
+        return {
+            status: 'success',
+            signals,
+            source: `${succeeded} review source${succeeded === 1 ? '' : 's'}${failed.length > 0 ? ` (${failed.length} failed)` : ''}`
+        };
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        const count = this.sources().length;
+        return count > 0
+            ? { status: 'healthy', message: `${count} review source${count === 1 ? '' : 's'} configured` }
+            : { status: 'unavailable', message: 'No app store listings, marketplace extensions or review exports configured' };
+    }
+
+    private sources(): ReviewSource[] {
+        return [
+            ...this.config.appStore.map(listing => ({
+                kind: 'app-store' as ReviewSourceKind,
+                label: `App Store: ${listing.name || listing.appId}`,
+                load: (options: ConnectorFetchOptions) => this.loadAppStore(listing, options)
+            })),
+            ...this.config.vscodeMarketplace.map(extensionId => ({
+                kind: 'vscode-marketplace' as ReviewSourceKind,
+                label: `VS Code Marketplace: ${extensionId}`,
+                load: (options: ConnectorFetchOptions) => this.loadMarketplace(extensionId, options)
+            })),
+            ...this.config.csvFiles.map(filePath => ({
+                kind: 'csv' as ReviewSourceKind,
+                label: path.basename(filePath),
+                load: () => this.loadCsv(filePath)
+            }))
+        ];
+    }
+
+    /**
+     * Most recent reviews from an App Store customer review feed
+     */
+    private async loadAppStore(listing: AppStoreListing, options: ConnectorFetchOptions): Promise<Review[]> {
+        const country = (listing.country || 'us').toLowerCase();
+        const data = await this.getJson(`${APP_STORE_URL}/${country}/rss/customerreviews/page=1/id=${listing.appId}/sortby=mostrecent/json`, options);
+        const entries = data.feed?.entry ? [].concat(data.feed.entry) : [];
+
+        // The feed's first entry can describe the app itself rather than a review
+        return entries.filter(entry => entry['im:rating']).map(entry => ({
+            rating: Number(entry['im:rating'].label),
+            text: entry.content?.label || '',
+            title: entry.title?.label || null,
+            version: entry['im:version']?.label || null,
+            date: entry.updated?.label || null,
+            author: entry.author?.name?.label || null,
+            url: reviewUrl(`https://apps.apple.com/${country}/app/id${listing.appId}?see-all=reviews`, entry.id?.label, entry.author?.name?.label, entry.updated?.label)
+        }));
+    }
+
+    /**
+     * Most recent reviews of a VS Code Marketplace extension
+     */
+    private async loadMarketplace(extensionId: string, options: ConnectorFetchOptions): Promise<Review[]> {
+        const [publisher, extension] = extensionId.split('.');
+        const data = await this.getJson(`${MARKETPLACE_URL}/publishers/${publisher}/extensions/${extension}/reviews?count=${this.config.maxReviewsPerSource}&filterOptions=1`, {
+            ...options,
+            accept: 'application/json;api-version=7.1-preview.1'
+        });
+
+        return (data.reviews || []).filter(review => !review.isDeleted).map(review => ({
+            rating: Number(review.rating),
+            text: review.text || '',
+            title: review.title || null,
+            version: review.productVersion || null,
+            date: review.updatedDate || null,
+            author: review.userDisplayName || null,
+            url: reviewUrl(`https://marketplace.visualstudio.com/items?itemName=${extensionId}&ssr=false`, review.id, review.userDisplayName, review.updatedDate)
+        }));
+    }
+
+    /**
+     * Reviews from an exported CSV file, newest first
+     */
+    private async loadCsv(filePath: string): Promise<Review[]> {
+        const resolvedPath = resolveReviewCsv(filePath, this.config.importDirectory);
+        if (!resolvedPath) {
+            throw new Error(`not a .csv file inside the review import directory (${this.config.importDirectory})`);
+        }
+
+        const rows = parseCsv(await fs.readFile(resolvedPath, 'utf-8'));
+        if (rows.length < 2) {
+            throw new Error('no reviews (expected a header row and at least one review)');
+        }
+
+        const header = rows[0].map(name => name.trim().toLowerCase());
+        const column = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([field, names]) => [
+            field,
+            header.findIndex(name => names.includes(name))
+        ])) as { [field in keyof typeof CSV_COLUMNS]: number };
+        if (column.rating < 0 || column.text < 0) {
+            throw new Error('missing a rating or review text column');
+        }
+
+        const value = (row: string[], field: keyof typeof CSV_COLUMNS) => (column[field] >= 0 && row[column[field]]?.trim()) || null;
+        return rows.slice(1)
+            .map(row => {
+                const date = value(row, 'date');
+                return {
+                    rating: parseFloat(value(row, 'rating')),
+                    text: value(row, 'text') || '',
+                    title: value(row, 'title'),
+                    version: value(row, 'version'),
+                    date: date && !isNaN(new Date(date).getTime()) ? new Date(date).toISOString() : null,
+                    author: value(row, 'author'),
+                    url: value(row, 'url')
+                };
+            })
+            .filter(review => !isNaN(review.rating) && (review.text || review.title))
+            .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+    }
+
+    private async getJson(url: string, options: ConnectorFetchOptions & { accept?: string }): Promise<any> {
+        const response = await this.fetchImpl(url, {
+            headers: {
+                'Accept': options.accept || 'application/json',
+                'User-Agent': 'Rule-of-Thirds-Agent/1.0'
+            },
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+}
+
+/**
+ * Listing URL with a fragment naming one review (by id, else author and date),
+ * so reviews of the same listing keep distinct identities in diffs and evidence
+ */
+function reviewUrl(listingUrl: string, id: any, author: string | null, date: string | null): string {
+    const review = id !== undefined && id !== null && id !== '' ? String(id) : `${author || 'anonymous'}-${date || 'undated'}`;
+    return `${listingUrl}#review-${encodeURIComponent(review)}`;
+}
+
+/**
+ * Rows of a CSV document, with quoted fields that may hold commas, quotes ("") and newlines
+ */
+export function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function reviewImportDirectory(directory?: string): string {
+    return directory || process.env.REVIEW_IMPORT_DIR || DEFAULT_IMPORT_DIRECTORY;
+}
+
+/**
+ * Absolute path of a review CSV export, or null when it is not a .csv file or
+ * would resolve outside importDirectory (relative paths resolve from the working directory)
+ */
+export function resolveReviewCsv(filePath: string, importDirectory?: string): string | null {
+    if (typeof filePath !== 'string' || path.extname(filePath).toLowerCase() !== '.csv') {
+        return null;
+    }
+
+    const root = path.resolve(reviewImportDirectory(importDirectory));
+    const resolvedPath = path.resolve(filePath);
+    const relativePath = path.relative(root, resolvedPath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return null;
+    }
+    return resolvedPath;
+}
+
+/**
+ * Configuration errors for per-request review sources, for validateConfig
+ */
+export function validateReviewSources(config: any): string[] {
+    if (config === undefined || config === null) {
+        return [];
+    }
+    if (typeof config !== 'object' || Array.isArray(config)) {
+        return ['reviewSources must be an object'];
+    }
+
+    const errors = [];
+    if (config.appStore !== undefined && !(Array.isArray(config.appStore) && config.appStore.every(listing => /^\d+$/.test(String(listing?.appId))))) {
+        errors.push('reviewSources.appStore must be a list of { appId, country, name } with numeric app ids');
+    }
+    if (config.vscodeMarketplace !== undefined && !(Array.isArray(config.vscodeMarketplace) && config.vscodeMarketplace.every(id => EXTENSION_ID.test(id)))) {
+        errors.push('reviewSources.vscodeMarketplace must be a list of publisher.extension ids');
+    }
+    if (config.csvFiles !== undefined && !(Array.isArray(config.csvFiles) && config.csvFiles.every(file => resolveReviewCsv(file)))) {
+        errors.push(`reviewSources.csvFiles must be a list of .csv files inside the review import directory (${reviewImportDirectory()})`);
+    }
+    return errors;
+}
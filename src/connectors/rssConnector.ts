@@ -0,0 +1,244 @@
+/**
+ * RSS Connector - Articles from industry RSS feeds that mention the topic
+ *
+ * Feeds come from the feed library (see feedLibrary.ts): each fetch is
+ * recorded in the feed's health history and broken feeds are skipped. Feeds
+ * given with a request are fetched as they are, without health tracking.
+ */
+
+import fetch from 'node-fetch';
+import Parser from 'rss-parser';
+import { isAbortError } from '../cancellation.js';
+import { DEFAULT_FEEDS, FeedEntry, FeedLibrary } from '../feedLibrary.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+interface FeedTarget {
+    url: string;
+    title: string | null;
+    // The library feed; null for ad hoc feeds
+    entry: FeedEntry | null;
+}
+
+export interface RssConnectorConfig {
+    // Ad hoc feed URLs for a request; these bypass the library and its health tracking
+    feeds?: string[];
+    // Managed feeds with health history (the default feeds when neither is given)
+    library?: FeedLibrary;
+    // Only library feeds with any of these tags
+    tags?: string[];
+}
+
+export class RssConnector implements ExternalSourceConnector {
+    readonly id = 'rss';
+    readonly name = 'RSS Feeds';
+    readonly capabilities = {
+        signalTypes: ['rss_article'],
+        requiresApiKey: false,
+        simulatedFallback: false,
+        enabledByDefault: true
+    };
+    private feeds: string[] | null;
+    private library: FeedLibrary | null;
+    private tags: string[];
+    private parser: any;
+
+    constructor(config: RssConnectorConfig = {}) {
+        this.library = config.library || null;
+        this.feeds = config.feeds?.length ? config.feeds : this.library ? null : DEFAULT_FEEDS.map(feed => feed.url);
+        this.tags = config.tags || [];
+        this.parser = new Parser({
+            customFields: {
+                item: ['description', 'content:encoded', 'summary']
+            }
+        });
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { signal } = options;
+        log('   📡 Gathering RSS signals...');
+
+        try {
+            const { targets, skipped } = await this.selectFeeds();
+            if (targets.length === 0) {
+                log('   ⚠️  No RSS feeds to fetch, skipping');
+                return {
+                    status: 'success',
+                    signals: [],
+                    source: skipped.length > 0 ? `RSS feeds (${skipped.length} broken feeds skipped)` : 'RSS feeds (none configured)',
+                    details: { feeds: skipped.map(feed => describeSkipped(feed)) }
+                };
+            }
+
+            const feedResults = await Promise.all(targets.map(async target => {
+                const start = Date.now();
+                try {
+                    const feed = await this.fetchFeed(target.url, signal);
+                    return {
+                        target,
+                        ok: true,
+                        feedTitle: feed.title || target.title || target.url,
+                        itemCount: feed.items.length,
+                        items: feed.items.slice(0, 10), // Limit per feed
+                        latencyMs: Date.now() - start
+                    };
+                } catch (error) {
+                    if (isAbortError(error, signal)) {
+                        throw error;
+                    }
+                    log(`   ⚠️  RSS feed failed: ${target.title || target.url} - ${error.message}`);
+                    return { target, ok: false, error: error.message, items: [], latencyMs: Date.now() - start };
+                }
+            }));
+
+            // Health history only for library feeds; a failed write never fails the run
+            if (this.library) {
+                await this.library.recordChecks(feedResults
+                    .filter(result => result.target.entry)
+                    .map(result => ({
+                        id: result.target.entry.id,
+                        ok: result.ok,
+                        items: result.itemCount,
+                        latencyMs: result.latencyMs,
+                        error: result.error
+                    }))
+                ).catch(error => log(`   ⚠️  Failed to record RSS feed health: ${error.message}`));
+            }
+
+            const validFeeds = feedResults.filter(result => result.ok);
+
+            const signals = validFeeds.flatMap(feed =>
+                feed.items
+                    .filter(item => matchesTopic(item, topic, productArea))
+                    .map(item => ({
+                        type: 'rss_article',
+                        title: item.title,
+                        content: item.contentSnippet || item.description || item.summary || '',
+                        source: feed.feedTitle,
+                        url: item.link,
+                        publishedAt: item.pubDate || item.isoDate,
+                        relevanceScore: scoreRelevance(
+                            item.title + ' ' + (item.contentSnippet || item.description || ''),
+                            topic,
+                            productArea
+                        ),
+                        metadata: {
+                            feedUrl: feed.target.url,
+                            feedId: feed.target.entry?.id || null,
+                            categories: item.categories || []
+                        }
+                    }))
+            );
+
+            const details = {
+                feeds: [
+                    ...feedResults.map(result => ({
+                        id: result.target.entry?.id || null,
+                        url: result.target.url,
+                        title: result.feedTitle || result.target.title,
+                        status: result.ok ? 'ok' : 'failed',
+                        items: result.itemCount || 0,
+                        matched: result.ok ? result.items.filter(item => matchesTopic(item, topic, productArea)).length : 0,
+                        latencyMs: result.latencyMs,
+                        ...(result.error ? { error: result.error } : {}),
+                        // Health after this check, so failing and broken feeds are flagged
+                        ...(result.target.entry ? { health: result.target.entry.health.status } : {})
+                    })),
+                    ...skipped.map(feed => describeSkipped(feed))
+                ]
+            };
+
+            const source = `${validFeeds.length} of ${targets.length} RSS feeds${skipped.length > 0 ? `, ${skipped.length} broken skipped` : ''}`;
+            if (validFeeds.length === 0) {
+                return { status: 'failed', signals: [], source, error: `All ${targets.length} RSS feeds failed`, details };
+            }
+            return { status: 'success', signals, source, details };
+
+        } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            log(`   ❌ RSS gathering failed: ${error.message}`);
+            return { status: 'failed', signals: [], source: 'RSS feeds', error: error.message };
+        }
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        if (this.feeds) {
+            return this.feeds.length > 0
+                ? { status: 'healthy', message: `${this.feeds.length} feeds configured` }
+                : { status: 'unavailable', message: 'No feeds configured' };
+        }
+
+        const feeds = (await this.library.list({ tags: this.tags })).filter(feed => feed.enabled);
+        if (feeds.length === 0) {
+            return { status: 'unavailable', message: this.tags.length > 0 ? `No enabled feeds tagged ${this.tags.join(', ')}` : 'No enabled feeds in the library' };
+        }
+
+        const count = (status: string) => feeds.filter(feed => feed.health.status === status).length;
+        const unhealthy = count('failing') + count('broken');
+        const message = `${feeds.length} feeds in the library (${count('healthy')} healthy, ${count('failing')} failing, ${count('broken')} broken)`;
+        return { status: unhealthy > 0 ? 'degraded' : 'healthy', message };
+    }
+
+    /**
+     * Ad hoc feeds as given, otherwise the library feeds due for this run
+     */
+    private async selectFeeds(): Promise<{ targets: FeedTarget[]; skipped: FeedEntry[] }> {
+        if (this.feeds) {
+            return { targets: this.feeds.map(url => ({ url, title: null, entry: null })), skipped: [] };
+        }
+
+        const { feeds, skipped } = await this.library.feedsForRun({ tags: this.tags });
+        skipped.forEach(feed => log(`   ⏭️  Skipping broken RSS feed: ${feed.title} (${feed.health.lastError})`));
+        return {
+            targets: feeds.map(feed => ({ url: feed.url, title: feed.title, entry: feed })),
+            skipped
+        };
+    }
+
+    /**
+     * Fetch and parse a single RSS feed, honouring the abort signal
+     */
+    async fetchFeed(feedUrl: string, signal?: AbortSignal) {
+        const response = await fetch(feedUrl, {
+            headers: {
+                'User-Agent': 'Rule-of-Thirds-Agent/1.0',
+                'Accept': 'application/rss+xml, application/xml, text/xml'
+            },
+            signal
+        });
+
+        if (!response.ok) {
+            throw new Error(`Status code ${response.status}`);
+        }
+
+        return this.parser.parseString(await response.text());
+    }
+}
+
+function matchesTopic(item: any, topic: string, productArea: string | null): boolean {
+    const content = (item.title + ' ' + (item.contentSnippet || item.description || '')).toLowerCase();
+    return content.includes(topic.toLowerCase()) ||
+           (!!productArea && content.includes(productArea.toLowerCase()));
+}
+
+function describeSkipped(feed: FeedEntry) {
+    return {
+        id: feed.id,
+        url: feed.url,
+        title: feed.title,
+        status: 'skipped',
+        items: 0,
+        matched: 0,
+        latencyMs: 0,
+        error: feed.health.lastError,
+        health: feed.health.status
+    };
+}
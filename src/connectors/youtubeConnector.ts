@@ -0,0 +1,126 @@
+/**
+ * YouTube Connector - Video content from the YouTube Data API
+ *
+ * Falls back to simulated videos without an API key.
+ */
+
+import fetch from 'node-fetch';
+import { isAbortError } from '../cancellation.js';
+import { withQuota } from '../executionPlanner.js';
+import { ConnectorFetchOptions, ConnectorHealth, ConnectorResult, ExternalSourceConnector, scoreRelevance } from './connectorRegistry.js';
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+export class YouTubeConnector implements ExternalSourceConnector {
+    readonly id = 'youtube';
+    readonly name = 'YouTube';
+    readonly capabilities = {
+        signalTypes: ['youtube_video'],
+        requiresApiKey: true,
+        simulatedFallback: true,
+        enabledByDefault: true
+    };
+    private apiKey?: string;
+
+    constructor(config: { apiKey?: string } = {}) {
+        this.apiKey = config.apiKey || process.env.YOUTUBE_API_KEY;
+    }
+
+    async fetch(topic: string, productArea: string | null, options: ConnectorFetchOptions): Promise<ConnectorResult> {
+        const { signal, quota } = options;
+        log('   📺 Gathering YouTube signals...');
+
+        if (!this.apiKey) {
+            log('   ⚠️  No YouTube API key, using simulated data');
+            return this.generateSimulatedData(topic, productArea);
+        }
+
+        try {
+            const query = productArea ? `${topic} ${productArea}` : topic;
+            const url = `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(query)}&type=video&order=relevance&maxResults=${Math.min(options.maxResults / 2, 25)}&key=${this.apiKey}`;
+
+            const response = await withQuota(quota, 'youtube', () => fetch(url, { signal }), signal);
+
+            if (!response.ok) {
+                throw new Error(`YouTube API error: ${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json() as any;
+
+            if (data.error) {
+                throw new Error(`YouTube API error: ${data.error.message}`);
+            }
+
+            const signals = data.items.map((item: any) => ({
+                type: 'youtube_video',
+                title: item.snippet.title,
+                content: item.snippet.description,
+                channel: item.snippet.channelTitle,
+                videoId: item.id.videoId,
+                url: `https://www.youtube.com/watch?v=${item.id.videoId}`,
+                publishedAt: item.snippet.publishedAt,
+                relevanceScore: scoreRelevance(
+                    item.snippet.title + ' ' + item.snippet.description,
+                    topic,
+                    productArea
+                ),
+                metadata: {
+                    thumbnails: item.snippet.thumbnails,
+                    channelId: item.snippet.channelId
+                }
+            }));
+
+            return { status: 'success', signals, source: 'YouTube API' };
+
+        } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            log(`   ❌ YouTube API failed: ${(error as Error).message}`);
+            return { status: 'failed', signals: [], source: 'YouTube API', error: (error as Error).message };
+        }
+    }
+
+    async healthCheck(): Promise<ConnectorHealth> {
+        return this.apiKey
+            ? { status: 'healthy', message: 'API key configured' }
+            : { status: 'degraded', message: 'No API key - simulated videos' };
+    }
+
+    /**
+     * Simulated videos when the API is not available
+     */
+    generateSimulatedData(topic: string, productArea: string | null): ConnectorResult {
+        const simulatedVideos = [
+            {
+                type: 'youtube_video',
+                title: `${topic} Explained: Complete Guide for ${productArea || 'Professionals'}`,
+                content: `Comprehensive tutorial covering ${topic} implementation, best practices, and real-world case studies. Perfect for teams looking to adopt ${topic} solutions.`,
+                channel: 'Education Hub',
+                videoId: 'sim123456789',
+                url: 'https://www.youtube.com/watch?v=sim123456789',
+                publishedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+                relevanceScore: 0.88,
+                metadata: { simulated: true }
+            },
+            {
+                type: 'youtube_video',
+                title: `Industry Leaders Discuss ${topic} Future Trends`,
+                content: `Panel discussion featuring CTOs from leading companies sharing insights on ${topic} evolution and market opportunities.`,
+                channel: 'Industry Insights',
+                videoId: 'sim987654321',
+                url: 'https://www.youtube.com/watch?v=sim987654321',
+                publishedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+                relevanceScore: 0.81,
+                metadata: { simulated: true }
+            }
+        ];
+
+        return { status: 'success', signals: simulatedVideos, source: 'Simulated YouTube Data' };
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * Cron - Minimal five-field cron expression parser for watchlist schedules
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`),
+ * month and weekday names (`JAN`, `MON`) and the @hourly, @daily, @weekly
+ * and @monthly shorthands. Times are evaluated in the server's local timezone.
+ */
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Standard cron matches either day field when both are restricted
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+    constructor(expression: string, reason: string) {
+        super(`Invalid cron expression "${expression}": ${reason}`);
+        this.name = 'CronParseError';
+    }
+}
+
+const SHORTHANDS: { [name: string]: string } = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *'
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Search horizon for the next matching minute (covers leap-day schedules)
+const MAX_LOOKAHEAD_DAYS = 366 * 4;
+
+/**
+ * Parse a cron expression, throwing CronParseError when it is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+    const trimmed = (expression || '').trim();
+    const fields = (SHORTHANDS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+
+    if (fields.length !== 5) {
+        throw new CronParseError(expression, 'expected 5 fields (minute hour day-of-month month day-of-week)');
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    const daysOfWeek = parseField(expression, dayOfWeek, 0, 7, DAY_NAMES, 0);
+
+    // 7 is an alias for Sunday
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+
+    return {
+        expression: trimmed,
+        minutes: parseField(expression, minute, 0, 59),
+        hours: parseField(expression, hour, 0, 23),
+        daysOfMonth: parseField(expression, dayOfMonth, 1, 31),
+        months: parseField(expression, month, 1, 12, MONTH_NAMES, 1),
+        daysOfWeek,
+        dayOfMonthRestricted: dayOfMonth !== '*',
+        dayOfWeekRestricted: dayOfWeek !== '*'
+    };
+}
+
+/**
+ * Whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+    try {
+        parseCron(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Next time strictly after `from` that matches the schedule, or null if none
+ */
+export function nextCronRun(schedule: CronSchedule | string, from: Date = new Date()): Date | null {
+    const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+    const candidate = new Date(from.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    const limit = from.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+    while (candidate.getTime() <= limit) {
+        if (!cron.months.has(candidate.getMonth() + 1)) {
+            candidate.setMonth(candidate.getMonth() + 1, 1);
+            candidate.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(cron, candidate)) {
+            candidate.setDate(candidate.getDate() + 1);
+            candidate.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!cron.hours.has(candidate.getHours())) {
+            candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!cron.minutes.has(candidate.getMinutes())) {
+            candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return candidate;
+    }
+
+    return null;
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+    const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+    if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+function parseField(expression: string, field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+    const values = new Set<number>();
+
+    const parseValue = (value: string): number => {
+        const nameIndex = names.indexOf(value.toUpperCase());
+        const parsed = nameIndex >= 0 ? nameIndex + nameOffset : Number(value);
+
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            throw new CronParseError(expression, `"${value}" is out of range ${min}-${max}`);
+        }
+        return parsed;
+    };
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+
+        if (!Number.isInteger(step) || step < 1) {
+            throw new CronParseError(expression, `invalid step "${stepText}"`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            start = parseValue(from);
+            end = parseValue(to);
+        } else {
+            start = parseValue(range);
+            end = stepText === undefined ? start : max;
+        }
+
+        if (start > end) {
+            throw new CronParseError(expression, `range "${range}" is reversed`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
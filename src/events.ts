@@ -0,0 +1,50 @@
+/**
+ * Orchestration Events - Progress events emitted while an analysis runs
+ *
+ * Events flow from the agents' per-source collectors and the orchestrator
+ * to whoever started the run (the job manager streams them over SSE).
+ */
+
+export type AgentName = 'external' | 'internal' | 'product';
+
+export type OrchestrationEventType =
+    | 'run_started'
+    | 'agent_started'
+    | 'agent_retry'
+    | 'source_finished'
+    | 'agent_finished'
+    | 'agent_failed'
+    | 'agent_skipped'
+    | 'synthesis_started'
+    | 'synthesis_stage_finished'
+    | 'synthesis_finished'
+    | 'done'
+    | 'cancelled'
+    | 'error';
+
+export interface OrchestrationEvent {
+    type: OrchestrationEventType | string;
+    agent?: AgentName;
+    source?: string;
+    message: string;
+    data?: any;
+    timestamp: string;
+}
+
+export type OrchestrationEventListener = (event: OrchestrationEvent) => void;
+
+/**
+ * Deliver an event to a listener, if one was provided.
+ * Listener errors are swallowed so progress reporting can never break a run.
+ */
+export function emitEvent(listener: OrchestrationEventListener | undefined, event: Omit<OrchestrationEvent, 'timestamp'>): void {
+    if (!listener) {
+        return;
+    }
+
+    try {
+        listener({ ...event, timestamp: new Date().toISOString() });
+    } catch (error) {
+        console.error('⚠️  Event listener failed:', (error as Error).message);
+    }
+}
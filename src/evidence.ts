@@ -0,0 +1,194 @@
+/**
+ * Evidence - Stable ids for signals, citation checks and evidence resolution
+ *
+ * Every external signal, internal finding and metric trend gets an id derived
+ * from its identity across runs (E-, I- or M- plus six hex characters), so the
+ * same article or interview line keeps its id in every run. The LLM cites these
+ * ids inline, e.g. "Adoption is slowing [M-xxxxxx]"; citations are checked
+ * against the index and resolved to a URL, file location or metric.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import { findingKey, signalKey, trendKey } from './runDiff.js';
+
+export type EvidenceKind = 'external' | 'internal' | 'metric';
+
+export interface EvidenceItem {
+    id: string;
+    kind: EvidenceKind;
+    title: string;
+    excerpt: string;
+    source: string;
+    url: string | null;
+    filePath: string | null;
+    // 1-based line in filePath, once located
+    line: number | null;
+    // Publication date for external signals, cue start for transcripts
+    timestamp: string | null;
+    metric: string | null;
+}
+
+export interface CitationCheck {
+    cited: string[];
+    invalid: string[];
+}
+
+const ID_PREFIXES: { [kind in EvidenceKind]: string } = {
+    external: 'E',
+    internal: 'I',
+    metric: 'M'
+};
+
+export const CITATION_PATTERN = /\[([EIM]-[0-9a-f]{6,8})\]/g;
+
+// Transcript cue lines, e.g. "00:01:23.000 --> 00:01:27.500"
+const VTT_CUE_PATTERN = /^((?:\d{2}:)?\d{2}:\d{2}[.,]\d{3})\s+-->/;
+
+/**
+ * Give every ranked signal, finding and trend an `evidenceId` (in place) and
+ * return the index of evidence by id
+ */
+export function assignEvidenceIds(signals: any): Map<string, EvidenceItem> {
+    const index = new Map<string, EvidenceItem>();
+
+    const add = (kind: EvidenceKind, key: string, item: any, fields: Partial<EvidenceItem>) => {
+        // The first item with a key keeps its stable id; a colliding hash prefix
+        // moves to eight characters, and repeats of a key hash with a counter
+        let id: string;
+        for (let attempt = 0; ; attempt++) {
+            const hash = createHash('sha1').update(attempt === 0 ? key : `${key}#${attempt}`).digest('hex');
+            id = [6, 8].map(length => `${ID_PREFIXES[kind]}-${hash.slice(0, length)}`).find(candidate => !index.has(candidate));
+            if (id) {
+                break;
+            }
+        }
+
+        item.evidenceId = id;
+        index.set(id, {
+            id,
+            kind,
+            title: '',
+            excerpt: '',
+            source: '',
+            url: null,
+            filePath: null,
+            line: null,
+            timestamp: null,
+            metric: null,
+            ...fields
+        });
+    };
+
+    (signals.external?.rankedSignals || []).forEach(signal => add('external', signalKey(signal), signal, {
+        title: signal.title || 'Untitled signal',
+        excerpt: truncate(signal.content),
+        source: signal.source || signal.channel || signal.type || 'external',
+        url: signal.url || null,
+        timestamp: signal.publishedAt || null
+    }));
+
+    (signals.internal?.rankedFindings || []).forEach(finding => add('internal', findingKey(finding), finding, {
+        title: truncate(finding.content, 80),
+        excerpt: truncate(finding.content),
+        source: finding.source || 'internal',
+        filePath: finding.filePath || null
+    }));
+
+    (signals.product?.insights?.trends || []).forEach(trend => add('metric', trendKey(trend), trend, {
+        title: `${trend.metric}: ${trend.direction} (${trend.percentChange}% change)`,
+        excerpt: `${trend.metric} is ${trend.direction} by ${trend.percentChange}% across ${trend.dataPoints ?? '?'} data points`,
+        source: trend.sourceType || 'metrics',
+        metric: trend.metric
+    }));
+
+    return index;
+}
+
+/**
+ * Instructions appended to synthesis prompts so the model cites evidence ids
+ */
+export function citationInstructions(): string {
+    return `## Citations
+Each data point above is tagged with an evidence id in square brackets: [E-xxxxxx] for external signals, [I-xxxxxx] for internal research and [M-xxxxxx] for product metrics. After every claim, cite the ids that support it in the same form, e.g. "Enterprise teams are piloting the tool [E-xxxxxx][I-xxxxxx]". Only cite ids that appear in this prompt; never invent ids.`;
+}
+
+/**
+ * Citation ids in a piece of text, in order of first appearance
+ */
+export function extractCitations(text: string): string[] {
+    const ids = [...(text || '').matchAll(CITATION_PATTERN)].map(match => match[1]);
+    return [...new Set(ids)];
+}
+
+/**
+ * Split the citations in a text into ids found in the index and unknown ids
+ */
+export function checkCitations(text: string, index: Map<string, EvidenceItem>): CitationCheck {
+    const ids = extractCitations(text);
+    return {
+        cited: ids.filter(id => index.has(id)),
+        invalid: ids.filter(id => !index.has(id))
+    };
+}
+
+/**
+ * Add the line (and transcript cue time) of an internal finding in its source
+ * file. Best effort: evidence that cannot be located is returned unchanged.
+ */
+export async function locateEvidence(item: EvidenceItem): Promise<EvidenceItem> {
+    if (item.kind !== 'internal' || !item.filePath) {
+        return item;
+    }
+
+    let content: string;
+    try {
+        content = await fs.readFile(item.filePath, 'utf-8');
+    } catch {
+        return item;
+    }
+
+    const lines = content.split('\n');
+    const lineIndex = findLine(lines, item.excerpt.replace(/\.\.\.$/, ''));
+    if (lineIndex < 0) {
+        return item;
+    }
+
+    let timestamp = item.timestamp;
+    if (extname(item.filePath).toLowerCase() === '.vtt') {
+        for (let i = lineIndex; i >= 0; i--) {
+            const cue = lines[i].match(VTT_CUE_PATTERN);
+            if (cue) {
+                timestamp = cue[1];
+                break;
+            }
+        }
+    }
+
+    return { ...item, line: lineIndex + 1, timestamp };
+}
+
+/**
+ * Find the line where a finding starts. Findings are sentences that may span
+ * lines, so match on their opening words, using fewer words if needed.
+ */
+function findLine(lines: string[], text: string): number {
+    const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+    const normalizedLines = lines.map(normalize);
+    const words = normalize(text).split(' ');
+
+    for (let count = Math.min(words.length, 8); count >= 3; count--) {
+        const probe = words.slice(0, count).join(' ');
+        const index = normalizedLines.findIndex(line => line.includes(probe));
+        if (index >= 0) {
+            return index;
+        }
+    }
+    return -1;
+}
+
+function truncate(text: any, length = 200): string {
+    const value = typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+    return value.length > length ? `${value.substring(0, length)}...` : value;
+}
@@ -0,0 +1,308 @@
+/**
+ * Execution Planner - Decides how the three agents are scheduled for a run
+ *
+ * Modes:
+ * - sequential: one agent at a time (lowest quota pressure, the default)
+ * - parallel: all agents at once
+ * - bounded: up to maxConcurrentAgents at once, with per-provider quotas
+ *   (concurrent requests and request budget per run) for NewsAPI, YouTube,
+ *   Hacker News, Reddit, GitHub, Amplitude and OpenAI, plus a separate LLM
+ *   budget for token-budget summarization
+ */
+
+import { abortable } from './cancellation.js';
+
+export type ExecutionMode = 'parallel' | 'sequential' | 'bounded';
+
+export type Provider = 'newsapi' | 'youtube' | 'hackernews' | 'reddit' | 'github' | 'amplitude' | 'openai' | 'summarization';
+
+export interface ProviderQuota {
+    maxConcurrent: number;
+    maxRequests: number;
+}
+
+export const EXECUTION_MODES: ExecutionMode[] = ['sequential', 'parallel', 'bounded'];
+
+const DEFAULT_PROVIDER_QUOTAS: { [provider in Provider]: ProviderQuota } = {
+    newsapi: { maxConcurrent: 1, maxRequests: 5 },
+    youtube: { maxConcurrent: 1, maxRequests: 5 },
+    // A search plus top comments for the most engaged stories
+    hackernews: { maxConcurrent: 2, maxRequests: 10 },
+    reddit: { maxConcurrent: 1, maxRequests: 10 },
+    // An issue search and a releases request per repository
+    github: { maxConcurrent: 2, maxRequests: 15 },
+    amplitude: { maxConcurrent: 1, maxRequests: 5 },
+    openai: { maxConcurrent: 1, maxRequests: 10 },
+    // LLM calls that summarize oversized sources, kept apart so the synthesis stages keep their openai share
+    summarization: { maxConcurrent: 1, maxRequests: 12 }
+};
+
+export const PROVIDERS = Object.keys(DEFAULT_PROVIDER_QUOTAS) as Provider[];
+
+/**
+ * Quotas with each provider's overrides applied over its own entry, so
+ * { newsapi: { maxRequests: 2 } } keeps the default maxConcurrent
+ */
+function mergeProviderQuotas(base: { [provider: string]: ProviderQuota }, overrides: any = {}): { [provider: string]: ProviderQuota } {
+    const merged = { ...base };
+    Object.entries(overrides || {}).forEach(([provider, quota]) => {
+        merged[provider] = { ...base[provider], ...(quota as Partial<ProviderQuota>) };
+    });
+    return merged;
+}
+
+/**
+ * Problems with a providerQuotas config, for validateConfig
+ */
+export function validateProviderQuotas(providerQuotas: any): string[] {
+    if (providerQuotas === undefined) {
+        return [];
+    }
+    if (!providerQuotas || typeof providerQuotas !== 'object' || Array.isArray(providerQuotas)) {
+        return ['execution.providerQuotas must be an object'];
+    }
+
+    const errors = [];
+    Object.entries(providerQuotas).forEach(([provider, quota]: [string, any]) => {
+        if (!PROVIDERS.includes(provider as Provider)) {
+            errors.push(`execution.providerQuotas has unknown provider "${provider}" (expected ${PROVIDERS.join(', ')})`);
+            return;
+        }
+        if (!quota || typeof quota !== 'object') {
+            errors.push(`execution.providerQuotas.${provider} must be an object`);
+            return;
+        }
+        ['maxConcurrent', 'maxRequests'].forEach(key => {
+            if (quota[key] !== undefined && !(Number.isInteger(quota[key]) && quota[key] > 0)) {
+                errors.push(`execution.providerQuotas.${provider}.${key} must be a positive integer`);
+            }
+        });
+    });
+    return errors;
+}
+
+/**
+ * Raised when a provider's per-run request budget is exhausted
+ */
+export class QuotaExceededError extends Error {
+    constructor(provider: string, maxRequests: number) {
+        super(`${provider} quota exceeded (${maxRequests} requests per run)`);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+/**
+ * Counting semaphore used for agent and provider concurrency limits
+ */
+class Semaphore {
+    private available: number;
+    private waiters: Array<() => void> = [];
+
+    constructor(limit: number) {
+        this.available = limit;
+    }
+
+    async acquire(signal?: AbortSignal): Promise<() => void> {
+        if (this.available > 0) {
+            this.available--;
+            return () => this.release();
+        }
+
+        let grant: () => void;
+        const granted = new Promise<void>(resolve => {
+            grant = resolve;
+        });
+        this.waiters.push(grant);
+
+        try {
+            await abortable(granted, signal);
+        } catch (error) {
+            const index = this.waiters.indexOf(grant);
+            if (index >= 0) {
+                this.waiters.splice(index, 1);
+            } else {
+                this.release(); // Granted at the same moment the signal aborted
+            }
+            throw error;
+        }
+
+        return () => this.release();
+    }
+
+    private release(): void {
+        const next = this.waiters.shift();
+        if (next) {
+            next();
+        } else {
+            this.available++;
+        }
+    }
+}
+
+/**
+ * Per-run provider quota tracker handed to agents via their options
+ */
+export class ProviderQuotas {
+    private enforced: boolean;
+    private quotas: { [provider: string]: ProviderQuota };
+    private semaphores: Map<string, Semaphore>;
+    private usage: { [provider: string]: { requests: number; rejected: number; waitedMs: number } };
+
+    constructor(quotas: { [provider: string]: ProviderQuota }, enforced: boolean) {
+        this.enforced = enforced;
+        this.quotas = quotas;
+        this.semaphores = new Map();
+        this.usage = {};
+
+        Object.entries(quotas).forEach(([provider, quota]) => {
+            this.semaphores.set(provider, new Semaphore(Math.max(1, quota.maxConcurrent)));
+        });
+    }
+
+    /**
+     * Run a provider request within that provider's quota
+     */
+    async use<T>(provider: Provider, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const usage = this.usage[provider] || (this.usage[provider] = { requests: 0, rejected: 0, waitedMs: 0 });
+        const quota = this.quotas[provider];
+
+        if (!this.enforced || !quota) {
+            usage.requests++;
+            return fn();
+        }
+
+        if (usage.requests >= quota.maxRequests) {
+            usage.rejected++;
+            throw new QuotaExceededError(provider, quota.maxRequests);
+        }
+        usage.requests++;
+
+        const waitStart = Date.now();
+        const release = await this.semaphores.get(provider).acquire(signal);
+        usage.waitedMs += Date.now() - waitStart;
+
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
+    }
+
+    getUsage(): any {
+        return this.usage;
+    }
+}
+
+/**
+ * Run a provider request through a quota tracker when one was provided
+ */
+export function withQuota<T>(quota: ProviderQuotas | undefined, provider: Provider, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return quota ? quota.use(provider, fn, signal) : fn();
+}
+
+/**
+ * State for a single planned run: agent scheduling, timings and provider usage
+ */
+export class ExecutionRun {
+    readonly quota: ProviderQuotas;
+    private plan: any;
+    private runStart: number;
+    private timings: { [task: string]: any };
+
+    constructor(plan: any) {
+        this.plan = plan;
+        this.runStart = Date.now();
+        this.timings = {};
+        this.quota = new ProviderQuotas(plan.providerQuotas, plan.mode === 'bounded');
+    }
+
+    /**
+     * Run a worker for every task, honouring the plan's concurrency limit.
+     * Waits for every started task to settle before rethrowing the first error.
+     */
+    async execute(tasks: string[], worker: (task: string) => Promise<void>): Promise<void> {
+        const queue = [...tasks];
+        const errors: any[] = [];
+
+        const runNext = async () => {
+            while (queue.length > 0) {
+                const task = queue.shift();
+                const startedAt = Date.now();
+                this.timings[task] = { startOffsetMs: startedAt - this.runStart };
+
+                try {
+                    await worker(task);
+                } catch (error) {
+                    errors.push(error);
+                    queue.length = 0; // Don't start further tasks after a fatal error
+                } finally {
+                    this.timings[task].durationMs = Date.now() - startedAt;
+                    this.timings[task].endOffsetMs = Date.now() - this.runStart;
+                }
+            }
+        };
+
+        const lanes = Math.max(1, Math.min(this.plan.maxConcurrentAgents, tasks.length));
+        await Promise.all(Array.from({ length: lanes }, runNext));
+
+        if (errors.length > 0) {
+            throw errors[0];
+        }
+    }
+
+    /**
+     * Plan, timings and provider usage for the orchestration metadata
+     */
+    summary(): any {
+        return {
+            ...this.plan,
+            timings: this.timings,
+            providerUsage: this.quota.getUsage()
+        };
+    }
+}
+
+export class ExecutionPlanner {
+    private config: any;
+
+    constructor(config: any = {}) {
+        this.config = {
+            mode: config.mode || 'sequential',
+            maxConcurrentAgents: config.maxConcurrentAgents || 2,
+            providerQuotas: mergeProviderQuotas(DEFAULT_PROVIDER_QUOTAS, config.providerQuotas)
+        };
+
+        if (!EXECUTION_MODES.includes(this.config.mode)) {
+            throw new Error(`Unknown execution mode "${this.config.mode}" (expected ${EXECUTION_MODES.join(', ')})`);
+        }
+    }
+
+    /**
+     * Build the execution plan for a run over the given agents
+     */
+    plan(agents: string[], overrides: any = {}): ExecutionRun {
+        const mode: ExecutionMode = overrides.mode || this.config.mode;
+
+        if (!EXECUTION_MODES.includes(mode)) {
+            throw new Error(`Unknown execution mode "${mode}" (expected ${EXECUTION_MODES.join(', ')})`);
+        }
+
+        const maxConcurrentAgents = mode === 'sequential'
+            ? 1
+            : mode === 'parallel'
+                ? agents.length
+                : Math.max(1, overrides.maxConcurrentAgents || this.config.maxConcurrentAgents);
+
+        return new ExecutionRun({
+            mode,
+            maxConcurrentAgents,
+            order: agents,
+            providerQuotas: mergeProviderQuotas(this.config.providerQuotas, overrides.providerQuotas),
+            quotasEnforced: mode === 'bounded'
+        });
+    }
+
+    getConfig(): any {
+        return this.config;
+    }
+}
@@ -0,0 +1,564 @@
+/**
+ * Feed Library - The RSS feeds external signals are gathered from
+ *
+ * Feeds (URL, title, tags such as competitor, analyst or community) are
+ * stored in `feeds.json` under outputDir, together with each feed's recent
+ * fetch history. The history gives every feed a health status: feeds that
+ * keep failing are marked broken and skipped by runs, with an occasional
+ * retry so a feed that recovers comes back on its own. Feeds are imported
+ * from and exported to OPML, the format feed readers use.
+ */
+
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+
+export type FeedHealthStatus = 'unknown' | 'healthy' | 'failing' | 'broken';
+
+export interface FeedCheck {
+    at: string;
+    ok: boolean;
+    // Items in the feed (not only those matching the topic)
+    items: number;
+    latencyMs: number;
+    error?: string;
+}
+
+export interface FeedHealth {
+    status: FeedHealthStatus;
+    lastCheckedAt: string | null;
+    lastSuccessAt: string | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+    // Over the checks in history
+    errorRate: number | null;
+    averageItems: number | null;
+    history: FeedCheck[];
+}
+
+export interface FeedEntry {
+    id: string;
+    url: string;
+    title: string;
+    tags: string[];
+    enabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+    health: FeedHealth;
+}
+
+export interface FeedImportResult {
+    added: FeedEntry[];
+    // Feeds already in the library, or outlines without a usable URL
+    skipped: { url: string; reason: string }[];
+}
+
+/**
+ * Raised for invalid feed input (reported to clients as 400)
+ */
+export class FeedValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FeedValidationError';
+    }
+}
+
+const STORE_FILE = 'feeds.json';
+// Checks kept per feed for the error rate and average items
+const HISTORY_SIZE = 20;
+// Consecutive failures after which a feed is broken and skipped
+const BROKEN_AFTER_FAILURES = 3;
+// Broken feeds are still tried once this long after their last check
+const BROKEN_RETRY_MS = 24 * 60 * 60 * 1000;
+const MAX_TAGS = 10;
+const TAG = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+// The library starts with these feeds until feeds.json exists
+export const DEFAULT_FEEDS = [
+    { url: 'https://techcrunch.com/feed/', title: 'TechCrunch', tags: ['news'] },
+    { url: 'https://feeds.feedburner.com/venturebeat', title: 'VentureBeat', tags: ['news'] },
+    { url: 'https://blog.ycombinator.com/feed', title: 'Y Combinator Blog', tags: ['community'] },
+    { url: 'https://a16z.com/feed/', title: 'Andreessen Horowitz', tags: ['analyst'] },
+    { url: 'https://www.producthunt.com/feed', title: 'Product Hunt', tags: ['community'] }
+];
+
+// Helper function to log only when not in MCP silent mode
+function log(...args: any[]): void {
+    if (!process.env.MCP_SILENT) {
+        console.log(...args);
+    }
+}
+
+// One library per output directory so every orchestrator shares the same write queue
+const libraries = new Map<string, FeedLibrary>();
+
+export class FeedLibrary {
+    private outputDir: string;
+    private storeFile: string;
+    private feeds: Map<string, FeedEntry> | null = null;
+    private pending: Promise<any> = Promise.resolve();
+
+    constructor(outputDir: string) {
+        this.outputDir = outputDir;
+        this.storeFile = join(outputDir, STORE_FILE);
+    }
+
+    /**
+     * Get the shared feed library for an output directory
+     */
+    static forDirectory(outputDir: string): FeedLibrary {
+        const key = resolve(outputDir);
+        if (!libraries.has(key)) {
+            libraries.set(key, new FeedLibrary(outputDir));
+        }
+        return libraries.get(key);
+    }
+
+    /**
+     * Feeds in the order they were added, optionally only those with any of the tags
+     */
+    async list(options: { tags?: string[] } = {}): Promise<FeedEntry[]> {
+        const feeds = await this.enqueue(() => this.load());
+        const tags = normalizeTags(options.tags || []);
+        return [...feeds.values()]
+            .filter(feed => tags.length === 0 || feed.tags.some(tag => tags.includes(tag)))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async get(id: string): Promise<FeedEntry | null> {
+        const feeds = await this.enqueue(() => this.load());
+        return feeds.get(id) || null;
+    }
+
+    async create(input: any): Promise<FeedEntry> {
+        return this.enqueue(async () => {
+            const feeds = await this.load();
+            const fields = this.validate(input, true);
+            if (this.findByUrl(feeds, fields.url)) {
+                throw new FeedValidationError(`Feed ${fields.url} is already in the library`);
+            }
+
+            const feed = newFeed(fields);
+            feeds.set(feed.id, feed);
+            await this.save();
+
+            log(`📡 Feed "${feed.title}" added (${feed.url})`);
+            return feed;
+        });
+    }
+
+    async update(id: string, input: any): Promise<FeedEntry | null> {
+        return this.enqueue(async () => {
+            const feeds = await this.load();
+            const feed = feeds.get(id);
+            if (!feed) {
+                return null;
+            }
+
+            const fields = this.validate(input, false);
+            const existing = fields.url && this.findByUrl(feeds, fields.url);
+            if (existing && existing.id !== id) {
+                throw new FeedValidationError(`Feed ${fields.url} is already in the library`);
+            }
+
+            // A new URL is a new feed as far as health is concerned
+            if (fields.url && fields.url !== feed.url) {
+                feed.health = emptyHealth();
+            }
+            Object.assign(feed, fields, { updatedAt: new Date().toISOString() });
+            await this.save();
+            return feed;
+        });
+    }
+
+    async delete(id: string): Promise<FeedEntry | null> {
+        return this.enqueue(async () => {
+            const feeds = await this.load();
+            const feed = feeds.get(id);
+            if (!feed) {
+                return null;
+            }
+
+            feeds.delete(id);
+            await this.save();
+            return feed;
+        });
+    }
+
+    /**
+     * Feeds a run should fetch: enabled, matching the tags (any tag when none
+     * are given) and not broken - unless a broken feed is due for a retry
+     */
+    async feedsForRun(options: { tags?: string[] } = {}): Promise<{ feeds: FeedEntry[]; skipped: FeedEntry[] }> {
+        const candidates = (await this.list(options)).filter(feed => feed.enabled);
+        const now = Date.now();
+        const due = (feed: FeedEntry) => feed.health.status !== 'broken' ||
+            !feed.health.lastCheckedAt ||
+            now - new Date(feed.health.lastCheckedAt).getTime() >= BROKEN_RETRY_MS;
+
+        return {
+            feeds: candidates.filter(due),
+            skipped: candidates.filter(feed => !due(feed))
+        };
+    }
+
+    /**
+     * Add the outcome of fetching feeds to their health history
+     */
+    async recordChecks(checks: { id: string; ok: boolean; items?: number; latencyMs?: number; error?: string }[]): Promise<void> {
+        if (checks.length === 0) {
+            return;
+        }
+
+        return this.enqueue(async () => {
+            const feeds = await this.load();
+            const at = new Date().toISOString();
+
+            checks.forEach(check => {
+                // The feed may have been deleted while it was being fetched
+                const feed = feeds.get(check.id);
+                if (!feed) {
+                    return;
+                }
+
+                const { health } = feed;
+                health.history = [
+                    ...health.history,
+                    {
+                        at,
+                        ok: check.ok,
+                        items: check.ok ? check.items || 0 : 0,
+                        latencyMs: check.latencyMs || 0,
+                        ...(check.ok ? {} : { error: check.error || 'Unknown error' })
+                    }
+                ].slice(-HISTORY_SIZE);
+                health.lastCheckedAt = at;
+                if (check.ok) {
+                    health.lastSuccessAt = at;
+                    health.lastError = null;
+                    health.consecutiveFailures = 0;
+                } else {
+                    health.lastError = check.error || 'Unknown error';
+                    health.consecutiveFailures += 1;
+                }
+                Object.assign(health, summarizeHistory(health));
+
+                if (!check.ok && health.consecutiveFailures === BROKEN_AFTER_FAILURES) {
+                    log(`⚠️  Feed "${feed.title}" failed ${BROKEN_AFTER_FAILURES} times in a row and is now skipped: ${health.lastError}`);
+                }
+            });
+
+            await this.save();
+        });
+    }
+
+    /**
+     * Add the feeds of an OPML document; folder names and category attributes become tags
+     */
+    async importOpml(opml: string, options: { tags?: string[] } = {}): Promise<FeedImportResult> {
+        if (typeof opml !== 'string' || !/<opml[\s>]/i.test(opml)) {
+            throw new FeedValidationError('OPML document is required');
+        }
+        const extraTags = this.validateTags(options.tags || []);
+
+        return this.enqueue(async () => {
+            const feeds = await this.load();
+            const result: FeedImportResult = { added: [], skipped: [] };
+
+            parseOpml(opml).forEach(outline => {
+                const url = normalizeUrl(outline.url);
+                if (!url) {
+                    result.skipped.push({ url: outline.url, reason: 'Not an http(s) URL' });
+                    return;
+                }
+                if (this.findByUrl(feeds, url)) {
+                    result.skipped.push({ url, reason: 'Already in the library' });
+                    return;
+                }
+
+                const feed = newFeed({
+                    url,
+                    title: outline.title || url,
+                    tags: normalizeTags([...outline.tags, ...extraTags]).filter(tag => TAG.test(tag)).slice(0, MAX_TAGS)
+                });
+                feeds.set(feed.id, feed);
+                result.added.push(feed);
+            });
+
+            if (result.added.length > 0) {
+                await this.save();
+            }
+            log(`📡 OPML import: ${result.added.length} feeds added, ${result.skipped.length} skipped`);
+            return result;
+        });
+    }
+
+    /**
+     * The library as an OPML 2.0 document, tags in each outline's category attribute
+     */
+    async exportOpml(options: { tags?: string[] } = {}): Promise<string> {
+        const feeds = await this.list(options);
+        const outlines = feeds.map(feed => {
+            const attributes = [
+                ['type', 'rss'],
+                ['text', feed.title],
+                ['title', feed.title],
+                ['xmlUrl', feed.url],
+                ...(feed.tags.length > 0 ? [['category', feed.tags.join(',')]] : [])
+            ];
+            return `    <outline ${attributes.map(([name, value]) => `${name}="${escapeXml(value)}"`).join(' ')}/>`;
+        });
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<opml version="2.0">',
+            '  <head>',
+            '    <title>Rule of Thirds feed library</title>',
+            `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+            '  </head>',
+            '  <body>',
+            ...outlines,
+            '  </body>',
+            '</opml>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Every tag in use, for filtering
+     */
+    async tags(): Promise<string[]> {
+        const feeds = await this.list();
+        return [...new Set(feeds.flatMap(feed => feed.tags))].sort();
+    }
+
+    private findByUrl(feeds: Map<string, FeedEntry>, url: string): FeedEntry | undefined {
+        return [...feeds.values()].find(feed => feed.url === url);
+    }
+
+    /**
+     * Validate create/update input; only known fields are returned
+     */
+    private validate(input: any, creating: boolean): any {
+        const fields: any = {};
+
+        if (!input || typeof input !== 'object') {
+            throw new FeedValidationError('Feed body must be an object');
+        }
+
+        if (creating || input.url !== undefined) {
+            const url = normalizeUrl(input.url);
+            if (!url) {
+                throw new FeedValidationError('url is required and must be an http(s) URL');
+            }
+            fields.url = url;
+        }
+
+        if (input.title !== undefined) {
+            fields.title = String(input.title).trim();
+        }
+        if (creating && !fields.title) {
+            fields.title = fields.url;
+        }
+        if (input.tags !== undefined) {
+            fields.tags = this.validateTags(input.tags);
+        }
+        if (input.enabled !== undefined) {
+            fields.enabled = Boolean(input.enabled);
+        }
+
+        return fields;
+    }
+
+    private validateTags(tags: any): string[] {
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+            throw new FeedValidationError('tags must be an array of strings');
+        }
+        const normalized = normalizeTags(tags);
+        const invalid = normalized.find(tag => !TAG.test(tag));
+        if (invalid) {
+            throw new FeedValidationError(`Tag "${invalid}" must be lowercase letters, digits, - or _ (up to 32 characters)`);
+        }
+        if (normalized.length > MAX_TAGS) {
+            throw new FeedValidationError(`A feed can have at most ${MAX_TAGS} tags`);
+        }
+        return normalized;
+    }
+
+    private async load(): Promise<Map<string, FeedEntry>> {
+        if (this.feeds) {
+            return this.feeds;
+        }
+
+        let stored: FeedEntry[] | null = null;
+        try {
+            stored = JSON.parse(await fs.readFile(this.storeFile, 'utf-8'));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                log(`⚠️  Failed to read ${this.storeFile}:`, error.message);
+            }
+        }
+
+        // Without a stored library the default feeds are used (and saved on the first change)
+        this.feeds = new Map((stored || DEFAULT_FEEDS.map(newFeed)).map(feed => [feed.id, feed]));
+        return this.feeds;
+    }
+
+    /**
+     * Write all feeds via a temp file; callers run inside enqueue so writes never interleave
+     */
+    private async save(): Promise<void> {
+        await fs.mkdir(this.outputDir, { recursive: true });
+        const tempFile = `${this.storeFile}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify([...this.feeds.values()], null, 2));
+        await fs.rename(tempFile, this.storeFile);
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.pending.then(task);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+}
+
+function newFeed(fields: { url: string; title?: string; tags?: string[]; enabled?: boolean }): FeedEntry {
+    const now = new Date().toISOString();
+    return {
+        id: randomUUID(),
+        url: fields.url,
+        title: fields.title || fields.url,
+        tags: fields.tags || [],
+        enabled: fields.enabled !== false,
+        createdAt: now,
+        updatedAt: now,
+        health: emptyHealth()
+    };
+}
+
+function emptyHealth(): FeedHealth {
+    return {
+        status: 'unknown',
+        lastCheckedAt: null,
+        lastSuccessAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        errorRate: null,
+        averageItems: null,
+        history: []
+    };
+}
+
+/**
+ * Status, error rate and average items from a feed's check history
+ */
+function summarizeHistory(health: FeedHealth): Pick<FeedHealth, 'status' | 'errorRate' | 'averageItems'> {
+    const { history, consecutiveFailures } = health;
+    if (history.length === 0) {
+        return { status: 'unknown', errorRate: null, averageItems: null };
+    }
+
+    const successes = history.filter(check => check.ok);
+    const status: FeedHealthStatus = consecutiveFailures === 0
+        ? 'healthy'
+        : consecutiveFailures >= BROKEN_AFTER_FAILURES ? 'broken' : 'failing';
+
+    return {
+        status,
+        errorRate: round((history.length - successes.length) / history.length),
+        averageItems: successes.length > 0
+            ? round(successes.reduce((sum, check) => sum + check.items, 0) / successes.length)
+            : null
+    };
+}
+
+/**
+ * Feed outlines of an OPML document. Outlines without an xmlUrl are folders,
+ * whose names become tags of the feeds inside them.
+ */
+function parseOpml(opml: string): { url: string; title: string; tags: string[] }[] {
+    const outlines = [];
+    const folders: (string | null)[] = [];
+    const tokens = /<outline\b([^>]*?)(\/?)>|<\/outline\s*>/gi;
+
+    let match;
+    while ((match = tokens.exec(opml)) !== null) {
+        if (match[0].startsWith('</')) {
+            folders.pop();
+            continue;
+        }
+
+        const attributes = parseAttributes(match[1]);
+        const selfClosing = match[2] === '/';
+
+        if (attributes.xmlurl) {
+            outlines.push({
+                url: attributes.xmlurl.trim(),
+                title: (attributes.title || attributes.text || '').trim(),
+                tags: [
+                    ...folders.filter(Boolean),
+                    ...(attributes.category || '').split(/[,/]/)
+                ].map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean)
+            });
+        }
+        if (!selfClosing) {
+            folders.push(attributes.xmlurl ? null : (attributes.text || attributes.title || null));
+        }
+    }
+
+    return outlines;
+}
+
+function parseAttributes(source: string): { [name: string]: string } {
+    const attributes = {};
+    const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+        attributes[match[1].toLowerCase()] = unescapeXml(match[3] ?? match[4]);
+    }
+    return attributes;
+}
+
+function normalizeUrl(value: any): string | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    try {
+        const url = new URL(value.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+function normalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whether a value is a list of valid feed tags, for validateConfig
+ */
+export function isFeedTagList(value: any): boolean {
+    return Array.isArray(value) && value.every(tag => typeof tag === 'string' && TAG.test(tag.trim().toLowerCase()));
+}
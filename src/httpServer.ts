@@ -7,9 +7,18 @@
 
 import dotenv from 'dotenv';
 import express from 'express';
+import { promises as fs } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { RuleOfThirdsOrchestrator } from './orchestrator.js';
+import { JobManager } from './jobManager.js';
+import { OrchestrationEvent } from './events.js';
+import { diffRuns } from './runDiff.js';
+import { RunRecord } from './runRepository.js';
+import { MAX_QUESTION_LENGTH } from './runChat.js';
+import { createZip } from './zipArchive.js';
+import { WatchlistEntry, WatchlistScheduler, WatchlistValidationError } from './watchlistScheduler.js';
+import { FeedValidationError } from './feedLibrary.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -20,11 +29,14 @@ const __dirname = dirname(__filename);
 export class RuleOfThirdsHttpServer {
     private app: express.Application;
     private orchestrator: RuleOfThirdsOrchestrator;
+    private jobManager: JobManager;
+    private scheduler: WatchlistScheduler;
     private port: number;
 
     constructor(port: number = parseInt(process.env.PORT || '3001')) {
         this.app = express();
         this.port = port;
+        this.jobManager = new JobManager();
         
         try {
             console.log('🔧 Initializing RuleOfThirdsOrchestrator...');
@@ -36,6 +48,10 @@ export class RuleOfThirdsHttpServer {
                 azureOpenAIEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
                 azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
                 azureOpenAIDeployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+                // LLM provider selection and local OpenAI-compatible server
+                llmProvider: process.env.LLM_PROVIDER,
+                localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL,
+                localLlmModel: process.env.LOCAL_LLM_MODEL,
                 enableLlmSynthesis: true
             });
             console.log('✅ RuleOfThirdsOrchestrator initialized successfully');
@@ -49,6 +65,13 @@ export class RuleOfThirdsHttpServer {
             throw error;
         }
         
+        // Scheduled watchlist runs share the per-request orchestrator setup
+        this.scheduler = new WatchlistScheduler({
+            runAnalysis: (entry: WatchlistEntry) => this.createOrchestrator(entry.config).orchestrate(entry.topic, entry.focusArea, {
+                deadlineMs: entry.config?.deadlineMs
+            })
+        });
+        
         this.setupMiddleware();
         this.setupRoutes();
     }
@@ -88,7 +111,7 @@ export class RuleOfThirdsHttpServer {
         // Main orchestration endpoint
         this.app.post('/api/orchestrate', async (req, res) => {
             try {
-                const { topic, focus_area, config } = req.body;
+                const { topic, focus_area, config, noCache } = req.body;
 
                 if (!topic || typeof topic !== 'string' || topic.trim().length === 0) {
                     return res.status(400).json({
@@ -96,81 +119,37 @@ export class RuleOfThirdsHttpServer {
                     });
                 }
 
-                console.log(`🚀 Starting analysis for topic: "${topic}"${focus_area ? `, focus: "${focus_area}"` : ''}`);
-                
-                // Create orchestrator with custom configuration if provided
-                let orchestrator = this.orchestrator;
-                if (config && Object.keys(config).length > 0) {
-                    console.log('🔧 Using custom configuration for this analysis');
-                    orchestrator = new RuleOfThirdsOrchestrator({
-                        // Base configuration
-                        openaiApiKey: process.env.OPENAI_API_KEY,
-                        openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-                        azureOpenAIEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
-                        azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
-                        azureOpenAIDeployment: process.env.AZURE_OPENAI_DEPLOYMENT,
-                        enableLlmSynthesis: true,
-                        
-                        // Custom agent configurations
-                        external: {
-                            newsApiKey: config.apis?.newsApiKey || process.env.NEWS_API_KEY,
-                            youtubeApiKey: config.apis?.youtubeApiKey || process.env.YOUTUBE_API_KEY,
-                            rssSources: config.customRssFeeds || undefined
-                        },
-                        internal: {
-                            directories: config.researchDirectories || ['./processed-research', './research-outputs', './docs']
-                        },
-                        product: {
-                            amplitudeApiKey: config.apis?.amplitudeApiKey || process.env.AMPLITUDE_API_KEY,
-                            amplitudeSecretKey: config.apis?.amplitudeSecretKey || process.env.AMPLITUDE_SECRET_KEY,
-                            metricsEndpoints: config.telemetryEndpoints || undefined
-                        }
+                const validation = await this.validateRequestConfig(config);
+                if (!validation.valid) {
+                    return res.status(400).json({
+                        error: 'Invalid configuration',
+                        errors: validation.errors
                     });
                 }
 
+                console.log(`🚀 Starting analysis for topic: "${topic}"${focus_area ? `, focus: "${focus_area}"` : ''}`);
+                
+                const orchestrator = this.createOrchestrator(config);
+
+                // Stop the analysis if the client disconnects before it finishes
+                const controller = new AbortController();
+                res.on('close', () => {
+                    if (!res.writableEnded) {
+                        controller.abort(new Error('Client disconnected'));
+                    }
+                });
+
                 const startTime = Date.now();
                 const results = await orchestrator.orchestrate(
                     topic.trim(), 
-                    focus_area && typeof focus_area === 'string' ? focus_area.trim() : null
+                    focus_area && typeof focus_area === 'string' ? focus_area.trim() : null,
+                    { signal: controller.signal, deadlineMs: config?.deadlineMs, noCache: noCache === true }
                 );
 
                 const executionTime = Date.now() - startTime;
                 console.log(`✅ Analysis completed in ${executionTime}ms`);
 
-                // Transform the results to match the expected frontend interface
-                const response = {
-                    success: results.success,
-                    timestamp: results.timestamp,
-                    topic: results.topic,
-                    productArea: results.productArea,
-                    insights: results.insights,
-                    signals: {
-                        external: {
-                            status: results.signals?.external?.status || 'failed',
-                            signalCount: results.signals?.external?.signalCount || 0
-                        },
-                        internal: {
-                            status: results.signals?.internal?.status || 'failed',
-                            findingCount: results.signals?.internal?.findingCount || 0
-                        },
-                        product: {
-                            status: results.signals?.product?.status || 'failed',
-                            dataPointCount: results.signals?.product?.dataPointCount || 0
-                        }
-                    },
-                    metadata: {
-                        executionTime: results.metadata?.executionTime || executionTime,
-                        totalSignals: results.metadata?.totalSignals || 0,
-                        agentStatus: results.metadata?.agentStatus || {
-                            external: false,
-                            internal: false,
-                            product: false
-                        }
-                    },
-                    outputs: results.outputs
-                };
-
-                res.json(response);
+                res.json(this.formatResults(results, executionTime));
 
             } catch (error) {
                 console.error('❌ Analysis failed:', error);
@@ -183,6 +162,582 @@ export class RuleOfThirdsHttpServer {
             }
         });
 
+        // Start an asynchronous analysis job
+        this.app.post('/api/jobs', async (req, res) => {
+            try {
+                const { topic, focus_area, config, noCache } = req.body;
+
+                if (!topic || typeof topic !== 'string' || topic.trim().length === 0) {
+                    return res.status(400).json({
+                        error: 'Topic is required and must be a non-empty string'
+                    });
+                }
+
+                const validation = await this.validateRequestConfig(config);
+                if (!validation.valid) {
+                    return res.status(400).json({
+                        error: 'Invalid configuration',
+                        errors: validation.errors
+                    });
+                }
+
+                const trimmedTopic = topic.trim();
+                const productArea = focus_area && typeof focus_area === 'string' ? focus_area.trim() : null;
+                const orchestrator = this.createOrchestrator(config);
+
+                const job = this.jobManager.createJob(trimmedTopic, productArea, async (onEvent, signal) => {
+                    const startTime = Date.now();
+                    const results = await orchestrator.orchestrate(trimmedTopic, productArea, {
+                        onEvent,
+                        signal,
+                        deadlineMs: config?.deadlineMs,
+                        noCache: noCache === true
+                    });
+                    const executionTime = Date.now() - startTime;
+
+                    // Runs that reached the end report per-agent failures in their metadata
+                    if (!results.success && !results.metadata) {
+                        throw new Error(results.error || 'Analysis failed');
+                    }
+
+                    console.log(results.cancelled
+                        ? `⏹️  Job analysis cancelled after ${executionTime}ms`
+                        : `✅ Job analysis completed in ${executionTime}ms`);
+                    return this.formatResults(results, executionTime);
+                });
+
+                console.log(`🚀 Started job ${job.id} for topic: "${trimmedTopic}"`);
+
+                res.status(202).json({
+                    jobId: job.id,
+                    status: job.status,
+                    events: `/api/jobs/${job.id}/events`
+                });
+
+            } catch (error) {
+                console.error('❌ Failed to start job:', error);
+
+                res.status(500).json({
+                    error: 'Failed to start job',
+                    message: error instanceof Error ? error.message : 'Unknown error occurred'
+                });
+            }
+        });
+
+        // Get job status and result
+        this.app.get('/api/jobs/:id', (req, res) => {
+            const job = this.jobManager.getJob(req.params.id);
+
+            if (!job) {
+                return res.status(404).json({ error: 'Job not found' });
+            }
+
+            res.json(this.jobManager.describe(job));
+        });
+
+        // Cancel a running job
+        this.app.delete('/api/jobs/:id', (req, res) => {
+            const job = this.jobManager.getJob(req.params.id);
+
+            if (!job) {
+                return res.status(404).json({ error: 'Job not found' });
+            }
+
+            if (!this.jobManager.cancelJob(job.id)) {
+                return res.status(409).json({
+                    error: 'Job already finished',
+                    status: job.status
+                });
+            }
+
+            console.log(`⏹️  Cancellation requested for job ${job.id}`);
+            res.status(202).json({ jobId: job.id, status: 'cancelling' });
+        });
+
+        // Stream job progress as Server-Sent Events
+        this.app.get('/api/jobs/:id/events', (req, res) => {
+            const job = this.jobManager.getJob(req.params.id);
+
+            if (!job) {
+                return res.status(404).json({ error: 'Job not found' });
+            }
+
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+
+            let eventId = 0;
+            const send = (event: OrchestrationEvent) => {
+                res.write(`id: ${eventId++}\ndata: ${JSON.stringify(event)}\n\n`);
+            };
+
+            // Replay history, then stream live events until the job finishes
+            job.events.forEach(send);
+
+            if (this.jobManager.isFinished(job)) {
+                return res.end();
+            }
+
+            const unsubscribe = this.jobManager.subscribe(job.id, (event) => {
+                send(event);
+                if (this.jobManager.isFinished(job)) {
+                    unsubscribe();
+                    res.end();
+                }
+            });
+
+            req.on('close', unsubscribe);
+        });
+
+        // List previous runs, newest first
+        this.app.get('/api/runs', async (req, res) => {
+            try {
+                const topic = typeof req.query.topic === 'string' ? req.query.topic : undefined;
+                const limit = parseInt(String(req.query.limit || '')) || undefined;
+                const runs = await this.orchestrator.runs.list({ topic, limit });
+                res.json({ runs, count: runs.length });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to list runs',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Get a previous run with its combined report
+        this.app.get('/api/runs/:id', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                const report = await this.orchestrator.runs.readJsonFile(run, '_combined_insight_report.json');
+                res.json({ ...run, report });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to get run',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // List the output files of a run
+        this.app.get('/api/runs/:id/files', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                const files = await this.orchestrator.runs.listFiles(run);
+                res.json({
+                    runId: run.id,
+                    files: files.map(file => ({
+                        ...file,
+                        url: `/api/runs/${run.id}/files/${encodeURIComponent(file.name)}`
+                    })),
+                    bundle: `/api/runs/${run.id}/bundle`
+                });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to list run files',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Serve one output file of a run (?download=true to save it as an attachment)
+        this.app.get('/api/runs/:id/files/:name', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                const path = this.orchestrator.runs.resolveFile(run, req.params.name);
+                if (!path) {
+                    return res.status(404).json({ error: 'File not found' });
+                }
+
+                const send = req.query.download === 'true'
+                    ? (callback: (err?: any) => void) => res.download(path, callback)
+                    : (callback: (err?: any) => void) => res.sendFile(path, callback);
+
+                send(err => {
+                    if (err && !res.headersSent) {
+                        res.status(err.code === 'ENOENT' ? 404 : 500).json({
+                            error: err.code === 'ENOENT' ? 'File not found' : 'Failed to send file'
+                        });
+                    }
+                });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to get run file',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Download all output files of a run as a zip
+        this.app.get('/api/runs/:id/bundle', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                const files = await this.orchestrator.runs.listFiles(run);
+                if (files.length === 0) {
+                    return res.status(404).json({ error: 'Run has no output files' });
+                }
+
+                const entries = await Promise.all(files.map(async file => ({
+                    name: file.name,
+                    data: await fs.readFile(this.orchestrator.runs.resolveFile(run, file.name)),
+                    modifiedAt: new Date(file.modifiedAt)
+                })));
+
+                res.attachment(this.bundleFilename(run));
+                res.type('application/zip');
+                res.send(createZip(entries));
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to bundle run files',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Follow-up conversation about a run
+        this.app.get('/api/runs/:id/chat', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                const messages = await this.orchestrator.chats.list(run.id);
+                res.json({ runId: run.id, messages });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to get conversation',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Ask a follow-up question, answered from the run's stored evidence
+        this.app.post('/api/runs/:id/chat', async (req, res) => {
+            try {
+                const question = req.body?.question;
+
+                if (!question || typeof question !== 'string' || question.trim().length === 0) {
+                    return res.status(400).json({
+                        error: 'Question is required and must be a non-empty string'
+                    });
+                }
+                if (question.length > MAX_QUESTION_LENGTH) {
+                    return res.status(400).json({
+                        error: `Question must be at most ${MAX_QUESTION_LENGTH} characters`
+                    });
+                }
+
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                // Stop the LLM call if the client disconnects before it finishes
+                const controller = new AbortController();
+                res.on('close', () => {
+                    if (!res.writableEnded) {
+                        controller.abort(new Error('Client disconnected'));
+                    }
+                });
+
+                const exchange = await this.orchestrator.askAboutRun(run, question.trim(), { signal: controller.signal });
+                res.json({ runId: run.id, ...exchange });
+            } catch (error) {
+                console.error('❌ Follow-up question failed:', error);
+                res.status(500).json({
+                    error: 'Failed to answer question',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Clear the conversation about a run
+        this.app.delete('/api/runs/:id/chat', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.get(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                const removed = await this.orchestrator.chats.clear(run.id);
+                res.json({ cleared: true, removed });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to clear conversation',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Compare two runs: :a is the baseline, :b the later run
+        this.app.get('/api/runs/:a/diff/:b', async (req, res) => {
+            try {
+                const [base, compare] = await Promise.all([
+                    this.orchestrator.runs.get(req.params.a),
+                    this.orchestrator.runs.get(req.params.b)
+                ]);
+
+                if (!base || !compare) {
+                    return res.status(404).json({
+                        error: 'Run not found',
+                        missing: [!base && req.params.a, !compare && req.params.b].filter(Boolean)
+                    });
+                }
+
+                const [baseSnapshot, compareSnapshot] = await Promise.all([
+                    this.orchestrator.runs.loadSnapshot(base),
+                    this.orchestrator.runs.loadSnapshot(compare)
+                ]);
+
+                res.json(diffRuns(baseSnapshot, compareSnapshot));
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to compare runs',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Delete a previous run and its output files
+        this.app.delete('/api/runs/:id', async (req, res) => {
+            try {
+                const run = await this.orchestrator.runs.delete(req.params.id);
+
+                if (!run) {
+                    return res.status(404).json({ error: 'Run not found' });
+                }
+
+                await this.orchestrator.chats.clear(run.id);
+                console.log(`🗑️  Deleted run ${run.id} (${run.files.length} files)`);
+                res.json({ deleted: true, run });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to delete run',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // List watchlists
+        this.app.get('/api/watchlists', async (req, res) => {
+            try {
+                const watchlists = await this.scheduler.list();
+                res.json({ watchlists: watchlists.map(entry => this.describeWatchlist(entry)) });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to list watchlists',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Create a watchlist
+        this.app.post('/api/watchlists', async (req, res) => {
+            try {
+                const validation = await this.validateRequestConfig(req.body?.config);
+                if (!validation.valid) {
+                    return res.status(400).json({
+                        error: 'Invalid configuration',
+                        errors: validation.errors
+                    });
+                }
+
+                const entry = await this.scheduler.create(req.body);
+                res.status(201).json(this.describeWatchlist(entry));
+            } catch (error) {
+                this.sendWatchlistError(res, error, 'Failed to create watchlist');
+            }
+        });
+
+        // Get a watchlist
+        this.app.get('/api/watchlists/:id', async (req, res) => {
+            try {
+                const entry = await this.scheduler.get(req.params.id);
+
+                if (!entry) {
+                    return res.status(404).json({ error: 'Watchlist not found' });
+                }
+
+                res.json(this.describeWatchlist(entry));
+            } catch (error) {
+                this.sendWatchlistError(res, error, 'Failed to get watchlist');
+            }
+        });
+
+        // Update a watchlist (only the fields provided change)
+        this.app.put('/api/watchlists/:id', async (req, res) => {
+            try {
+                const validation = await this.validateRequestConfig(req.body?.config);
+                if (!validation.valid) {
+                    return res.status(400).json({
+                        error: 'Invalid configuration',
+                        errors: validation.errors
+                    });
+                }
+
+                const entry = await this.scheduler.update(req.params.id, req.body);
+
+                if (!entry) {
+                    return res.status(404).json({ error: 'Watchlist not found' });
+                }
+
+                res.json(this.describeWatchlist(entry));
+            } catch (error) {
+                this.sendWatchlistError(res, error, 'Failed to update watchlist');
+            }
+        });
+
+        // Delete a watchlist (its previous runs stay in the run history)
+        this.app.delete('/api/watchlists/:id', async (req, res) => {
+            try {
+                const entry = await this.scheduler.delete(req.params.id);
+
+                if (!entry) {
+                    return res.status(404).json({ error: 'Watchlist not found' });
+                }
+
+                res.json({ deleted: true, watchlist: this.describeWatchlist(entry) });
+            } catch (error) {
+                this.sendWatchlistError(res, error, 'Failed to delete watchlist');
+            }
+        });
+
+        // Run a watchlist now, outside its schedule
+        this.app.post('/api/watchlists/:id/run', async (req, res) => {
+            try {
+                if (this.scheduler.isRunning(req.params.id)) {
+                    return res.status(409).json({ error: 'Watchlist is already running' });
+                }
+
+                const entry = await this.scheduler.runNow(req.params.id);
+
+                if (!entry) {
+                    return res.status(404).json({ error: 'Watchlist not found' });
+                }
+
+                res.status(202).json(this.describeWatchlist(entry));
+            } catch (error) {
+                this.sendWatchlistError(res, error, 'Failed to run watchlist');
+            }
+        });
+
+        // List feeds in the library, optionally only those with any of ?tags=a,b
+        this.app.get('/api/feeds', async (req, res) => {
+            try {
+                const feeds = await this.orchestrator.feeds.list({ tags: this.queryTags(req.query.tags) });
+                res.json({ feeds, count: feeds.length, tags: await this.orchestrator.feeds.tags() });
+            } catch (error) {
+                res.status(500).json({
+                    error: 'Failed to list feeds',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Add a feed
+        this.app.post('/api/feeds', async (req, res) => {
+            try {
+                const feed = await this.orchestrator.feeds.create(req.body);
+                res.status(201).json(feed);
+            } catch (error) {
+                this.sendFeedError(res, error, 'Failed to add feed');
+            }
+        });
+
+        // Import feeds from OPML, sent as XML or as { opml, tags }
+        this.app.post('/api/feeds/import', express.text({ type: ['text/xml', 'application/xml', 'text/x-opml', 'text/plain'], limit: '2mb' }), async (req, res) => {
+            try {
+                const opml = typeof req.body === 'string' ? req.body : req.body?.opml;
+                const tags = typeof req.body === 'string' ? this.queryTags(req.query.tags) : req.body?.tags;
+                const result = await this.orchestrator.feeds.importOpml(opml, { tags });
+                res.status(result.added.length > 0 ? 201 : 200).json(result);
+            } catch (error) {
+                this.sendFeedError(res, error, 'Failed to import OPML');
+            }
+        });
+
+        // Export the library (or the feeds with any of ?tags=a,b) as OPML
+        this.app.get('/api/feeds/export', async (req, res) => {
+            try {
+                const opml = await this.orchestrator.feeds.exportOpml({ tags: this.queryTags(req.query.tags) });
+                res.setHeader('Content-Type', 'text/x-opml; charset=utf-8');
+                res.setHeader('Content-Disposition', 'attachment; filename="feeds.opml"');
+                res.send(opml);
+            } catch (error) {
+                this.sendFeedError(res, error, 'Failed to export feeds');
+            }
+        });
+
+        // Get a feed with its health history
+        this.app.get('/api/feeds/:id', async (req, res) => {
+            try {
+                const feed = await this.orchestrator.feeds.get(req.params.id);
+
+                if (!feed) {
+                    return res.status(404).json({ error: 'Feed not found' });
+                }
+
+                res.json(feed);
+            } catch (error) {
+                this.sendFeedError(res, error, 'Failed to get feed');
+            }
+        });
+
+        // Update a feed (only the fields provided change)
+        this.app.put('/api/feeds/:id', async (req, res) => {
+            try {
+                const feed = await this.orchestrator.feeds.update(req.params.id, req.body);
+
+                if (!feed) {
+                    return res.status(404).json({ error: 'Feed not found' });
+                }
+
+                res.json(feed);
+            } catch (error) {
+                this.sendFeedError(res, error, 'Failed to update feed');
+            }
+        });
+
+        // Remove a feed
+        this.app.delete('/api/feeds/:id', async (req, res) => {
+            try {
+                const feed = await this.orchestrator.feeds.delete(req.params.id);
+
+                if (!feed) {
+                    return res.status(404).json({ error: 'Feed not found' });
+                }
+
+                res.json({ deleted: true, feed });
+            } catch (error) {
+                this.sendFeedError(res, error, 'Failed to delete feed');
+            }
+        });
+
         // Get orchestrator status
         this.app.get('/api/status', async (req, res) => {
             try {
@@ -223,7 +778,165 @@ export class RuleOfThirdsHttpServer {
         });
     }
 
+    /**
+     * Create an orchestrator for a request, honouring any per-request configuration
+     */
+    private createOrchestrator(config: any): RuleOfThirdsOrchestrator {
+        if (!config || Object.keys(config).length === 0) {
+            return this.orchestrator;
+        }
+
+        console.log('🔧 Using custom configuration for this analysis');
+        return new RuleOfThirdsOrchestrator({
+            // Base configuration
+            openaiApiKey: process.env.OPENAI_API_KEY,
+            openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+            azureOpenAIEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
+            azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
+            azureOpenAIDeployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+            llmProvider: config.llmProvider || process.env.LLM_PROVIDER,
+            localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL,
+            localLlmModel: process.env.LOCAL_LLM_MODEL,
+            enableLlmSynthesis: true,
+            structuredSynthesis: config.structuredSynthesis,
+            tokenBudget: config.tokenBudget,
+            sourceWeights: config.sourceWeights,
+            agents: config.agents,
+            execution: config.execution,
+            templates: config.templates,
+            
+            // Custom agent configurations
+            external: {
+                newsApiKey: config.apis?.newsApiKey || process.env.NEWS_API_KEY,
+                youtubeApiKey: config.apis?.youtubeApiKey || process.env.YOUTUBE_API_KEY,
+                rssSources: config.customRssFeeds || undefined,
+                feedTags: config.feedTags,
+                github: {
+                    repositories: config.githubRepositories,
+                    token: config.apis?.githubToken || process.env.GITHUB_TOKEN
+                },
+                reviews: config.reviewSources,
+                sources: config.connectors
+            },
+            internal: {
+                directories: config.researchDirectories || ['./processed-research', './research-outputs', './docs']
+            },
+            product: {
+                amplitudeApiKey: config.apis?.amplitudeApiKey || process.env.AMPLITUDE_API_KEY,
+                amplitudeSecretKey: config.apis?.amplitudeSecretKey || process.env.AMPLITUDE_SECRET_KEY,
+                metricsEndpoints: config.telemetryEndpoints || undefined
+            }
+        });
+    }
+
+    /**
+     * Validate the per-request configuration against the orchestrator's rules
+     */
+    private async validateRequestConfig(config: any): Promise<any> {
+        if (!config || Object.keys(config).length === 0) {
+            return { valid: true, errors: [] };
+        }
+        return this.orchestrator.validateConfig(config);
+    }
+
+    /**
+     * Public view of a watchlist, including whether it is running right now
+     */
+    private describeWatchlist(entry: WatchlistEntry): any {
+        return {
+            ...entry,
+            running: this.scheduler.isRunning(entry.id)
+        };
+    }
+
+    /**
+     * Zip name for a run, from the shared prefix of its output filenames
+     */
+    private bundleFilename(run: RunRecord): string {
+        const report = run.files.find(file => file.endsWith('_combined_insight_report.json'));
+        return report ? report.replace('_combined_insight_report.json', '.zip') : `run_${run.id}.zip`;
+    }
+
+    private sendWatchlistError(res: express.Response, error: any, message: string): void {
+        if (error instanceof WatchlistValidationError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({
+            error: message,
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    private sendFeedError(res: express.Response, error: any, message: string): void {
+        if (error instanceof FeedValidationError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
+        res.status(500).json({
+            error: message,
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    /**
+     * Comma-separated ?tags= values
+     */
+    private queryTags(value: any): string[] {
+        return typeof value === 'string' ? value.split(',').map(tag => tag.trim()).filter(Boolean) : [];
+    }
+
+    /**
+     * Transform orchestration results to match the expected frontend interface
+     */
+    private formatResults(results: any, executionTime: number): any {
+        return {
+            success: results.success,
+            error: results.error,
+            cancelled: results.cancelled || false,
+            runId: results.runId,
+            timestamp: results.timestamp,
+            topic: results.topic,
+            productArea: results.productArea,
+            insights: results.insights,
+            signals: {
+                external: {
+                    status: results.signals?.external?.status || 'failed',
+                    signalCount: results.signals?.external?.signalCount || 0,
+                    error: results.signals?.external?.error
+                },
+                internal: {
+                    status: results.signals?.internal?.status || 'failed',
+                    findingCount: results.signals?.internal?.findingCount || 0,
+                    error: results.signals?.internal?.error
+                },
+                product: {
+                    status: results.signals?.product?.status || 'failed',
+                    dataPointCount: results.signals?.product?.dataPointCount || 0,
+                    error: results.signals?.product?.error
+                }
+            },
+            metadata: {
+                executionTime: results.metadata?.executionTime || executionTime,
+                totalSignals: results.metadata?.totalSignals || 0,
+                agentStatus: results.metadata?.agentStatus || {
+                    external: false,
+                    internal: false,
+                    product: false
+                },
+                agentOutcomes: results.metadata?.agentOutcomes,
+                executionPlan: results.metadata?.executionPlan,
+                llmCache: results.metadata?.llmCache,
+                completedAgents: results.metadata?.completedAgents,
+                cancellationReason: results.metadata?.cancellationReason
+            },
+            outputs: results.outputs
+        };
+    }
+
     public async start(): Promise<void> {
+        await this.scheduler.start();
+        
         return new Promise((resolve, reject) => {
             const server = this.app.listen(this.port, () => {
                 console.log(`🌐 Rule of Thirds HTTP Server running on http://localhost:${this.port}`);
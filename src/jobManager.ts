@@ -0,0 +1,182 @@
+/**
+ * Job Manager - Tracks asynchronous analysis jobs and their progress events
+ *
+ * Each job buffers every event it receives so late subscribers (e.g. an
+ * EventSource that connects after the job was created) get the full history
+ * before live events. Running jobs can be cancelled through their AbortController.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { OrchestrationEvent, OrchestrationEventListener } from './events.js';
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+    id: string;
+    topic: string;
+    productArea: string | null;
+    status: JobStatus;
+    createdAt: string;
+    completedAt: string | null;
+    events: OrchestrationEvent[];
+    result: any;
+    error: string | null;
+    controller: AbortController;
+}
+
+export class JobManager {
+    private config: any;
+    private jobs: Map<string, AnalysisJob>;
+    private emitter: EventEmitter;
+
+    constructor(config: any = {}) {
+        this.config = {
+            maxJobs: config.maxJobs || 50,
+            ...config
+        };
+
+        this.jobs = new Map();
+        this.emitter = new EventEmitter();
+        this.emitter.setMaxListeners(0); // One listener per connected SSE client
+    }
+
+    /**
+     * Create a job and start running it in the background
+     *
+     * `run` receives an event listener to forward progress into the job and
+     * the job's abort signal, and resolves with the job's final result.
+     */
+    createJob(topic: string, productArea: string | null, run: (onEvent: OrchestrationEventListener, signal: AbortSignal) => Promise<any>): AnalysisJob {
+        const job: AnalysisJob = {
+            id: randomUUID(),
+            topic,
+            productArea,
+            status: 'running',
+            createdAt: new Date().toISOString(),
+            completedAt: null,
+            events: [],
+            result: null,
+            error: null,
+            controller: new AbortController()
+        };
+
+        this.jobs.set(job.id, job);
+        this.pruneFinishedJobs();
+
+        const onEvent = (event: OrchestrationEvent) => this.recordEvent(job, event);
+
+        run(onEvent, job.controller.signal)
+            .then(result => {
+                job.result = result;
+                job.completedAt = new Date().toISOString();
+
+                if (job.controller.signal.aborted) {
+                    job.status = 'cancelled';
+                    this.recordEvent(job, {
+                        type: 'job_cancelled',
+                        message: 'Job cancelled',
+                        data: result,
+                        timestamp: job.completedAt
+                    });
+                    return;
+                }
+
+                job.status = 'completed';
+                this.recordEvent(job, {
+                    type: 'job_completed',
+                    message: 'Job completed',
+                    data: result,
+                    timestamp: job.completedAt
+                });
+            })
+            .catch(error => {
+                job.status = 'failed';
+                job.error = error instanceof Error ? error.message : String(error);
+                job.completedAt = new Date().toISOString();
+                this.recordEvent(job, {
+                    type: 'job_failed',
+                    message: `Job failed: ${job.error}`,
+                    timestamp: job.completedAt
+                });
+            });
+
+        return job;
+    }
+
+    /**
+     * Get a job by id
+     */
+    getJob(id: string): AnalysisJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    /**
+     * Request cancellation of a running job; returns false if it already finished
+     */
+    cancelJob(id: string, reason: string = 'Cancelled by user'): boolean {
+        const job = this.jobs.get(id);
+
+        if (!job || this.isFinished(job)) {
+            return false;
+        }
+
+        job.controller.abort(new Error(reason));
+        return true;
+    }
+
+    /**
+     * Subscribe to live events for a job; returns an unsubscribe function
+     */
+    subscribe(id: string, listener: OrchestrationEventListener): () => void {
+        this.emitter.on(id, listener);
+        return () => this.emitter.off(id, listener);
+    }
+
+    /**
+     * Whether a job has reached a terminal state
+     */
+    isFinished(job: AnalysisJob): boolean {
+        return job.status !== 'running';
+    }
+
+    /**
+     * Public view of a job (without the buffered event history)
+     */
+    describe(job: AnalysisJob): any {
+        return {
+            id: job.id,
+            topic: job.topic,
+            productArea: job.productArea,
+            status: job.status,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+            eventCount: job.events.length,
+            result: job.result,
+            error: job.error
+        };
+    }
+
+    private recordEvent(job: AnalysisJob, event: OrchestrationEvent): void {
+        job.events.push(event);
+        this.emitter.emit(job.id, event);
+    }
+
+    /**
+     * Drop the oldest finished jobs once more than maxJobs are held
+     */
+    private pruneFinishedJobs(): void {
+        if (this.jobs.size <= this.config.maxJobs) {
+            return;
+        }
+
+        for (const [id, job] of this.jobs) {
+            if (this.jobs.size <= this.config.maxJobs) {
+                break;
+            }
+            if (this.isFinished(job)) {
+                this.jobs.delete(id);
+            }
+        }
+    }
+}
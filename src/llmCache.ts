@@ -0,0 +1,132 @@
+/**
+ * LLM Cache - Content-addressed cache of LLM responses under outputDir
+ *
+ * Responses are stored one file per request in `llm-cache/`, named by the
+ * SHA-256 of everything that determines the response (provider, model,
+ * temperature, output limit, response format, system prompt and prompt), so an
+ * identical call in a later run is answered from disk. Entries expire after
+ * ttlMs; expired entries are removed when read.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { LlmRequest, LlmResponse } from './llmProvider.js';
+
+export interface LlmCacheConfig {
+    enabled?: boolean;
+    ttlMs?: number;
+    // Defaults to <outputDir>/llm-cache
+    directory?: string;
+}
+
+export interface LlmCacheEntry {
+    key: string;
+    provider: string;
+    model: string;
+    createdAt: string;
+    response: LlmResponse;
+}
+
+/**
+ * Cache activity for one run, reported in the orchestration metadata
+ */
+export interface LlmCacheStats {
+    enabled: boolean;
+    // Lookups skipped for this run (noCache); fresh responses are still stored
+    bypassed: boolean;
+    hits: number;
+    misses: number;
+    writes: number;
+    tokensSaved: number;
+    ttlMs: number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_DIR = 'llm-cache';
+
+// One cache per directory so concurrent runs share it
+const caches = new Map<string, LlmCache>();
+
+export class LlmCache {
+    private directory: string;
+    private ttlMs: number;
+
+    constructor(directory: string, ttlMs: number = DEFAULT_CACHE_TTL_MS) {
+        this.directory = directory;
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Get the shared cache for an output directory
+     */
+    static forDirectory(outputDir: string, config: LlmCacheConfig = {}): LlmCache {
+        const directory = config.directory || join(outputDir, CACHE_DIR);
+        const ttlMs = config.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+        const key = `${resolve(directory)}:${ttlMs}`;
+        if (!caches.has(key)) {
+            caches.set(key, new LlmCache(directory, ttlMs));
+        }
+        return caches.get(key);
+    }
+
+    /**
+     * Cache key for a request to a provider and model
+     */
+    static keyFor(provider: string, model: string, request: LlmRequest): string {
+        return createHash('sha256').update(JSON.stringify({
+            provider,
+            model,
+            temperature: request.temperature ?? null,
+            maxTokens: request.maxTokens ?? null,
+            json: Boolean(request.json),
+            system: request.system,
+            prompt: request.prompt
+        })).digest('hex');
+    }
+
+    /**
+     * Cached entry for a key, or null if missing or expired
+     */
+    async get(key: string): Promise<LlmCacheEntry | null> {
+        const file = this.fileFor(key);
+        let entry: LlmCacheEntry;
+        try {
+            entry = JSON.parse(await fs.readFile(file, 'utf-8'));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.log(`⚠️  Ignoring unreadable LLM cache entry ${key}: ${error.message}`);
+            }
+            return null;
+        }
+
+        if (Date.now() - new Date(entry.createdAt).getTime() > this.ttlMs) {
+            await fs.unlink(file).catch(() => undefined);
+            return null;
+        }
+        return entry;
+    }
+
+    /**
+     * Store a response under its key
+     */
+    async set(key: string, provider: string, model: string, response: LlmResponse): Promise<void> {
+        const entry: LlmCacheEntry = { key, provider, model, createdAt: new Date().toISOString(), response };
+        await fs.mkdir(this.directory, { recursive: true });
+        // Write then rename so concurrent readers never see a partial file
+        const temporary = `${this.fileFor(key)}.${process.pid}.tmp`;
+        await fs.writeFile(temporary, JSON.stringify(entry));
+        await fs.rename(temporary, this.fileFor(key));
+    }
+
+    private fileFor(key: string): string {
+        return join(this.directory, `${key}.json`);
+    }
+}
+
+/**
+ * Empty per-run statistics
+ */
+export function createCacheStats(enabled: boolean, bypassed: boolean, ttlMs: number): LlmCacheStats {
+    return { enabled, bypassed, hits: 0, misses: 0, writes: 0, tokensSaved: 0, ttlMs };
+}
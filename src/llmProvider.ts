@@ -0,0 +1,276 @@
+/**
+ * LLM Provider - Pluggable chat completion backends for the synthesis
+ *
+ * Providers:
+ * - openai: api.openai.com (OPENAI_API_KEY, OPENAI_MODEL)
+ * - azure: an Azure OpenAI deployment (AZURE_OPENAI_*)
+ * - local: any OpenAI-compatible server, e.g. llama.cpp or Ollama
+ *   (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL)
+ * - stub: deterministic templated output for tests and offline demos
+ *
+ * 'auto' (the default) picks Azure, then OpenAI, then a local server from
+ * whichever credentials are configured.
+ */
+
+import OpenAI from 'openai';
+import { normalizeUsage, TokenUsage } from './synthesisPipeline.js';
+import { StructuredSynthesis } from './structuredSynthesis.js';
+import { extractCitations } from './evidence.js';
+
+export type LlmProviderName = 'openai' | 'azure' | 'local' | 'stub';
+
+export const LLM_PROVIDERS: (LlmProviderName | 'auto')[] = ['auto', 'openai', 'azure', 'local', 'stub'];
+
+export interface LlmRequest {
+    system: string;
+    prompt: string;
+    // Ask for a single JSON object instead of free text
+    json?: boolean;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export interface LlmResponse {
+    content: string;
+    model: string;
+    usage: TokenUsage | null;
+}
+
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    readonly model: string;
+    complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse>;
+    /**
+     * Provider details for status and capabilities (never includes keys)
+     */
+    describe(): { name: LlmProviderName; model: string; endpoint: string | null };
+}
+
+const AZURE_API_VERSION = '2024-08-01-preview';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Where the bundled and built-in prompts state the topic
+const STUB_TOPIC_PATTERNS = [
+    /^# Signal Summary:\s*(.+)$/m,
+    /^# Follow-up Question:\s*(.+)$/m,
+    /\*\*Topic:\*\*\s*(.+)/,
+    /^- Topic:\s*(.+)$/m
+];
+
+/**
+ * Provider for the OpenAI chat completions API and servers that implement it
+ */
+export class OpenAIProvider implements LlmProvider {
+    readonly name: LlmProviderName;
+    readonly model: string;
+    private client: OpenAI;
+    private endpoint: string | null;
+
+    constructor(config: { apiKey: string; model: string; baseURL?: string; name?: LlmProviderName; clientOptions?: any }) {
+        this.name = config.name || 'openai';
+        this.model = config.model;
+        this.endpoint = config.baseURL || null;
+        this.client = new OpenAI({
+            apiKey: config.apiKey,
+            ...(config.baseURL ? { baseURL: config.baseURL } : {}),
+            ...(config.clientOptions || {})
+        });
+    }
+
+    async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse> {
+        const completion = await this.client.chat.completions.create({
+            model: this.model,
+            messages: [
+                { role: 'system', content: request.system },
+                { role: 'user', content: request.prompt }
+            ],
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.maxTokens ?? 4000,
+            top_p: 0.95,
+            ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+        }, { signal });
+
+        return {
+            content: completion.choices[0]?.message?.content || 'No response generated',
+            model: completion.model || this.model,
+            usage: normalizeUsage(completion.usage)
+        };
+    }
+
+    describe() {
+        return { name: this.name, model: this.model, endpoint: this.endpoint };
+    }
+}
+
+/**
+ * Azure OpenAI deployment; the deployment name doubles as the model
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+    constructor(config: { endpoint: string; apiKey: string; deployment: string }) {
+        super({
+            name: 'azure',
+            apiKey: config.apiKey,
+            model: config.deployment,
+            baseURL: `${config.endpoint}/openai/deployments/${config.deployment}`,
+            clientOptions: {
+                defaultQuery: { 'api-version': AZURE_API_VERSION },
+                defaultHeaders: { 'api-key': config.apiKey }
+            }
+        });
+    }
+}
+
+/**
+ * OpenAI-compatible local server (llama.cpp, Ollama, vLLM, LM Studio).
+ * Most local servers ignore the API key, so a placeholder is sent by default.
+ */
+export class LocalProvider extends OpenAIProvider {
+    constructor(config: { baseURL?: string; model: string; apiKey?: string }) {
+        super({
+            name: 'local',
+            apiKey: config.apiKey || 'local',
+            model: config.model,
+            baseURL: config.baseURL || DEFAULT_LOCAL_BASE_URL
+        });
+    }
+}
+
+/**
+ * Deterministic provider for tests and offline demos. Responses are built
+ * from the prompt itself (its topic and the evidence ids it lists), so the
+ * same prompt always produces the same output and citations are valid.
+ */
+export class StubProvider implements LlmProvider {
+    readonly name: LlmProviderName = 'stub';
+    readonly model = 'stub-1';
+
+    async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse> {
+        if (signal?.aborted) {
+            throw signal.reason instanceof Error ? signal.reason : new Error('Aborted');
+        }
+
+        // The prompt states its topic before any signal data, which may contain the same markers
+        const topic = STUB_TOPIC_PATTERNS
+            .map(pattern => request.prompt.match(pattern))
+            .filter(Boolean)
+            .sort((a, b) => a.index - b.index)[0]?.[1]?.trim() || 'the topic';
+        const ids = extractCitations(request.prompt);
+        const content = request.json ? JSON.stringify(stubSynthesis(topic, ids)) : stubMarkdown(request.prompt, topic, ids);
+
+        const promptTokens = estimateTokens(request.system) + estimateTokens(request.prompt);
+        const completionTokens = estimateTokens(content);
+        return {
+            content,
+            model: this.model,
+            usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+        };
+    }
+
+    describe() {
+        return { name: this.name, model: this.model, endpoint: null };
+    }
+}
+
+/**
+ * Build the provider selected by config.llmProvider, or null when the
+ * selected provider has no credentials
+ */
+export function createLlmProvider(config: any): LlmProvider | null {
+    const name = resolveProviderName(config);
+
+    switch (name) {
+        case 'azure':
+            return config.azureOpenAIEndpoint && config.azureOpenAIApiKey && config.azureOpenAIDeployment
+                ? new AzureOpenAIProvider({
+                    endpoint: config.azureOpenAIEndpoint,
+                    apiKey: config.azureOpenAIApiKey,
+                    deployment: config.azureOpenAIDeployment
+                })
+                : null;
+        case 'openai':
+            return config.openaiApiKey
+                ? new OpenAIProvider({ apiKey: config.openaiApiKey, model: config.openaiModel })
+                : null;
+        case 'local':
+            return new LocalProvider({
+                baseURL: config.localLlmBaseUrl,
+                model: config.localLlmModel,
+                apiKey: config.localLlmApiKey
+            });
+        case 'stub':
+            return new StubProvider();
+        default:
+            return null;
+    }
+}
+
+/**
+ * The provider 'auto' resolves to for the configured credentials
+ */
+export function resolveProviderName(config: any): LlmProviderName | null {
+    if (config.llmProvider && config.llmProvider !== 'auto') {
+        return config.llmProvider;
+    }
+    if (config.azureOpenAIEndpoint && config.azureOpenAIApiKey && config.azureOpenAIDeployment) {
+        return 'azure';
+    }
+    if (config.openaiApiKey) {
+        return 'openai';
+    }
+    if (config.localLlmBaseUrl) {
+        return 'local';
+    }
+    return null;
+}
+
+/**
+ * Rough token count (about four characters per token) for providers that do
+ * not report usage
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / 4);
+}
+
+function stubSynthesis(topic: string, ids: string[]): StructuredSynthesis {
+    const cite = (offset: number) => ids.length > 0 ? ` [${ids[offset % ids.length]}]` : '';
+
+    return {
+        summary: `Signals on ${topic} were gathered from external, internal and product sources.${cite(0)}`,
+        keyTrends: [`Interest in ${topic} is visible in external coverage.${cite(0)}`],
+        criticalFindings: [`Internal research mentions ${topic}.${cite(1)}`],
+        recommendations: [{
+            action: `Review the collected signals on ${topic}`,
+            horizon: 'short-term',
+            confidence: 'medium',
+            rationale: `Generated by the stub provider.${cite(2)}`
+        }],
+        risks: [{
+            risk: 'This synthesis is placeholder output',
+            severity: 'low',
+            mitigation: 'Configure an LLM provider for real analysis'
+        }],
+        openQuestions: [`What would a configured LLM conclude about ${topic}?`]
+    };
+}
+
+function stubMarkdown(prompt: string, topic: string, ids: string[]): string {
+    // Summarization (map) prompts get bullets, one per item group of three
+    const items = prompt.split('\n## Items\n')[1];
+    if (items !== undefined) {
+        const groups = [];
+        for (let i = 0; i < ids.length; i += 3) {
+            groups.push(`- Signals on ${topic} ${ids.slice(i, i + 3).map(id => `[${id}]`).join('')}`);
+        }
+        return groups.join('\n') || `- ${items.split('\n').filter(Boolean).length} items on ${topic}`;
+    }
+
+    const heading = prompt.match(/^#\s+(.+)$/m)?.[1]?.trim() || 'Analysis';
+    const cited = ids.slice(0, 3).map(id => `[${id}]`).join('');
+
+    return `## ${heading}
+
+Stub analysis of ${topic}${cited ? ` ${cited}` : ''}.
+
+- Prompt length: ${prompt.length} characters
+- Evidence ids available: ${ids.length}`;
+}
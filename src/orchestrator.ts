@@ -1,90 +1,167 @@
 /**
  * Rule of Thirds Orchestrator - Core orchestration engine for parallel signal gathering
  * 
- * This orchestrator manages three specialized agents in parallel:
+ * This orchestrator manages three specialized agents, scheduled by the
+ * execution planner (sequential, parallel or quota-aware bounded concurrency):
  * - External Signals Agent (market intelligence, news, social trends)
  * - Internal Research Agent (documents, transcripts, surveys)
  * - Product Metrics Agent (analytics, usage data, performance metrics)
  */
 
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, basename } from 'path';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
-import OpenAI from 'openai';
 import { ExternalSignalsAgent } from './agents/externalSignalsAgent.js';
+import { validateConnectorSelection } from './connectors/connectorRegistry.js';
+import { validateGitHubRepositories } from './connectors/gitHubConnector.js';
+import { validateReviewSources } from './connectors/reviewConnector.js';
+import { FeedLibrary, isFeedTagList } from './feedLibrary.js';
 import { InternalResearchAgent } from './agents/internalResearchAgent.js';
 import { ProductMetricsAgent } from './agents/productMetricsAgent.js';
+import { AgentName, emitEvent, OrchestrationEventListener } from './events.js';
+import { abortable, abortReason, AgentTimeoutError, createLinkedSignal, delay, isAbortError } from './cancellation.js';
+import { EXECUTION_MODES, ExecutionPlanner, Provider, ProviderQuotas, validateProviderQuotas, withQuota } from './executionPlanner.js';
+import { RunRecord, RunRepository, RunStatus } from './runRepository.js';
+import { TemplateNotFoundError, TemplateRenderer } from './templateRenderer.js';
+import { normalizeUsage, runSynthesisPipeline, StageCompletion, SYNTHESIS_STAGES, totalUsage } from './synthesisPipeline.js';
+import { formatSynthesisMarkdown, repairPrompt, structuredPromptInstructions, validateSynthesis } from './structuredSynthesis.js';
+import { createLlmProvider, estimateTokens, LLM_PROVIDERS, LlmProvider, LlmResponse } from './llmProvider.js';
+import { buildChatPrompt, ChatMessage, ChatStore, createMessage, fallbackAnswer, retrieveEvidence } from './runChat.js';
+import { createCacheStats, DEFAULT_CACHE_TTL_MS, LlmCache, LlmCacheStats } from './llmCache.js';
+import { buildSignalDigest, resolveTokenBudget, SignalDigest } from './tokenBudget.js';
+import { assignEvidenceIds, checkCitations, citationInstructions, EvidenceItem, locateEvidence } from './evidence.js';
+import { formatTriangulation, triangulateSignals, Triangulation } from './triangulation.js';
+import { confidenceLevel, resolveSourceWeights, scoreSourceStrength, validateSourceWeights } from './sourceWeighting.js';
 
 // Helper function for logging
 function log(...args: any[]): void {
     console.log(...args);
 }
 
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const AGENT_NAMES: AgentName[] = ['external', 'internal', 'product'];
+
+// Template used for each rendered output unless the request selects another by name
+const DEFAULT_TEMPLATES = {
+    prompt: 'llm-synthesis-prompt',
+    summary: 'human-readable-summary',
+    report: 'analysis-report',
+    html: 'html-report'
+};
+
+// Configuration keys that require rebuilding the LLM provider
+const LLM_CONFIG_KEYS = [
+    'llmProvider', 'openaiApiKey', 'openaiModel', 'azureOpenAIEndpoint', 'azureOpenAIApiKey',
+    'azureOpenAIDeployment', 'localLlmBaseUrl', 'localLlmModel', 'localLlmApiKey'
+];
+
+// Sampling temperature for every synthesis call (part of the cache key)
+const LLM_TEMPERATURE = 0.7;
+
+const SYNTHESIS_SYSTEM_PROMPT = 'You are an expert strategic analyst specializing in product intelligence and market analysis. Provide comprehensive, actionable insights based on the Rule of Thirds methodology that combines external market signals, internal research, and product metrics.';
+const CHAT_SYSTEM_PROMPT = 'You are a product intelligence analyst answering follow-up questions about a completed analysis. Answer only from the evidence provided and cite it.';
+
+const AGENT_LABELS = {
+    external: 'External Signals',
+    internal: 'Internal Research',
+    product: 'Product Metrics'
+};
+
+// Supporting prompts rendered from templates/ when present, otherwise built in
+const PROMPT_TEMPLATES = {
+    crossReference: 'cross-reference-prompt',
+    actionableInsights: 'actionable-insights-prompt',
+    riskAssessment: 'risk-assessment-prompt'
+};
+
 export class RuleOfThirdsOrchestrator {
     private config: any;
     private externalAgent: ExternalSignalsAgent;
     private internalAgent: InternalResearchAgent;
     private productAgent: ProductMetricsAgent;
+    private planner: ExecutionPlanner;
+    private renderer: TemplateRenderer;
     private startTime: number;
-    private openai: OpenAI | null = null;
+    private llm: LlmProvider | null = null;
 
     constructor(config: any = {}) {
         this.config = {
             retries: config.retries || 2,
             timeout: config.timeout || 30000,
             outputDir: config.outputDir || './outputs',
-            // Support both standard OpenAI and Azure OpenAI
             openaiApiKey: config.openaiApiKey || process.env.OPENAI_API_KEY,
             openaiModel: config.openaiModel || process.env.OPENAI_MODEL || 'gpt-4o-mini',
             azureOpenAIEndpoint: config.azureOpenAIEndpoint || process.env.AZURE_OPENAI_ENDPOINT,
             azureOpenAIApiKey: config.azureOpenAIApiKey || process.env.AZURE_OPENAI_API_KEY,
             azureOpenAIDeployment: config.azureOpenAIDeployment || process.env.AZURE_OPENAI_DEPLOYMENT,
             enableLlmSynthesis: config.enableLlmSynthesis !== false, // Default to true
-            ...config
+            tokenBudget: config.tokenBudget || {}, // Context window and output tokens, per provider
+            sourceWeights: config.sourceWeights || {}, // Trust per source and source type, recency half-life
+            templateDir: config.templateDir || join(__dirname, '../templates'),
+            ...config,
+            // After the spread, so a request passing these keys as undefined still gets the defaults
+            structuredSynthesis: config.structuredSynthesis !== false, // Request JSON from the primary stage
+            // LLM provider: auto | openai | azure | local | stub
+            llmProvider: config.llmProvider || process.env.LLM_PROVIDER || 'auto',
+            // OpenAI-compatible local server (llama.cpp, Ollama)
+            localLlmBaseUrl: config.localLlmBaseUrl || process.env.LOCAL_LLM_BASE_URL,
+            localLlmModel: config.localLlmModel || process.env.LOCAL_LLM_MODEL || 'llama3.1',
+            llmCache: { // LLM responses cached under outputDir/llm-cache
+                enabled: config.llmCache?.enabled !== false && process.env.LLM_CACHE !== 'false',
+                ttlMs: config.llmCache?.ttlMs || parseInt(process.env.LLM_CACHE_TTL_MS || '') || DEFAULT_CACHE_TTL_MS,
+                directory: config.llmCache?.directory
+            }
         };
+        this.config.templates = { ...DEFAULT_TEMPLATES, ...(config.templates || {}) };
         
-        // Initialize OpenAI client (supports both standard and Azure)
-        if (this.config.azureOpenAIEndpoint && this.config.azureOpenAIApiKey && this.config.azureOpenAIDeployment) {
-            // Azure OpenAI configuration
-            try {
-                this.openai = new OpenAI({
-                    apiKey: this.config.azureOpenAIApiKey,
-                    baseURL: `${this.config.azureOpenAIEndpoint}/openai/deployments/${this.config.azureOpenAIDeployment}`,
-                    defaultQuery: { 'api-version': '2024-08-01-preview' },
-                    defaultHeaders: { 'api-key': this.config.azureOpenAIApiKey }
-                });
-                log(`🤖 Azure OpenAI client initialized (deployment: ${this.config.azureOpenAIDeployment})`);
-            } catch (error) {
-                log('⚠️  Failed to initialize Azure OpenAI client:', error.message);
-            }
-        } else if (this.config.openaiApiKey) {
-            // Standard OpenAI configuration
-            try {
-                this.openai = new OpenAI({
-                    apiKey: this.config.openaiApiKey
-                });
-                log(`🤖 OpenAI client initialized (model: ${this.config.openaiModel})`);
-            } catch (error) {
-                log('⚠️  Failed to initialize OpenAI client:', error.message);
-            }
-        } else {
-            log('⚠️  No OpenAI credentials provided - LLM synthesis will be skipped');
-            log('   Configure either OPENAI_API_KEY or AZURE_OPENAI_* variables');
-        }
+        this.initializeLlmProvider();
         
         // Initialize agents with configuration
-        this.externalAgent = new ExternalSignalsAgent(config.external || {});
+        this.externalAgent = new ExternalSignalsAgent({ feedLibrary: this.feeds, ...(config.external || {}) });
         this.internalAgent = new InternalResearchAgent(config.internal || {});
         this.productAgent = new ProductMetricsAgent(config.product || {});
         
+        // Agent scheduling and provider quotas
+        this.planner = new ExecutionPlanner(this.config.execution || {});
+        
+        // Handlebars templates for prompts and reports
+        this.renderer = new TemplateRenderer(this.config.templateDir);
+        
         log('🎯 Rule of Thirds Orchestrator initializing...');
         
         this.startTime = Date.now();
     }
 
+    /**
+     * Build the LLM provider selected by config.llmProvider
+     */
+    private initializeLlmProvider() {
+        this.llm = null;
+        try {
+            this.llm = createLlmProvider(this.config);
+        } catch (error) {
+            log(`⚠️  Failed to initialize ${this.config.llmProvider} LLM provider:`, error.message);
+            return;
+        }
+
+        if (this.llm) {
+            const { name, model, endpoint } = this.llm.describe();
+            log(`🤖 ${name} LLM provider initialized (model: ${model}${endpoint ? `, endpoint: ${endpoint}` : ''})`);
+        } else if (this.config.llmProvider !== 'auto') {
+            log(`⚠️  ${this.config.llmProvider} LLM provider is missing credentials - LLM synthesis will be skipped`);
+        } else {
+            log('⚠️  No LLM credentials provided - LLM synthesis will be skipped');
+            log('   Configure OPENAI_API_KEY, AZURE_OPENAI_* or LOCAL_LLM_BASE_URL, or set LLM_PROVIDER=stub');
+        }
+    }
+
     /**
      * Public accessors for individual agents (for MCP tool handlers)
      */
@@ -99,213 +176,527 @@ export class RuleOfThirdsOrchestrator {
     get product(): ProductMetricsAgent {
         return this.productAgent;
     }
+
+    /**
+     * Run history index for the configured output directory
+     */
+    get runs(): RunRepository {
+        return RunRepository.forDirectory(this.config.outputDir);
+    }
+    
+    /**
+     * Follow-up conversations about completed runs
+     */
+    get chats(): ChatStore {
+        return ChatStore.forDirectory(this.config.outputDir);
+    }
     
     /**
-     * Main orchestration method - runs all three agents in parallel
+     * RSS feed library (with feed health) the external agent reads from
      */
-    async orchestrate(topic: string, productArea: string | null = null) {
+    get feeds(): FeedLibrary {
+        return FeedLibrary.forDirectory(this.config.outputDir);
+    }
+    
+    /**
+     * Answer a follow-up question about a completed run from its stored
+     * signals, findings and metrics. Both the question and the answer are
+     * added to the run's conversation. Without an LLM the answer lists the
+     * most relevant evidence instead.
+     */
+    async askAboutRun(run: RunRecord, question: string, options: { signal?: AbortSignal } = {}): Promise<{ question: ChatMessage; answer: ChatMessage }> {
+        const [snapshot, history] = await Promise.all([this.runs.loadSnapshot(run), this.chats.list(run.id)]);
+        const { index, results } = retrieveEvidence(snapshot, question);
+        const userMessage = createMessage('user', question);
+        
+        let answer: ChatMessage;
+        if (this.llm) {
+            const completion = await this.callLlmApi(buildChatPrompt(snapshot, question, results, history), options.signal, undefined, {
+                system: CHAT_SYSTEM_PROMPT
+            });
+            answer = createMessage('assistant', completion.content, { model: completion.model, usage: completion.usage });
+        } else {
+            answer = createMessage('assistant', fallbackAnswer(results), { model: null, usage: null });
+        }
+        
+        const { cited, invalid } = checkCitations(answer.content, index);
+        const located = await Promise.all(cited.map(id => locateEvidence(index.get(id))));
+        answer.retrieved = results.map(result => result.item.id);
+        answer.citations = { cited, invalid, evidence: Object.fromEntries(located.map(item => [item.id, item])) };
+        
+        await this.chats.append(run.id, [userMessage, answer]);
+        log(`💬 Answered question on run ${run.id} (${results.length} evidence items retrieved, ${cited.length} cited)`);
+        return { question: userMessage, answer };
+    }
+    
+    /**
+     * Main orchestration method - runs the three agents according to the execution plan
+     *
+     * options.onEvent receives progress events (agent started/finished,
+     * per-source completion, retries, synthesis) as the run advances.
+     * options.signal cancels the run and options.deadlineMs bounds it; either
+     * way the agents that already finished are persisted as partial outputs.
+     *
+     * Each agent's outcome (fulfilled, failed, timed-out, skipped) is captured
+     * independently, so the run completes with whichever agents succeeded.
+     * Every run is indexed in the run repository under its runId.
+     * options.noCache skips LLM cache lookups (fresh responses are still cached).
+     */
+    async orchestrate(topic: string, productArea: string | null = null, options: any = {}): Promise<any> {
+        const runId = randomUUID();
         const startTime = Date.now();
         const timestamp = new Date().toISOString();
+        const onEvent = options.onEvent;
+        const { signal, dispose } = createLinkedSignal(options.signal, options.deadlineMs || this.config.deadlineMs);
+        const outcomes: any = {};
+        const run = this.planner.plan(AGENT_NAMES);
+        const cacheStats = createCacheStats(this.config.llmCache.enabled, Boolean(options.noCache), this.config.llmCache.ttlMs);
         
         log(`\n🚀 Starting Rule of Thirds orchestration for: "${topic}"`);
         if (productArea) {
             log(`📍 Product Area: ${productArea}`);
         }
+        emitEvent(onEvent, {
+            type: 'run_started',
+            message: `Starting analysis for "${topic}"${productArea ? ` (${productArea})` : ''}`,
+            data: { topic, productArea }
+        });
         
         try {
             // Ensure output directory exists
             await this.ensureOutputDirectory();
             
-            // Run all three agents sequentially to manage quota usage
-            log('\n⚡ Running agents sequentially (quota management)...');
+            const plan = run.summary();
+            log(`\n⚡ Running agents (${plan.mode}, up to ${plan.maxConcurrentAgents} at a time${plan.quotasEnforced ? ', provider quotas enforced' : ''})...`);
             
-            // Agent 1: External Signals
-            log('   🔄 external agent (attempt 1/2)');
-            const extResult = await this.runWithRetry('external', () => this.externalAgent.gatherSignals(topic, productArea));
-            log('   ✅ external agent completed');
-            
-            // Agent 2: Internal Research  
-            log('   🔄 internal agent (attempt 1/2)');
-            const intResult = await this.runWithRetry('internal', () => this.internalAgent.analyzeResearch(topic, productArea));
-            log('   ✅ internal agent completed');
-            
-            // Agent 3: Product Metrics
-            log('   🔄 product agent (attempt 1/2)');
-            const prodResult = await this.runWithRetry('product', () => this.productAgent.collectMetrics(topic, productArea));
-            log('   ✅ product agent completed');
-            
-            const results = [
-                { status: 'fulfilled', value: extResult },
-                { status: 'fulfilled', value: intResult },
-                { status: 'fulfilled', value: prodResult }
-            ];
+            await run.execute(AGENT_NAMES, async (agentName: AgentName) => {
+                outcomes[agentName] = await this.runAgent(agentName, topic, productArea, onEvent, signal, run.quota);
+            });
             
-            // Process results and extract data
-            const [externalResult, internalResult, productResult] = results;
             const executionTime = Date.now() - startTime;
-            
-            // Calculate success metrics
-            const successfulAgents = results.filter(r => r.status === 'fulfilled').length;
-            const totalAgents = results.length;
-            const agentStatus = {
-                external: externalResult.status === 'fulfilled',
-                internal: internalResult.status === 'fulfilled',
-                product: productResult.status === 'fulfilled'
-            };
-            
-            // Extract signal data (all should be successful now)
-            const externalData = results[0].value;
-            const internalData = results[1].value;
-            const productData = results[2].value;
-            
-            // Calculate total signals
-            const totalSignals = (externalData.signalCount || 0) + (internalData.findingCount || 0) + (productData.dataPointCount || 0);
+            const { signals, metadata } = this.summarizeOutcomes(outcomes, timestamp, executionTime, { runId });
+            const { totalSignals, successfulAgents, totalAgents } = metadata;
             
             log(`\n📊 Orchestration Results:`);
             log(`   ✅ Successful Agents: ${successfulAgents}/${totalAgents}`);
+            AGENT_NAMES
+                .filter(name => outcomes[name].status !== 'fulfilled')
+                .forEach(name => log(`   ❌ ${name}: ${outcomes[name].status} - ${outcomes[name].error}`));
             log(`   📈 Total Signals: ${totalSignals}`);
             log(`   ⏱️  Execution Time: ${executionTime}ms`);
             
             // Generate comprehensive insights and prompts
-            const insights = await this.synthesizeInsights(topic, productArea, {
-                external: externalData,
-                internal: internalData,
-                product: productData
-            }, {
-                timestamp,
-                executionTime,
-                totalSignals,
-                agentStatus,
-                successfulAgents,
-                totalAgents
+            emitEvent(onEvent, {
+                type: 'synthesis_started',
+                message: `Synthesizing ${totalSignals} signals from ${successfulAgents}/${totalAgents} agents`
             });
+            const insights = await this.synthesizeInsights(topic, productArea, signals, metadata, {
+                signal,
+                quota: run.quota,
+                skipLlm: successfulAgents === 0,
+                cache: cacheStats,
+                onEvent
+            });
+            emitEvent(onEvent, {
+                type: 'synthesis_finished',
+                message: insights.llmSynthesis?.content
+                    ? `AI synthesis generated by ${insights.llmSynthesis.model} (${insights.llmSynthesis.stages.filter(stage => stage.status === 'completed').length}/${insights.llmSynthesis.stages.length} stages, ${insights.llmSynthesis.usage.totalTokens} tokens)`
+                    : insights.llmSynthesis?.error
+                        ? `AI synthesis failed: ${insights.llmSynthesis.error}`
+                        : 'AI synthesis skipped - no LLM configured'
+            });
+            
+            // Record the plan with agent timings and provider usage, and LLM cache activity
+            metadata.executionPlan = run.summary();
+            metadata.llmCache = cacheStats;
             
             // Generate all output files
             const outputs = await this.generateOutputs(topic, productArea, timestamp, {
-                external: externalData,
-                internal: internalData,
-                product: productData,
+                ...signals,
                 insights,
-                metadata: {
-                    timestamp,
-                    executionTime,
-                    totalSignals,
-                    agentStatus,
-                    successfulAgents,
-                    totalAgents
-                }
+                metadata
+            });
+            
+            await this.recordRun(runId, topic, productArea, metadata, outputs, successfulAgents === totalAgents ? 'completed' : successfulAgents > 0 ? 'partial' : 'failed');
+            
+            emitEvent(onEvent, {
+                type: 'done',
+                message: `Analysis complete - ${totalSignals} signals from ${successfulAgents}/${totalAgents} agents in ${executionTime}ms`,
+                data: { totalSignals, executionTime, agentStatus: metadata.agentStatus }
             });
             
             return {
-                success: true,
+                success: successfulAgents > 0,
+                error: successfulAgents > 0 ? undefined : 'All agents failed',
+                runId,
                 timestamp,
                 topic,
                 productArea,
-                signals: {
-                    external: externalData,
-                    internal: internalData,
-                    product: productData
-                },
+                signals,
                 insights,
-                metadata: {
-                    timestamp,
-                    executionTime,
-                    totalSignals,
-                    agentStatus,
-                    successfulAgents,
-                    totalAgents
-                },
+                metadata,
                 outputs
             };
             
         } catch (error) {
+            if (isAbortError(error, signal)) {
+                return this.handleCancelledRun(runId, topic, productArea, timestamp, startTime, outcomes, abortReason(signal), run.summary(), onEvent);
+            }
             console.error('💥 Orchestration failed:', error);
+            emitEvent(onEvent, {
+                type: 'error',
+                message: `Orchestration failed: ${error.message}`
+            });
+            await this.recordRun(runId, topic, productArea, {
+                timestamp,
+                executionTime: Date.now() - startTime,
+                error: error.message
+            }, null, 'failed');
             return {
                 success: false,
                 error: error.message,
+                runId,
                 timestamp
             };
+        } finally {
+            dispose();
+        }
+    }
+    
+    /**
+     * Run a single agent and capture its outcome instead of throwing
+     *
+     * Only cancellation propagates; failures, timeouts and disabled agents are
+     * recorded so the remaining agents still run.
+     */
+    async runAgent(agentName: AgentName, topic: string, productArea: string | null, onEvent?: OrchestrationEventListener, signal?: AbortSignal, quota?: ProviderQuotas) {
+        const startTime = Date.now();
+        
+        if (this.config.agents?.[agentName] === false) {
+            log(`   ⏭️  ${agentName} agent skipped (disabled in config)`);
+            emitEvent(onEvent, {
+                type: 'agent_skipped',
+                agent: agentName,
+                message: `${agentName} agent skipped (disabled in config)`
+            });
+            return { status: 'skipped', error: 'Disabled in config', executionTime: 0 };
+        }
+        
+        const agentFns = {
+            external: (agentSignal) => this.externalAgent.gatherSignals(topic, productArea, { onEvent, signal: agentSignal, quota }),
+            internal: (agentSignal) => this.internalAgent.analyzeResearch(topic, productArea, { onEvent, signal: agentSignal }),
+            product: (agentSignal) => this.productAgent.collectMetrics(topic, productArea, { onEvent, signal: agentSignal, quota })
+        };
+        
+        try {
+            const value = await this.runWithRetry(agentName, agentFns[agentName], onEvent, signal);
+            
+            // Agents report internal failures through their result rather than throwing
+            if (value?.status === 'failed') {
+                emitEvent(onEvent, {
+                    type: 'agent_failed',
+                    agent: agentName,
+                    message: `${agentName} agent failed: ${value.error}`,
+                    data: { status: 'failed' }
+                });
+                return { status: 'failed', error: value.error, value, executionTime: Date.now() - startTime };
+            }
+            
+            return { status: 'fulfilled', value, executionTime: Date.now() - startTime };
+            
+        } catch (error) {
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            return {
+                status: error instanceof AgentTimeoutError ? 'timed-out' : 'failed',
+                error: error.message,
+                executionTime: Date.now() - startTime
+            };
+        }
+    }
+    
+    /**
+     * Turn per-agent outcomes into signal data and run metadata
+     *
+     * Agents without a usable result get a placeholder carrying their status and
+     * error so downstream reporting can show which corner of the triangle failed.
+     */
+    summarizeOutcomes(outcomes: any, timestamp: string, executionTime: number, extraMetadata: any = {}) {
+        const signals: any = {};
+        const agentStatus: any = {};
+        const agentOutcomes: any = {};
+        
+        AGENT_NAMES.forEach(name => {
+            const outcome = outcomes[name];
+            const fulfilled = outcome?.status === 'fulfilled';
+            
+            signals[name] = fulfilled ? outcome.value : {
+                ...(outcome?.value || {}),
+                status: outcome?.status || 'skipped',
+                error: outcome?.error || extraMetadata.cancellationReason || 'Agent did not run',
+                signalCount: 0,
+                findingCount: 0,
+                dataPointCount: 0
+            };
+            agentStatus[name] = fulfilled;
+            agentOutcomes[name] = {
+                status: outcome?.status || 'skipped',
+                error: fulfilled ? null : signals[name].error,
+                executionTime: outcome?.executionTime || 0
+            };
+        });
+        
+        const successfulAgents = AGENT_NAMES.filter(name => agentStatus[name]).length;
+        const totalSignals = (signals.external.signalCount || 0) + (signals.internal.findingCount || 0) + (signals.product.dataPointCount || 0);
+        
+        return {
+            signals,
+            metadata: {
+                timestamp,
+                executionTime,
+                totalSignals,
+                agentStatus,
+                agentOutcomes,
+                successfulAgents,
+                totalAgents: AGENT_NAMES.length,
+                ...extraMetadata
+            }
+        };
+    }
+    
+    /**
+     * Persist partial outputs for a cancelled run, recording which agents finished
+     */
+    async handleCancelledRun(runId, topic, productArea, timestamp, startTime, outcomes, reason, executionPlan, onEvent?: OrchestrationEventListener) {
+        const completedAgents = AGENT_NAMES.filter(name => outcomes[name]?.status === 'fulfilled');
+        
+        log(`\n⏹️  Orchestration cancelled (${reason}) - ${completedAgents.length}/${AGENT_NAMES.length} agents finished`);
+        
+        // Agents that never got to run are marked as skipped because of the cancellation
+        const { signals, metadata } = this.summarizeOutcomes(outcomes, timestamp, Date.now() - startTime, {
+            runId,
+            cancelled: true,
+            cancellationReason: reason,
+            completedAgents,
+            executionPlan
+        });
+        
+        let insights = null;
+        let outputs = null;
+        try {
+            insights = await this.synthesizeInsights(topic, productArea, signals, metadata, { skipLlm: true });
+            outputs = await this.generateOutputs(topic, productArea, timestamp, { ...signals, insights, metadata });
+        } catch (error) {
+            log('⚠️  Failed to persist partial outputs:', error.message);
+        }
+        
+        await this.recordRun(runId, topic, productArea, { ...metadata, error: reason }, outputs, 'cancelled');
+        
+        emitEvent(onEvent, {
+            type: 'cancelled',
+            message: `Analysis cancelled (${reason}) - ${completedAgents.length}/${AGENT_NAMES.length} agents finished`,
+            data: { reason, completedAgents }
+        });
+        
+        return {
+            success: false,
+            cancelled: true,
+            error: reason,
+            runId,
+            timestamp,
+            topic,
+            productArea,
+            signals,
+            insights,
+            metadata,
+            outputs
+        };
+    }
+    
+    /**
+     * Index a finished run in the run repository
+     *
+     * Failures are logged rather than thrown so history bookkeeping never fails a run.
+     */
+    async recordRun(runId: string, topic: string, productArea: string | null, metadata: any, outputs: any, status: RunStatus): Promise<void> {
+        const agentStatus: any = {};
+        AGENT_NAMES.forEach(name => {
+            agentStatus[name] = metadata.agentOutcomes?.[name]?.status || 'skipped';
+        });
+        
+        const record: RunRecord = {
+            id: runId,
+            topic,
+            productArea,
+            timestamp: metadata.timestamp,
+            completedAt: new Date().toISOString(),
+            status,
+            error: metadata.error || (status === 'failed' ? 'All agents failed' : null),
+            executionTime: metadata.executionTime || 0,
+            totalSignals: metadata.totalSignals || 0,
+            agentStatus,
+            files: (outputs?.files || []).map(file => basename(file))
+        };
+        
+        try {
+            await this.runs.record(record);
+        } catch (error) {
+            log('⚠️  Failed to record run history:', error.message);
         }
     }
     
     /**
      * Run agent with retry logic and timeout
+     *
+     * agentFn receives a per-attempt signal that aborts on timeout or when the
+     * run's signal aborts, so timed-out attempts stop their underlying requests.
      */
-    async runWithRetry(agentName, agentFn) {
+    async runWithRetry(agentName, agentFn: (signal: AbortSignal) => Promise<any>, onEvent?: OrchestrationEventListener, signal?: AbortSignal) {
         let lastError;
         
+        emitEvent(onEvent, {
+            type: 'agent_started',
+            agent: agentName,
+            message: `${agentName} agent started`
+        });
+        
         for (let attempt = 1; attempt <= this.config.retries; attempt++) {
+            const attemptSignal = createLinkedSignal(signal, this.config.timeout);
             try {
                 log(`   🔄 ${agentName} agent (attempt ${attempt}/${this.config.retries})`);
                 
-                // Add timeout wrapper
-                const result = await Promise.race([
-                    agentFn(),
-                    new Promise((_, reject) => 
-                        setTimeout(() => reject(new Error('Agent timeout')), this.config.timeout)
-                    )
-                ]);
+                // Abort the attempt on timeout or cancellation
+                const result = await abortable(agentFn(attemptSignal.signal), attemptSignal.signal);
                 
                 log(`   ✅ ${agentName} agent completed`);
+                emitEvent(onEvent, {
+                    type: 'agent_finished',
+                    agent: agentName,
+                    message: `${agentName} agent completed`,
+                    data: { attempts: attempt }
+                });
                 return result;
                 
             } catch (error) {
-                lastError = error;
-                log(`   ⚠️  ${agentName} agent failed (attempt ${attempt}): ${error.message}`);
+                if (signal?.aborted) {
+                    throw error;
+                }
+                lastError = attemptSignal.signal.aborted ? new AgentTimeoutError(this.config.timeout) : error;
+                log(`   ⚠️  ${agentName} agent failed (attempt ${attempt}): ${lastError.message}`);
                 
                 if (attempt < this.config.retries) {
                     const backoffTime = Math.pow(2, attempt) * 1000; // Exponential backoff
                     log(`   ⏳ Retrying ${agentName} in ${backoffTime}ms...`);
-                    await new Promise(resolve => setTimeout(resolve, backoffTime));
+                    emitEvent(onEvent, {
+                        type: 'agent_retry',
+                        agent: agentName,
+                        message: `${agentName} agent failed (${lastError.message}), retrying in ${backoffTime}ms`,
+                        data: { attempt, backoffTime }
+                    });
+                    await delay(backoffTime, signal);
                 }
+            } finally {
+                attemptSignal.dispose();
             }
         }
         
-        throw new Error(`${agentName} agent failed after ${this.config.retries} attempts: ${lastError.message}`);
+        const status = lastError instanceof AgentTimeoutError ? 'timed-out' : 'failed';
+        const message = `${agentName} agent ${status === 'timed-out' ? 'timed out' : 'failed'} after ${this.config.retries} attempts: ${lastError.message}`;
+        emitEvent(onEvent, {
+            type: 'agent_failed',
+            agent: agentName,
+            message,
+            data: { status }
+        });
+        throw status === 'timed-out' ? new AgentTimeoutError(this.config.timeout, message) : new Error(message);
     }
     
     /**
      * Synthesize insights and generate LLM analysis prompts
+     *
+     * options.signal aborts the LLM calls and options.quota applies the openai
+     * quota; options.skipLlm builds the prompts only. options.onEvent receives
+     * a synthesis_stage_finished event per pipeline stage.
      */
-    async synthesizeInsights(topic, productArea, signals, metadata) {
+    async synthesizeInsights(topic, productArea, signals, metadata, options: any = {}) {
         log('🧠 Synthesizing insights and generating analysis prompts...');
         
-        // Load LLM synthesis prompts
-        const templates = await this.loadTemplates();
+        // Tag every signal with a stable evidence id, fit the signals into the
+        // provider's token budget (summarizing large sources), then render the
+        // LLM synthesis prompts and ask for citations
+        const evidence = assignEvidenceIds(signals);
+        const useLlm = this.config.enableLlmSynthesis && this.llm && !options.skipLlm;
+        const budget = resolveTokenBudget(this.llm?.name || null, this.config.tokenBudget);
+        const digest = await buildSignalDigest(
+            topic,
+            signals,
+            budget,
+            useLlm ? prompt => this.callLlmApi(prompt, options.signal, options.quota, { cache: options.cache, quotaProvider: 'summarization' }) : null,
+            {
+                signal: options.signal,
+                onSourceDigested: source => {
+                    if (source.mode === 'map-reduce' || source.mode === 'truncated') {
+                        log(`✂️  ${AGENT_LABELS[source.source]}: ${source.items} items (~${source.sourceTokens} tokens) exceed the token budget, ${source.mode === 'map-reduce'
+                            ? `summarized in ${source.chunks} chunks`
+                            : `kept ${source.includedItems} of ${source.items} items`}${source.error ? ` (summarization failed: ${source.error})` : ''}`);
+                    }
+                }
+            }
+        );
+        // Align themes across the sources before the prompts, so the cross-reference stage sees them
+        const sourceWeights = resolveSourceWeights(this.config.sourceWeights);
+        const triangulation = triangulateSignals(topic, productArea, signals, sourceWeights);
+        log(`🔺 Triangulated ${triangulation.themes.length} themes: ${triangulation.counts.corroborated} corroborated, ${triangulation.counts.contradicted} contradicted, ${triangulation.counts['single-source']} single-source`);
+        let llmPrompts = await this.loadTemplates(topic, productArea, signals, metadata, digest, triangulation);
+        if (evidence.size > 0) {
+            SYNTHESIS_STAGES.forEach(stage => {
+                llmPrompts[stage.id] = `${llmPrompts[stage.id]}\n\n${citationInstructions()}`;
+            });
+        }
         
         // Create cross-reference opportunities
-        const crossReferenceInsights = this.identifyCrossReferences(signals);
-        
-        // Prepare primary synthesis prompt with actual data
-        const primarySynthesisPrompt = templates.primarySynthesis
-            .replace(/\{topic\}/g, topic)
-            .replace(/\{productArea\}/g, productArea || 'General')
-            .replace(/\{totalSignals\}/g, metadata.totalSignals)
-            .replace(/\{executionTime\}/g, metadata.executionTime)
-            .replace(/\{externalSignalCount\}/g, signals.external.signalCount || 0)
-            .replace(/\{internalSignalCount\}/g, signals.internal.findingCount || 0)
-            .replace(/\{productSignalCount\}/g, signals.product.dataPointCount || 0);
-        
-        // Add actual signal data to the prompt
-        const enrichedPrompt = this.enrichPromptWithSignalData(primarySynthesisPrompt, signals);
-        
-        // Call LLM for synthesis if available
+        const crossReferenceInsights = this.identifyCrossReferences(signals, triangulation);
+        
+        // Run the staged LLM synthesis if available
         let llmSynthesis = null;
-        if (this.config.enableLlmSynthesis && this.openai) {
-            try {
-                log('🤖 Calling OpenAI for strategic synthesis...');
-                llmSynthesis = await this.callLlmApi(enrichedPrompt);
-                log('✅ LLM synthesis completed');
-            } catch (error) {
-                log('❌ LLM synthesis failed:', error.message);
-                llmSynthesis = {
-                    error: error.message,
-                    fallback: 'LLM synthesis unavailable - using template prompts for manual analysis'
-                };
+        if (useLlm) {
+            log(`🤖 Running ${SYNTHESIS_STAGES.length}-stage ${this.llm.name} synthesis pipeline...`);
+            const pipeline = await runSynthesisPipeline(
+                llmPrompts,
+                (prompt, stage) => stage.id === 'primarySynthesis' && this.config.structuredSynthesis
+                    ? this.callStructuredSynthesis(prompt, options.signal, options.quota, options.cache)
+                    : this.callLlmApi(prompt, options.signal, options.quota, { cache: options.cache }),
+                {
+                    signal: options.signal,
+                    onStageFinished: stage => {
+                        log(stage.status === 'completed'
+                            ? `✅ ${stage.title} completed (${stage.usage?.totalTokens ?? '?'} tokens, ${stage.executionTime}ms)`
+                            : `❌ ${stage.title} ${stage.status}: ${stage.error}`);
+                        emitEvent(options.onEvent, {
+                            type: 'synthesis_stage_finished',
+                            message: stage.status === 'completed'
+                                ? `${stage.title} generated by ${stage.model}`
+                                : `${stage.title} ${stage.status}: ${stage.error}`,
+                            data: { stage: stage.id, status: stage.status, usage: stage.usage, executionTime: stage.executionTime }
+                        });
+                    }
+                }
+            );
+            llmPrompts = pipeline.prompts;
+            llmSynthesis = this.summarizeSynthesisStages(pipeline.stages);
+            if (digest.summarizationCalls > 0) {
+                llmSynthesis.usage = totalUsage([llmSynthesis, digest]);
+            }
+            llmSynthesis.citations = await this.verifyCitations(pipeline.stages, evidence);
+            if (options.cache?.enabled) {
+                log(`💾 LLM cache: ${options.cache.hits} hits, ${options.cache.misses} misses${options.cache.bypassed ? ' (lookups skipped)' : ''}`);
             }
+            log(`🔗 ${llmSynthesis.citations.cited.length} evidence items cited, ${llmSynthesis.citations.invalid.length} unknown citations`);
         }
         
-        // Generate executive summary
+        // Generate executive summary, filled from the structured synthesis when available
+        const structured = llmSynthesis?.structured;
         const executiveSummary = {
             totalSignals: metadata.totalSignals,
             coverage: {
@@ -314,56 +705,175 @@ export class RuleOfThirdsOrchestrator {
                 total: metadata.totalAgents,
                 status: metadata.successfulAgents === metadata.totalAgents ? 'complete' : 'partial'
             },
-            signalStrength: [
-                {
-                    source: 'external',
-                    strength: signals.external.signalCount > 15 ? 'strong' : signals.external.signalCount > 5 ? 'medium' : 'weak',
-                    count: signals.external.signalCount || 0
-                },
-                {
-                    source: 'internal',
-                    strength: signals.internal.findingCount > 10 ? 'strong' : signals.internal.findingCount > 3 ? 'medium' : 'weak',
-                    count: signals.internal.findingCount || 0
-                },
-                {
-                    source: 'product',
-                    strength: signals.product.dataPointCount > 20 ? 'strong' : signals.product.dataPointCount > 8 ? 'medium' : 'weak',
-                    count: signals.product.dataPointCount || 0
-                }
-            ],
-            keyTrends: [
+            // Weighted, recency-adjusted evidence per source
+            signalStrength: scoreSourceStrength(signals, sourceWeights),
+            overview: structured?.summary || null,
+            keyTrends: structured ? structured.keyTrends : [
                 'Trend analysis pending - requires AI agent synthesis'
             ],
-            criticalFindings: [
+            criticalFindings: structured ? structured.criticalFindings : [
                 'Critical findings analysis pending - requires AI agent synthesis'
             ]
         };
         
-        // Quality assessment
+        // Quality assessment - a source only counts as covered if its agent succeeded and returned data
+        const coveredSources = [
+            signals.external.status === 'success' && signals.external.signalCount > 0,
+            signals.internal.status === 'success' && signals.internal.findingCount > 0,
+            signals.product.status === 'success' && signals.product.dataPointCount > 0
+        ].filter(Boolean).length;
+        const failedAgents = Object.entries(metadata.agentOutcomes || {})
+            .filter(([, outcome]: [string, any]) => outcome.status !== 'fulfilled')
+            .map(([agent, outcome]: [string, any]) => ({ agent, status: outcome.status, error: outcome.error }));
+        
+        // Reliability weighs each source's strength by its trust; confidence is that of the cross-source themes
+        const totalWeight = executiveSummary.signalStrength.reduce((total, entry) => total + entry.weight, 0);
+        const reliabilityScore = totalWeight > 0
+            ? executiveSummary.signalStrength.reduce((total, entry) => total + entry.score * entry.weight, 0) / totalWeight
+            : 0;
+        const crossSourceThemes = triangulation.themes.filter(theme => theme.status !== 'single-source');
+        const confidenceScore = crossSourceThemes.length > 0
+            ? crossSourceThemes.reduce((total, theme) => total + theme.confidence.score, 0) / crossSourceThemes.length
+            : 0;
+        
         const qualityAssessment = {
             coverage: Math.round((metadata.successfulAgents / metadata.totalAgents) * 100),
-            signalReliability: metadata.totalSignals > 30 ? 'High' : metadata.totalSignals > 15 ? 'Medium' : 'Low',
-            analysisConfidence: metadata.successfulAgents === metadata.totalAgents ? 'High' : metadata.successfulAgents >= 2 ? 'Medium' : 'Low'
+            coveredSources,
+            reliabilityScore: Math.round(reliabilityScore * 100) / 100,
+            signalReliability: capitalize(confidenceLevel(reliabilityScore)),
+            confidenceScore: Math.round(confidenceScore * 100) / 100,
+            analysisConfidence: capitalize(confidenceLevel(confidenceScore)),
+            failedAgents
         };
         
         return {
             executiveSummary,
             qualityAssessment,
             crossReferenceInsights,
+            triangulation,
+            sourceWeights,
             llmSynthesis,
-            llmPrompts: {
-                primarySynthesis: enrichedPrompt,
-                crossReference: templates.crossReference,
-                actionableInsights: templates.actionableInsights,
-                riskAssessment: templates.riskAssessment
+            llmPrompts,
+            promptBudget: this.describePromptBudget(digest, llmPrompts)
+        };
+    }
+    
+    /**
+     * Token budget report: how each source was fitted into the prompt and the
+     * estimated size of every prompt sent
+     */
+    describePromptBudget(digest: SignalDigest, prompts: { [stage: string]: string }) {
+        const estimatedPromptTokens = Object.fromEntries(
+            Object.entries(prompts).map(([stage, prompt]) => [stage, estimateTokens(prompt)])
+        );
+        const limit = digest.budget.contextWindow - digest.budget.maxOutputTokens;
+        const overBudget = Object.keys(estimatedPromptTokens).filter(stage => estimatedPromptTokens[stage] > limit);
+        if (overBudget.length > 0) {
+            log(`⚠️  Prompts over the ${limit}-token prompt budget: ${overBudget.join(', ')}`);
+        }
+        
+        return {
+            ...digest.budget,
+            sources: Object.fromEntries(
+                Object.entries(digest.sources).map(([source, { text, ...details }]) => [source, details])
+            ),
+            summarizationCalls: digest.summarizationCalls,
+            summarizationUsage: digest.usage,
+            estimatedPromptTokens,
+            overBudget
+        };
+    }
+    
+    /**
+     * Combine the pipeline stages into llmSynthesis: the primary stage's content
+     * and model, with latency and token usage totalled across all stages
+     */
+    summarizeSynthesisStages(stages) {
+        const [primary] = stages;
+        const summary = {
+            model: primary.model,
+            structured: primary.structured || null,
+            usage: totalUsage(stages),
+            executionTime: stages.reduce((total, stage) => total + stage.executionTime, 0),
+            timestamp: new Date().toISOString(),
+            stages
+        };
+        
+        if (primary.status !== 'completed') {
+            return {
+                ...summary,
+                error: primary.error,
+                fallback: 'LLM synthesis unavailable - using template prompts for manual analysis'
+            };
+        }
+        return { ...summary, content: primary.content };
+    }
+    
+    /**
+     * Check the citations in each completed stage against the evidence index
+     *
+     * Sets stage.citations, and returns the cited evidence resolved to its
+     * URL, file location or metric, the ids that matched nothing, and one claim
+     * per structured synthesis item with the evidence supporting it.
+     */
+    async verifyCitations(stages, index: Map<string, EvidenceItem>) {
+        const claims = [];
+        
+        stages.filter(stage => stage.status === 'completed').forEach(stage => {
+            stage.citations = checkCitations(stage.content, index);
+            
+            const structured = stage.structured;
+            if (!structured) {
+                return;
             }
+            const addClaim = (section: string, text: string) => {
+                claims.push({ stage: stage.id, section, text, ...checkCitations(text, index) });
+            };
+            structured.keyTrends.forEach(trend => addClaim('keyTrends', trend));
+            structured.criticalFindings.forEach(finding => addClaim('criticalFindings', finding));
+            structured.recommendations.forEach(item => addClaim('recommendations', `${item.action} ${item.rationale}`));
+            structured.risks.forEach(item => addClaim('risks', `${item.risk} ${item.mitigation}`));
+        });
+        
+        const completed = stages.filter(stage => stage.citations);
+        const cited = [...new Set<string>(completed.flatMap(stage => stage.citations.cited))];
+        const invalid = [...new Set<string>(completed.flatMap(stage => stage.citations.invalid))];
+        
+        const resolved = await Promise.all(cited.map(id => locateEvidence(index.get(id))));
+        const evidence = Object.fromEntries(resolved.map(item => [item.id, item]));
+        
+        return {
+            cited,
+            invalid,
+            evidence,
+            claims: claims.map(claim => ({ ...claim, evidence: claim.cited.map(id => evidence[id]) })),
+            uncitedClaims: claims.filter(claim => claim.cited.length === 0).length
         };
     }
     
     /**
      * Identify cross-reference opportunities between signal sources
+     *
+     * Contradicted and corroborated themes from the triangulation come first;
+     * without any, the source pairs that have data to compare are listed.
      */
-    identifyCrossReferences(signals) {
+    identifyCrossReferences(signals, triangulation?: Triangulation) {
+        const themed = (triangulation?.themes || [])
+            .filter(theme => theme.status !== 'single-source')
+            .map(theme => ({
+                type: theme.status === 'contradicted' ? 'contradicted_theme' : 'corroborated_theme',
+                description: theme.status === 'contradicted'
+                    ? `Resolve conflicting signals on "${theme.theme}": ${theme.summary}`
+                    : `"${theme.theme}" is corroborated: ${theme.summary}`,
+                sources: theme.sources,
+                priority: theme.status === 'contradicted' || theme.sources.length === 3 ? 'high' : 'medium',
+                theme: theme.theme,
+                evidenceIds: theme.evidenceIds
+            }));
+        if (themed.length > 0) {
+            return themed;
+        }
+        
         const opportunities = [];
         
         // Check which sources have data
@@ -402,107 +912,243 @@ export class RuleOfThirdsOrchestrator {
     }
     
     /**
-     * Call OpenAI API for LLM synthesis
+     * Run the primary synthesis as structured JSON
+     *
+     * A response that fails validation after local repair is sent back once for
+     * the model to fix; if that also fails, the stage falls back to the plain
+     * markdown synthesis. Usage and latency cover every call made.
+     */
+    async callStructuredSynthesis(prompt: string, signal?: AbortSignal, quota?: ProviderQuotas, cache?: LlmCacheStats): Promise<StageCompletion> {
+        const calls = [await this.callLlmApi(`${prompt}\n\n${structuredPromptInstructions()}`, signal, quota, { json: true, cache })];
+        let validation = validateSynthesis(calls[0].content);
+        
+        if (!validation.valid) {
+            log(`⚠️  Structured synthesis failed validation (${validation.errors.join('; ')}), asking for a repair...`);
+            calls.push(await this.callLlmApi(repairPrompt(calls[0].content, validation.errors), signal, quota, { json: true, cache }));
+            validation = validateSynthesis(calls[1].content);
+        }
+        
+        let content: string;
+        if (validation.valid) {
+            content = formatSynthesisMarkdown(validation.data);
+        } else {
+            log(`⚠️  Structured synthesis still invalid (${validation.errors.join('; ')}), falling back to markdown`);
+            calls.push(await this.callLlmApi(prompt, signal, quota, { cache }));
+            content = calls[calls.length - 1].content;
+        }
+        
+        return {
+            content,
+            model: calls[calls.length - 1].model,
+            usage: totalUsage(calls),
+            executionTime: calls.reduce((total, call) => total + call.executionTime, 0),
+            structured: validation.data,
+            validation: { valid: validation.valid, errors: validation.errors, repairs: validation.repairs },
+            cached: calls.every(call => call.cached)
+        };
+    }
+    
+    /**
+     * Call the configured LLM provider for LLM synthesis
+     *
+     * options.json requests a JSON object response. Calls count against the
+     * openai provider quota whichever LLM provider is configured (or against
+     * options.quotaProvider, e.g. summarization); options.system
+     * replaces the default analyst system prompt. With
+     * options.cache, identical earlier requests are answered from the LLM cache
+     * and the hits and misses are counted there.
      */
-    async callLlmApi(prompt: string): Promise<any> {
-        if (!this.openai) {
-            throw new Error('OpenAI client not initialized');
+    async callLlmApi(prompt: string, signal?: AbortSignal, quota?: ProviderQuotas, options: { json?: boolean; cache?: LlmCacheStats; system?: string; quotaProvider?: Provider } = {}): Promise<StageCompletion> {
+        if (!this.llm) {
+            throw new Error('LLM provider not initialized');
         }
 
         const startTime = Date.now();
+        const request = {
+            system: options.system || SYNTHESIS_SYSTEM_PROMPT,
+            prompt,
+            json: options.json,
+            temperature: LLM_TEMPERATURE,
+            maxTokens: resolveTokenBudget(this.llm.name, this.config.tokenBudget).maxOutputTokens
+        };
 
-        try {
-            const completion = await this.openai.chat.completions.create({
-                model: this.config.azureOpenAIDeployment || this.config.openaiModel,
-                messages: [
-                    {
-                        role: 'system',
-                        content: 'You are an expert strategic analyst specializing in product intelligence and market analysis. Provide comprehensive, actionable insights based on the Rule of Thirds methodology that combines external market signals, internal research, and product metrics.'
-                    },
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
-                temperature: 0.7,
-                max_tokens: 4000,
-                top_p: 0.95
-            });
-
-            const executionTime = Date.now() - startTime;
-
-            return {
-                content: completion.choices[0]?.message?.content || 'No response generated',
-                model: this.config.openaiModel,
-                usage: completion.usage,
-                executionTime,
-                timestamp: new Date().toISOString()
-            };
+        const stats = options.cache;
+        const cache = stats?.enabled ? LlmCache.forDirectory(this.config.outputDir, this.config.llmCache) : null;
+        const key = cache ? LlmCache.keyFor(this.llm.name, this.llm.model, request) : null;
+        if (cache && !stats.bypassed) {
+            const entry = await cache.get(key);
+            if (entry) {
+                stats.hits++;
+                stats.tokensSaved += entry.response.usage?.totalTokens || 0;
+                return { ...entry.response, executionTime: Date.now() - startTime, cached: true };
+            }
+            stats.misses++;
+        }
 
+        let completion: LlmResponse;
+        try {
+            completion = await withQuota(quota, options.quotaProvider || 'openai', () => this.llm.complete(request, signal), signal);
         } catch (error) {
-            throw new Error(`OpenAI API call failed: ${error.message}`);
+            if (isAbortError(error, signal)) {
+                throw error;
+            }
+            throw new Error(`${this.llm.name} LLM call failed: ${error.message}`);
+        }
+
+        if (cache) {
+            try {
+                await cache.set(key, this.llm.name, this.llm.model, completion);
+                stats.writes++;
+            } catch (error) {
+                log('⚠️  Failed to write LLM cache entry:', error.message);
+            }
         }
+
+        return {
+            content: completion.content,
+            model: completion.model,
+            usage: completion.usage,
+            executionTime: Date.now() - startTime
+        };
     }
     
     /**
-     * Enrich the synthesis prompt with actual signal data
+     * Enrich the synthesis prompt with the signal data fitted to the token budget
      */
-    enrichPromptWithSignalData(basePrompt: string, signals: any): string {
+    enrichPromptWithSignalData(basePrompt: string, digest: SignalDigest): string {
         let enrichedPrompt = basePrompt;
         
-        // Add external signals data
-        if (signals.external && signals.external.rankedSignals) {
-            const topExternalSignals = signals.external.rankedSignals.slice(0, 5);
-            const externalData = topExternalSignals.map(signal => 
-                `- ${signal.title} (${signal.source}): ${signal.content?.substring(0, 200)}...`
-            ).join('\n');
-            
-            enrichedPrompt += `\n\n## Top External Market Signals:\n${externalData}`;
-        }
+        const sections = [
+            ['External Market Signals', digest.sources.external],
+            ['Internal Research Findings', digest.sources.internal],
+            ['Product Metrics', digest.sources.product]
+        ] as const;
+        sections.forEach(([heading, source]) => {
+            if (source.text) {
+                enrichedPrompt += `\n\n## ${heading}:\n${source.text}`;
+            }
+        });
         
-        // Add internal research data
-        if (signals.internal && signals.internal.rankedFindings) {
-            const topInternalFindings = signals.internal.rankedFindings.slice(0, 5);
-            const internalData = topInternalFindings.map(finding => 
-                `- ${finding.source}: ${finding.content?.substring(0, 200)}...`
-            ).join('\n');
-            
-            enrichedPrompt += `\n\n## Top Internal Research Findings:\n${internalData}`;
-        }
+        return enrichedPrompt;
+    }
+    
+    /**
+     * Render the LLM synthesis prompts from templates/
+     *
+     * The primary prompt uses the template selected by config.templates.prompt.
+     * Any prompt whose template is missing or fails to render falls back to the
+     * built-in version. Templates get the signal data fitted to the token budget
+     * as signalDigest.external, .internal and .product, and the triangulated
+     * themes as triangulation.
+     */
+    async loadTemplates(topic, productArea, signals, metadata, digest: SignalDigest, triangulation: Triangulation = null) {
+        const builtIn = this.getBuiltInTemplates();
+        const context = {
+            ...this.buildTemplateContext(topic, productArea, { ...signals, metadata }),
+            triangulation,
+            signalDigest: {
+                external: digest.sources.external.text,
+                internal: digest.sources.internal.text,
+                product: digest.sources.product.text
+            }
+        };
         
-        // Add product metrics data
-        if (signals.product && signals.product.insights) {
-            const trends = signals.product.insights.trends || [];
-            const topTrends = trends.slice(0, 5);
-            const metricsData = topTrends.map(trend => 
-                `- ${trend.metric}: ${trend.direction} (${trend.percentChange}% change)`
-            ).join('\n');
-            
-            enrichedPrompt += `\n\n## Key Product Metrics Trends:\n${metricsData}`;
-        }
+        const renderOrFallback = async (name: string, fallback: () => string) => {
+            try {
+                return await this.renderer.render(name, context);
+            } catch (error) {
+                log(error instanceof TemplateNotFoundError
+                    ? `⚠️  ${error.message}, using built-in template`
+                    : `⚠️  Failed to render template "${name}", using built-in template: ${error.message}`);
+                return fallback();
+            }
+        };
         
-        return enrichedPrompt;
+        const [primarySynthesis, crossReference, actionableInsights, riskAssessment] = await Promise.all([
+            renderOrFallback(this.config.templates.prompt, () => this.enrichPromptWithSignalData(
+                builtIn.primarySynthesis
+                    .replace(/\{topic\}/g, topic)
+                    .replace(/\{productArea\}/g, productArea || 'General')
+                    .replace(/\{totalSignals\}/g, metadata.totalSignals)
+                    .replace(/\{executionTime\}/g, metadata.executionTime)
+                    .replace(/\{externalSignalCount\}/g, signals.external.signalCount || 0)
+                    .replace(/\{internalSignalCount\}/g, signals.internal.findingCount || 0)
+                    .replace(/\{productSignalCount\}/g, signals.product.dataPointCount || 0),
+                digest
+            )),
+            renderOrFallback(PROMPT_TEMPLATES.crossReference, () => triangulation?.themes.length
+                ? `${builtIn.crossReference}\n\n## Triangulated Themes\n${formatTriangulation(triangulation)}`
+                : builtIn.crossReference),
+            renderOrFallback(PROMPT_TEMPLATES.actionableInsights, () => builtIn.actionableInsights),
+            renderOrFallback(PROMPT_TEMPLATES.riskAssessment, () => builtIn.riskAssessment)
+        ]);
+        
+        return { primarySynthesis, crossReference, actionableInsights, riskAssessment };
     }
     
     /**
-     * Load LLM synthesis prompt templates
+     * Template context: the full orchestration result plus the derived fields
+     * the bundled templates use (coverage, confidence, recommendations)
      */
-    async loadTemplates() {
-        const templateDir = join(__dirname, '../templates');
+    buildTemplateContext(topic, productArea, data) {
+        const { external = {}, internal = {}, product = {}, metadata = {}, insights } = data;
+        const strength = { strong: 5, medium: 3, weak: 1 };
+        const confidenceFor = (source: string) => {
+            const entry = insights?.executiveSummary?.signalStrength?.find(item => item.source === source);
+            return metadata.agentStatus?.[source] && entry ? strength[entry.strength] : 0;
+        };
+        const ratio = (part, total) => total ? Math.round((part / total) * 100) : 0;
+        const signalStrength = insights?.executiveSummary?.signalStrength || [];
+        const recommendationsFor = (priority: string) => (product.insights?.recommendations || [])
+            .filter(recommendation => recommendation.priority === priority)
+            .map(recommendation => recommendation.description);
         
-        try {
-            const [primarySynthesis, crossReference, actionableInsights, riskAssessment] = await Promise.all([
-                fs.readFile(join(templateDir, 'llmSynthesisPrompt.txt'), 'utf-8'),
-                fs.readFile(join(templateDir, 'crossReferencePrompt.txt'), 'utf-8'),
-                fs.readFile(join(templateDir, 'actionableInsightsPrompt.txt'), 'utf-8'),
-                fs.readFile(join(templateDir, 'riskAssessmentPrompt.txt'), 'utf-8')
-            ]);
-            
-            return { primarySynthesis, crossReference, actionableInsights, riskAssessment };
-        } catch (error) {
-            log('⚠️  Template files not found, using built-in templates');
-            return this.getBuiltInTemplates();
-        }
+        return {
+            topic,
+            productArea,
+            timestamp: metadata.timestamp,
+            executionTime: metadata.executionTime,
+            totalExecutionTime: metadata.executionTime,
+            totalDataPoints: metadata.totalSignals,
+            version: '1.0.0',
+            externalSignals: external,
+            internalResearch: internal,
+            productMetrics: product,
+            signals: { external, internal, product },
+            insights: insights || {},
+            llmSynthesis: insights?.llmSynthesis,
+            metadata,
+            keyFindings: [
+                ...(insights?.crossReferenceInsights || []).map(opportunity => opportunity.description),
+                ...(product.insights?.keyFindings || []).map(finding => finding.description)
+            ],
+            recommendations: {
+                immediate: recommendationsFor('high'),
+                medium: recommendationsFor('medium'),
+                longterm: recommendationsFor('low')
+            },
+            coverage: {
+                external: ratio(external.summary?.successfulSources, external.summary?.totalSources),
+                internal: ratio(internal.summary?.processedFiles, internal.summary?.totalFiles),
+                metrics: ratio(product.summary?.successfulSources, product.summary?.totalSources)
+            },
+            signalStrength: signalStrength.map(entry => ({
+                ...entry,
+                label: AGENT_LABELS[entry.source] || entry.source,
+                // Bars show the weighted strength score rather than raw counts
+                widthPercent: Math.round((entry.score || 0) * 100)
+            })),
+            confidence: {
+                market: confidenceFor('external'),
+                internal: confidenceFor('internal'),
+                product: confidenceFor('product')
+            },
+            agentCoverage: {
+                external: metadata.agentStatus ? this.formatAgentOutcome(metadata, 'external') : '',
+                internal: metadata.agentStatus ? this.formatAgentOutcome(metadata, 'internal') : '',
+                product: metadata.agentStatus ? this.formatAgentOutcome(metadata, 'product') : ''
+            }
+        };
     }
     
     /**
@@ -616,6 +1262,8 @@ Prioritize by impact and likelihood with mitigation strategies.`
                 data: data.product
             },
             crossReferenceOpportunities: data.insights.crossReferenceInsights,
+            triangulation: data.insights.triangulation,
+            llmSynthesis: data.insights.llmSynthesis,
             llmSynthesisPrompts: data.insights.llmPrompts,
             qualityAssessment: data.insights.qualityAssessment
         };
@@ -625,11 +1273,30 @@ Prioritize by impact and likelihood with mitigation strategies.`
         files.push(combinedReportFile);
         
         // Generate human-readable summary
-        const humanSummary = this.generateHumanReadableSummary(topic, productArea, data);
+        const templateContext = this.buildTemplateContext(topic, productArea, data);
+        const humanSummary = await this.renderSummary(topic, productArea, data, templateContext);
         const summaryFile = join(this.config.outputDir, `${baseFilename}_human_readable_summary.md`);
         await fs.writeFile(summaryFile, humanSummary);
         files.push(summaryFile);
         
+        // Generate the templated analysis report
+        const reportFile = join(this.config.outputDir, `${baseFilename}_analysis_report.md`);
+        try {
+            await fs.writeFile(reportFile, await this.renderer.render(this.config.templates.report, templateContext));
+            files.push(reportFile);
+        } catch (error) {
+            log(`⚠️  Skipping analysis report (template "${this.config.templates.report}"): ${error.message}`);
+        }
+        
+        // Generate the self-contained HTML report
+        const htmlFile = join(this.config.outputDir, `${baseFilename}_report.html`);
+        try {
+            await fs.writeFile(htmlFile, await this.renderer.render(this.config.templates.html, templateContext, { escapeHtml: true }));
+            files.push(htmlFile);
+        } catch (error) {
+            log(`⚠️  Skipping HTML report (template "${this.config.templates.html}"): ${error.message}`);
+        }
+        
         // Generate individual signal files
         const externalFile = join(this.config.outputDir, `${baseFilename}_external_signals.json`);
         await fs.writeFile(externalFile, JSON.stringify(data.external, null, 2));
@@ -654,26 +1321,53 @@ Prioritize by impact and likelihood with mitigation strategies.`
             files: files.map(f => f.replace(this.config.outputDir + '/', '')),
             directory: this.config.outputDir,
             combinedReport: combinedReportFile,
-            humanSummary: summaryFile
+            humanSummary: summaryFile,
+            htmlReport: files.includes(htmlFile) ? htmlFile : null
         };
     }
     
     /**
-     * Generate human-readable summary
+     * Render the human-readable summary template, falling back to the built-in summary
+     */
+    async renderSummary(topic, productArea, data, context) {
+        try {
+            return await this.renderer.render(this.config.templates.summary, context);
+        } catch (error) {
+            log(`⚠️  Failed to render summary template "${this.config.templates.summary}", using built-in summary: ${error.message}`);
+            return this.generateHumanReadableSummary(topic, productArea, data);
+        }
+    }
+    
+    /**
+     * Generate human-readable summary (built-in fallback)
      */
     generateHumanReadableSummary(topic, productArea, data) {
         const date = new Date(data.metadata.timestamp);
         
-        // Include LLM synthesis if available
+        // Include LLM synthesis if available, one section per pipeline stage
         let llmSynthesisSection = '';
         if (data.insights.llmSynthesis && data.insights.llmSynthesis.content) {
+            const stageSections = (data.insights.llmSynthesis.stages || []).map(stage => stage.status === 'completed'
+                ? `### ${stage.title}\n\n${stage.content}\n\n*${stage.model} · ${stage.usage?.totalTokens ?? '?'} tokens · ${stage.executionTime}ms*`
+                : `### ${stage.title}\n\n*Stage ${stage.status}: ${stage.error}*`
+            ).join('\n\n');
+            const citations = data.insights.llmSynthesis.citations;
+            const evidenceSection = citations?.cited.length
+                ? `\n\n### Evidence\n${Object.values(citations.evidence).map((item: EvidenceItem) => {
+                    const location = item.url || (item.filePath ? `${item.filePath}${item.line ? `:${item.line}` : ''}${item.timestamp ? ` @ ${item.timestamp}` : ''}` : null);
+                    return `- **[${item.id}]** ${item.title} — ${item.source}${location ? ` (${location})` : ''}`;
+                }).join('\n')}`
+                : '';
+            const invalidSection = citations?.invalid.length
+                ? `\n\n*Unverified citations (no matching evidence): ${citations.invalid.map(id => `[${id}]`).join(' ')}*`
+                : '';
             llmSynthesisSection = `
 
 ## 🤖 AI Strategic Synthesis
 
-${data.insights.llmSynthesis.content}
+${stageSections}${evidenceSection}${invalidSection}
 
-*Generated by ${data.insights.llmSynthesis.model} in ${data.insights.llmSynthesis.executionTime}ms*
+*Generated by ${data.insights.llmSynthesis.model} in ${data.insights.llmSynthesis.executionTime}ms across ${data.insights.llmSynthesis.stages?.length || 1} stages (${data.insights.llmSynthesis.usage?.totalTokens ?? '?'} tokens)*
 
 ---`;
         } else if (data.insights.llmSynthesis && data.insights.llmSynthesis.error) {
@@ -698,9 +1392,9 @@ ${data.insights.llmSynthesis.fallback}
 ## Coverage Assessment
 - **Total Signals Collected**: ${data.metadata.totalSignals}
 - **Agent Success Rate**: ${data.metadata.successfulAgents}/${data.metadata.totalAgents} agents successful
-- **External Signals**: ${data.metadata.agentStatus.external ? '✅' : '❌'}
-- **Internal Research**: ${data.metadata.agentStatus.internal ? '✅' : '❌'}  
-- **Product Metrics**: ${data.metadata.agentStatus.product ? '✅' : '❌'}
+- **External Signals**: ${this.formatAgentOutcome(data.metadata, 'external')}
+- **Internal Research**: ${this.formatAgentOutcome(data.metadata, 'internal')}  
+- **Product Metrics**: ${this.formatAgentOutcome(data.metadata, 'product')}
 
 ## Key Insights Summary
 
@@ -709,7 +1403,12 @@ ${data.insights.qualityAssessment.signalReliability} reliability assessment - re
 
 ### Cross-Reference Opportunities
 ${data.insights.crossReferenceInsights.length} opportunities identified for cross-validation
+${data.insights.triangulation?.themes.length ? `
+### Triangulated Themes
+${data.insights.triangulation.counts.corroborated} corroborated, ${data.insights.triangulation.counts.contradicted} contradicted, ${data.insights.triangulation.counts['single-source']} single-source
 
+${formatTriangulation(data.insights.triangulation)}
+` : ''}
 ### Recommended Next Steps
 Complete AI agent synthesis using provided prompts
 - Review cross-reference opportunities for convergent signals
@@ -738,6 +1437,17 @@ ${data.insights.llmPrompts.riskAssessment}
 `;
     }
     
+    /**
+     * Format an agent's outcome for the human-readable summary
+     */
+    formatAgentOutcome(metadata: any, agentName: AgentName): string {
+        if (metadata.agentStatus[agentName]) {
+            return '✅';
+        }
+        const outcome = metadata.agentOutcomes?.[agentName];
+        return outcome ? `❌ ${outcome.status} - ${outcome.error}` : '❌';
+    }
+    
     /**
      * Ensure output directory exists
      */
@@ -755,6 +1465,13 @@ ${data.insights.llmPrompts.riskAssessment}
      * Get orchestrator status
      */
     async getStatus() {
+        let lastExecution = null;
+        try {
+            lastExecution = await this.runs.getLatest();
+        } catch (error) {
+            log('⚠️  Failed to read run history:', error.message);
+        }
+        
         return {
             status: 'ready',
             version: '1.0.0',
@@ -763,9 +1480,11 @@ ${data.insights.llmPrompts.riskAssessment}
                 internal: 'ready',
                 product: 'ready'
             },
+            connectors: await this.externalAgent.checkConnectorHealth(),
+            llm: this.describeLlm(),
             config: this.config,
             activeProcesses: 0,
-            lastExecution: null,
+            lastExecution,
             details: {
                 uptime: Date.now() - this.startTime || 0,
                 memoryUsage: process.memoryUsage(),
@@ -778,29 +1497,110 @@ ${data.insights.llmPrompts.riskAssessment}
      * Configure orchestrator
      */
     async configure(config: any) {
+        const { llmCache } = this.config;
         this.config = { ...this.config, ...config };
+        if (config.llmCache) {
+            this.config.llmCache = { ...llmCache, ...config.llmCache };
+        }
+        if (config.templates) {
+            this.config.templates = { ...DEFAULT_TEMPLATES, ...config.templates };
+        }
+        if (config.templateDir) {
+            this.renderer = new TemplateRenderer(config.templateDir);
+        }
+        if (config.execution) {
+            this.planner = new ExecutionPlanner(this.config.execution);
+        }
+        if (LLM_CONFIG_KEYS.some(key => key in config)) {
+            this.initializeLlmProvider();
+        }
         return {
             success: true,
             config: this.config
         };
     }
 
+    /**
+     * The active LLM provider, or why there is none
+     */
+    describeLlm() {
+        if (this.llm) {
+            return { ...this.llm.describe(), available: true, selection: this.config.llmProvider };
+        }
+        return {
+            name: null,
+            model: null,
+            endpoint: null,
+            available: false,
+            selection: this.config.llmProvider,
+            reason: this.config.llmProvider === 'auto' ? 'No LLM credentials configured' : `${this.config.llmProvider} provider is missing credentials`
+        };
+    }
+
     /**
      * Get orchestrator capabilities
      */
     async getCapabilities() {
+        const availableTemplates = await this.renderer.listTemplates();
+        
         return {
             version: '1.0.0',
             agents: ['external', 'internal', 'product'],
-            outputs: ['json', 'markdown', 'templates'],
-            formats: ['analysis-report', 'llm-synthesis-prompt'],
-            outputFormats: ['analysis-report', 'llm-synthesis-prompt'],
-            features: ['parallel-execution', 'retry-logic', 'template-generation'],
+            connectors: this.externalAgent.connectors.list().map(({ id, name, capabilities }) => ({ id, name, capabilities })),
+            outputs: ['json', 'markdown', 'html', 'templates'],
+            formats: availableTemplates,
+            outputFormats: availableTemplates,
+            templates: this.config.templates,
+            features: ['parallel-execution', 'bounded-concurrency', 'provider-quotas', 'run-history', 'run-diff', 'staged-synthesis', 'llm-providers', 'token-budgeting', 'llm-cache', 'run-chat', 'source-triangulation', 'weighted-confidence', 'source-connectors', 'feed-library', 'retry-logic', 'template-generation'],
             maxConcurrentAgents: 3,
+            executionModes: EXECUTION_MODES,
+            execution: this.planner.getConfig(),
+            llm: this.describeLlm(),
+            llmProviders: LLM_PROVIDERS,
             configOptions: {
                 retries: 'number (0-10)',
                 timeout: 'number (1000-300000ms)',
-                outputDir: 'string (directory path)'
+                outputDir: 'string (directory path)',
+                execution: {
+                    mode: EXECUTION_MODES.join(' | '),
+                    maxConcurrentAgents: 'number (1-3, bounded mode)',
+                    providerQuotas: 'object ({ newsapi|youtube|hackernews|reddit|github|amplitude|openai|summarization: { maxConcurrent, maxRequests } })'
+                },
+                templates: {
+                    prompt: `template name (default ${DEFAULT_TEMPLATES.prompt})`,
+                    summary: `template name (default ${DEFAULT_TEMPLATES.summary})`,
+                    report: `template name (default ${DEFAULT_TEMPLATES.report})`,
+                    html: `template name (default ${DEFAULT_TEMPLATES.html})`
+                },
+                connectors: `object ({ ${this.externalAgent.connectors.ids().join('|')}: boolean }) - switch external source connectors on or off`,
+                feedTags: 'string[] (e.g. competitor, analyst, community) - only feed library feeds with any of these tags; all enabled feeds by default',
+                customRssFeeds: 'string[] (feed URLs) - fetch these feeds instead of the feed library, without health tracking',
+                githubRepositories: 'string[] (owner/name) - repositories the GitHub connector reads issues, discussions and releases from',
+                reviewSources: {
+                    appStore: 'object[] ({ appId, country, name }) - App Store customer review feeds',
+                    vscodeMarketplace: 'string[] (publisher.extension) - VS Code Marketplace extension reviews',
+                    csvFiles: 'string[] (.csv paths inside REVIEW_IMPORT_DIR) - review CSV exports with rating and review text columns'
+                },
+                structuredSynthesis: 'boolean (default true) - request JSON from the strategic synthesis stage',
+                llmProvider: `${LLM_PROVIDERS.join(' | ')} (default auto: Azure, then OpenAI, then local, by configured credentials)`,
+                localLlmBaseUrl: 'string (OpenAI-compatible endpoint, e.g. http://localhost:11434/v1)',
+                localLlmModel: 'string (model name served by the local endpoint)',
+                tokenBudget: {
+                    contextWindow: 'number (tokens; default by provider: openai/azure 128000, local 8192, stub 32000)',
+                    maxOutputTokens: 'number (default 4000)',
+                    chunkTokens: 'number (largest chunk summarized per call, default 6000)',
+                    providers: 'object ({ openai|azure|local|stub: { contextWindow, maxOutputTokens, chunkTokens } })'
+                },
+                sourceWeights: {
+                    sources: 'object ({ external|internal|product: number 0-10 }, default 1 each)',
+                    types: 'object ({ <signal type, file type or metric type>: number 0-10 }, e.g. { news_article: 0.5, vtt: 2, usage_metrics: 1.5 })',
+                    recencyHalfLifeDays: 'number (default 30) - dated signals lose half their weight per half-life'
+                },
+                llmCache: {
+                    enabled: 'boolean (default true)',
+                    ttlMs: `number (default ${DEFAULT_CACHE_TTL_MS}ms)`,
+                    directory: 'string (default <outputDir>/llm-cache)'
+                }
             }
         };
     }
@@ -819,6 +1619,53 @@ ${data.insights.llmPrompts.riskAssessment}
             errors.push('timeout must be between 1000ms and 300000ms');
         }
         
+        if (config.execution?.mode && !EXECUTION_MODES.includes(config.execution.mode)) {
+            errors.push(`execution.mode must be one of ${EXECUTION_MODES.join(', ')}`);
+        }
+        if (config.execution?.maxConcurrentAgents && (config.execution.maxConcurrentAgents < 1 || config.execution.maxConcurrentAgents > 3)) {
+            errors.push('execution.maxConcurrentAgents must be between 1 and 3');
+        }
+        errors.push(...validateProviderQuotas(config.execution?.providerQuotas));
+        
+        const budgets = [config.tokenBudget, ...Object.values(config.tokenBudget?.providers || {})].filter(Boolean);
+        budgets.forEach((budget: any) => {
+            ['contextWindow', 'maxOutputTokens', 'chunkTokens'].forEach(key => {
+                if (budget[key] !== undefined && !(Number.isInteger(budget[key]) && budget[key] >= 256)) {
+                    errors.push(`tokenBudget.${key} must be an integer of at least 256`);
+                }
+            });
+        });
+        
+        errors.push(...validateSourceWeights(config.sourceWeights));
+        errors.push(...validateConnectorSelection(config.connectors, this.externalAgent.connectors));
+        if (config.feedTags !== undefined && !isFeedTagList(config.feedTags)) {
+            errors.push('feedTags must be a list of tags (lowercase letters, digits, - or _)');
+        }
+        errors.push(...validateGitHubRepositories(config.githubRepositories));
+        errors.push(...validateReviewSources(config.reviewSources));
+        
+        if (config.llmCache?.ttlMs !== undefined && !(Number.isInteger(config.llmCache.ttlMs) && config.llmCache.ttlMs > 0)) {
+            errors.push('llmCache.ttlMs must be a positive integer');
+        }
+        
+        if (config.llmProvider && !LLM_PROVIDERS.includes(config.llmProvider)) {
+            errors.push(`llmProvider must be one of ${LLM_PROVIDERS.join(', ')}`);
+        }
+        if (config.llmProvider === 'local' && !config.localLlmBaseUrl && !this.config.localLlmBaseUrl) {
+            warnings.push('llmProvider local without localLlmBaseUrl uses http://localhost:11434/v1');
+        }
+        
+        if (config.templates) {
+            const available = await this.renderer.listTemplates();
+            Object.entries(config.templates).forEach(([slot, name]) => {
+                if (!(slot in DEFAULT_TEMPLATES)) {
+                    errors.push(`templates.${slot} is not a template slot (expected ${Object.keys(DEFAULT_TEMPLATES).join(', ')})`);
+                } else if (!available.includes(name as string)) {
+                    errors.push(`templates.${slot}: template "${name}" not found (available: ${available.join(', ')})`);
+                }
+            });
+        }
+        
         if (config.outputDir && !config.outputDir.startsWith('./')) {
             warnings.push('outputDir should typically start with "./" for relative paths');
         }
@@ -0,0 +1,241 @@
+/**
+ * Run Chat - Follow-up questions answered from a completed run's evidence
+ *
+ * Questions are matched against the run's persisted external signals,
+ * internal findings and metric trends; the best matches (with their evidence
+ * ids) and the recent conversation go into a grounded prompt. Conversations
+ * are stored per run as JSON lines in `chats/<runId>.jsonl` under outputDir.
+ */
+
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { assignEvidenceIds, EvidenceItem } from './evidence.js';
+import { RunSnapshot } from './runDiff.js';
+import { TokenUsage } from './synthesisPipeline.js';
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: string;
+    // Assistant messages only
+    model?: string | null;
+    usage?: TokenUsage | null;
+    retrieved?: string[];
+    citations?: {
+        cited: string[];
+        invalid: string[];
+        evidence: { [id: string]: EvidenceItem };
+    };
+}
+
+export interface RetrievedEvidence {
+    item: EvidenceItem;
+    text: string;
+    score: number;
+}
+
+const CHAT_DIR = 'chats';
+export const MAX_QUESTION_LENGTH = 2000;
+// Evidence items and earlier messages included in each prompt
+const MAX_RETRIEVED = 12;
+const MAX_HISTORY_MESSAGES = 6;
+const MAX_ITEM_CHARS = 600;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'whom', 'how', 'why', 'when', 'where',
+    'did', 'does', 'about', 'with', 'that', 'this', 'these', 'those', 'from', 'they', 'them', 'their', 'there',
+    'have', 'has', 'had', 'say', 'said', 'any', 'our', 'you', 'your', 'can', 'could', 'would', 'should', 'into',
+    'than', 'then', 'its', 'not', 'but', 'all', 'more', 'most', 'some', 'much', 'many', 'tell'
+]);
+
+// One store per output directory so every orchestrator shares the same write queue
+const stores = new Map<string, ChatStore>();
+
+export class ChatStore {
+    private directory: string;
+    private pending: Promise<any> = Promise.resolve();
+
+    constructor(outputDir: string) {
+        this.directory = join(outputDir, CHAT_DIR);
+    }
+
+    /**
+     * Get the shared chat store for an output directory
+     */
+    static forDirectory(outputDir: string): ChatStore {
+        const key = resolve(outputDir);
+        if (!stores.has(key)) {
+            stores.set(key, new ChatStore(outputDir));
+        }
+        return stores.get(key);
+    }
+
+    /**
+     * Conversation of a run, oldest first
+     */
+    async list(runId: string): Promise<ChatMessage[]> {
+        return this.enqueue(() => this.load(runId));
+    }
+
+    /**
+     * Append messages to a run's conversation
+     */
+    async append(runId: string, messages: ChatMessage[]): Promise<void> {
+        return this.enqueue(async () => {
+            await fs.mkdir(this.directory, { recursive: true });
+            await fs.appendFile(this.fileFor(runId), messages.map(message => JSON.stringify(message) + '\n').join(''));
+        });
+    }
+
+    /**
+     * Remove a run's conversation; returns how many messages it had
+     */
+    async clear(runId: string): Promise<number> {
+        return this.enqueue(async () => {
+            const messages = await this.load(runId);
+            await fs.unlink(this.fileFor(runId)).catch(error => {
+                if (error.code !== 'ENOENT') {
+                    throw error;
+                }
+            });
+            return messages.length;
+        });
+    }
+
+    private async load(runId: string): Promise<ChatMessage[]> {
+        let content = '';
+        try {
+            content = await fs.readFile(this.fileFor(runId), 'utf-8');
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        return content
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => {
+                try {
+                    return JSON.parse(line);
+                } catch {
+                    console.warn(`⚠️  Skipping corrupt chat message for run ${runId}`);
+                    return null;
+                }
+            })
+            .filter(Boolean);
+    }
+
+    // Run ids are UUIDs; anything else is reduced to a safe filename
+    private fileFor(runId: string): string {
+        return join(this.directory, `${runId.replace(/[^a-zA-Z0-9-]/g, '_')}.jsonl`);
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.pending.then(task);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+}
+
+/**
+ * New chat message
+ */
+export function createMessage(role: ChatMessage['role'], content: string, details: Partial<ChatMessage> = {}): ChatMessage {
+    return { id: randomUUID(), role, content, timestamp: new Date().toISOString(), ...details };
+}
+
+/**
+ * Evidence of a run ranked by relevance to a question (keyword overlap,
+ * weighted so rare terms count more)
+ */
+export function retrieveEvidence(snapshot: RunSnapshot, question: string, limit: number = MAX_RETRIEVED): {
+    index: Map<string, EvidenceItem>;
+    results: RetrievedEvidence[];
+} {
+    const signals = { external: snapshot.external || {}, internal: snapshot.internal || {}, product: snapshot.product || {} };
+    // Ids are derived from each item's identity, so they match the ids the run's synthesis cited
+    const index = assignEvidenceIds(signals);
+
+    const documents = [
+        ...(signals.external.rankedSignals || []).map(signal => ({ id: signal.evidenceId, text: `${signal.title || ''}. ${signal.content || ''}` })),
+        ...(signals.internal.rankedFindings || []).map(finding => ({ id: finding.evidenceId, text: `${finding.content || ''}` })),
+        ...(signals.product.insights?.trends || []).map(trend => ({ id: trend.evidenceId, text: index.get(trend.evidenceId)?.excerpt || '' }))
+    ].map(document => ({ ...document, terms: new Set(tokenize(document.text)) }));
+
+    const questionTerms = [...new Set(tokenize(question))];
+    const documentFrequency = new Map(questionTerms.map(term => [
+        term,
+        documents.filter(document => document.terms.has(term)).length
+    ]));
+
+    const results = documents
+        .map(document => ({
+            item: index.get(document.id),
+            text: clip(document.text),
+            score: questionTerms
+                .filter(term => document.terms.has(term))
+                .reduce((total, term) => total + Math.log(1 + documents.length / documentFrequency.get(term)), 0)
+        }))
+        .filter(result => result.item && result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+    return { index, results };
+}
+
+/**
+ * Grounded prompt for a follow-up question
+ */
+export function buildChatPrompt(snapshot: RunSnapshot, question: string, retrieved: RetrievedEvidence[], history: ChatMessage[]): string {
+    const synthesis = snapshot.report?.llmSynthesis;
+    const overview = synthesis?.structured?.summary || (synthesis?.content ? clip(synthesis.content, 1500) : null);
+    const evidence = retrieved.length > 0
+        ? retrieved.map(({ item, text }) => `- [${item.id}] (${item.kind}, ${item.source}) ${text}`).join('\n')
+        : '- No gathered item matches this question.';
+    const conversation = history.slice(-MAX_HISTORY_MESSAGES)
+        .map(message => `**${message.role === 'user' ? 'Question' : 'Answer'}:** ${message.content}`)
+        .join('\n\n');
+
+    return `# Follow-up Question: ${snapshot.run.topic}
+
+You are answering follow-up questions about a completed Rule of Thirds analysis of ${snapshot.run.topic}${snapshot.run.productArea ? ` (${snapshot.run.productArea})` : ''}, run on ${snapshot.run.timestamp.substring(0, 10)}.
+${overview ? `\n## Synthesis Summary\n${overview}\n` : ''}
+## Relevant Evidence
+${evidence}
+${conversation ? `\n## Conversation So Far\n${conversation}\n` : ''}
+## Question
+${question}
+
+## Instructions
+Answer using only the evidence above. Cite the ids that support each statement in square brackets, e.g. [I-xxxxxx]. If the evidence does not answer the question, say so and suggest what data would. Keep the answer concise.`;
+}
+
+/**
+ * Answer built from the retrieved evidence when no LLM is configured
+ */
+export function fallbackAnswer(retrieved: RetrievedEvidence[]): string {
+    if (retrieved.length === 0) {
+        return 'No LLM provider is configured, and none of the gathered evidence matches this question.';
+    }
+    return `No LLM provider is configured, so here is the most relevant evidence from this run:\n\n${retrieved
+        .slice(0, 5)
+        .map(({ item, text }) => `- ${clip(text, 200)} [${item.id}]`)
+        .join('\n')}`;
+}
+
+function tokenize(text: string): string[] {
+    return (text || '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+        // Plural and singular forms match
+        .map(word => word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+function clip(text: string, length = MAX_ITEM_CHARS): string {
+    const value = (text || '').replace(/\s+/g, ' ').trim();
+    return value.length > length ? `${value.substring(0, length)}...` : value;
+}
@@ -0,0 +1,238 @@
+/**
+ * Run Diff - Compares two runs' persisted outputs
+ *
+ * Reports new and dropped external signals, new internal findings, metric
+ * trend direction changes and a line diff of the AI synthesis, so weekly
+ * reruns of a topic show what actually changed.
+ */
+
+import { RunRecord } from './runRepository.js';
+
+export interface RunSnapshot {
+    run: RunRecord;
+    external: any;
+    internal: any;
+    product: any;
+    report: any;
+}
+
+export interface TextDiffLine {
+    type: 'added' | 'removed' | 'unchanged';
+    text: string;
+}
+
+// Line diffs beyond this size fall back to a plain removed/added listing
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Diff a baseline run against a later run
+ */
+export function diffRuns(base: RunSnapshot, compare: RunSnapshot): any {
+    const externalDiff = diffByKey(
+        base.external?.rankedSignals || [],
+        compare.external?.rankedSignals || [],
+        signalKey
+    );
+    const internalDiff = diffByKey(
+        base.internal?.rankedFindings || [],
+        compare.internal?.rankedFindings || [],
+        findingKey
+    );
+    const trendDiff = diffTrends(
+        base.product?.insights?.trends || [],
+        compare.product?.insights?.trends || []
+    );
+    const synthesisDiff = diffText(
+        base.report?.llmSynthesis?.content || '',
+        compare.report?.llmSynthesis?.content || ''
+    );
+
+    return {
+        base: describeRun(base.run),
+        compare: describeRun(compare.run),
+        sameTopic: base.run.topic.toLowerCase() === compare.run.topic.toLowerCase(),
+        external: {
+            newSignals: externalDiff.added.map(summarizeSignal),
+            droppedSignals: externalDiff.removed.map(summarizeSignal),
+            unchangedCount: externalDiff.unchangedCount
+        },
+        internal: {
+            newFindings: internalDiff.added.map(summarizeFinding),
+            droppedFindings: internalDiff.removed.map(summarizeFinding),
+            unchangedCount: internalDiff.unchangedCount
+        },
+        product: trendDiff,
+        synthesis: {
+            available: {
+                base: Boolean(base.report?.llmSynthesis?.content),
+                compare: Boolean(compare.report?.llmSynthesis?.content)
+            },
+            changed: synthesisDiff.some(line => line.type !== 'unchanged'),
+            lines: synthesisDiff
+        },
+        summary: {
+            newSignals: externalDiff.added.length,
+            droppedSignals: externalDiff.removed.length,
+            newFindings: internalDiff.added.length,
+            directionChanges: trendDiff.directionChanges.length
+        }
+    };
+}
+
+/**
+ * Line-level diff of two texts (longest common subsequence)
+ */
+export function diffText(before: string, after: string): TextDiffLine[] {
+    const a = before ? before.split('\n') : [];
+    const b = after ? after.split('\n') : [];
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [
+            ...a.map(text => ({ type: 'removed' as const, text })),
+            ...b.map(text => ({ type: 'added' as const, text }))
+        ];
+    }
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: TextDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'unchanged', text: a[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            lines.push({ type: 'removed', text: a[i++] });
+        } else {
+            lines.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) {
+        lines.push({ type: 'removed', text: a[i++] });
+    }
+    while (j < b.length) {
+        lines.push({ type: 'added', text: b[j++] });
+    }
+
+    return lines;
+}
+
+function diffByKey(before: any[], after: any[], keyFn: (item: any) => string) {
+    const beforeKeys = new Set(before.map(keyFn));
+    const afterKeys = new Set(after.map(keyFn));
+
+    return {
+        added: after.filter(item => !beforeKeys.has(keyFn(item))),
+        removed: before.filter(item => !afterKeys.has(keyFn(item))),
+        unchangedCount: after.filter(item => beforeKeys.has(keyFn(item))).length
+    };
+}
+
+/**
+ * Compare metric trends, keyed by source type and metric name
+ */
+function diffTrends(before: any[], after: any[]) {
+    const beforeByKey = new Map(before.map(trend => [trendKey(trend), trend]));
+    const afterKeys = new Set(after.map(trendKey));
+
+    const directionChanges = [];
+    const unchanged = [];
+    const newTrends = [];
+
+    after.forEach(trend => {
+        const previous = beforeByKey.get(trendKey(trend));
+        if (!previous) {
+            newTrends.push(trend);
+        } else if (previous.direction !== trend.direction) {
+            directionChanges.push({
+                metric: trend.metric,
+                sourceType: trend.sourceType,
+                from: previous.direction,
+                to: trend.direction,
+                previousPercentChange: previous.percentChange,
+                percentChange: trend.percentChange
+            });
+        } else {
+            unchanged.push({
+                metric: trend.metric,
+                sourceType: trend.sourceType,
+                direction: trend.direction,
+                previousPercentChange: previous.percentChange,
+                percentChange: trend.percentChange
+            });
+        }
+    });
+
+    return {
+        directionChanges,
+        unchanged,
+        newTrends,
+        droppedTrends: before.filter(trend => !afterKeys.has(trendKey(trend)))
+    };
+}
+
+/**
+ * Identity of an external signal across runs
+ */
+export function signalKey(signal: any): string {
+    return signal.url || `${signal.type}:${normalize(signal.title)}`;
+}
+
+/**
+ * Identity of an internal finding across runs
+ */
+export function findingKey(finding: any): string {
+    return `${finding.source}:${normalize(finding.content)}`;
+}
+
+/**
+ * Identity of a metric trend across runs
+ */
+export function trendKey(trend: any): string {
+    return `${trend.sourceType}:${trend.metric}`;
+}
+
+// Connectors emit null titles and contents as well as missing ones
+function normalize(text: string | null | undefined): string {
+    return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function summarizeSignal(signal: any) {
+    return {
+        type: signal.type,
+        title: signal.title,
+        url: signal.url,
+        source: signal.source || signal.channel || signal.feedTitle,
+        publishedAt: signal.publishedAt,
+        score: signal.combinedScore
+    };
+}
+
+function summarizeFinding(finding: any) {
+    return {
+        type: finding.type,
+        content: finding.content,
+        source: finding.source,
+        score: finding.combinedScore
+    };
+}
+
+function describeRun(run: RunRecord) {
+    return {
+        id: run.id,
+        topic: run.topic,
+        productArea: run.productArea,
+        timestamp: run.timestamp,
+        status: run.status
+    };
+}
@@ -0,0 +1,252 @@
+/**
+ * Run Repository - JSON-lines index of orchestration runs under outputDir
+ *
+ * Each run is appended to `runs.jsonl` with its topic, product area, agent
+ * status and the output files it produced, so earlier analyses can be listed,
+ * fetched and deleted without parsing timestamped filenames.
+ */
+
+import { promises as fs } from 'fs';
+import { basename, isAbsolute, join, relative, resolve } from 'path';
+
+export type RunStatus = 'completed' | 'partial' | 'failed' | 'cancelled';
+
+export interface RunRecord {
+    id: string;
+    topic: string;
+    productArea: string | null;
+    timestamp: string;
+    completedAt: string;
+    status: RunStatus;
+    error: string | null;
+    executionTime: number;
+    totalSignals: number;
+    agentStatus: { [agent: string]: string };
+    files: string[];
+}
+
+export interface RunFile {
+    name: string;
+    size: number;
+    modifiedAt: string;
+}
+
+const INDEX_FILE = 'runs.jsonl';
+
+// One repository per output directory so every orchestrator shares the same write queue
+const repositories = new Map<string, RunRepository>();
+
+export class RunRepository {
+    private outputDir: string;
+    private indexFile: string;
+    private runs: RunRecord[] | null = null;
+    private pending: Promise<any> = Promise.resolve();
+
+    constructor(outputDir: string) {
+        this.outputDir = outputDir;
+        this.indexFile = join(outputDir, INDEX_FILE);
+    }
+
+    /**
+     * Get the shared repository for an output directory
+     */
+    static forDirectory(outputDir: string): RunRepository {
+        const key = resolve(outputDir);
+        if (!repositories.has(key)) {
+            repositories.set(key, new RunRepository(outputDir));
+        }
+        return repositories.get(key);
+    }
+
+    /**
+     * Append a run to the index
+     */
+    async record(run: RunRecord): Promise<RunRecord> {
+        return this.enqueue(async () => {
+            const runs = await this.load();
+            await fs.mkdir(this.outputDir, { recursive: true });
+            await fs.appendFile(this.indexFile, JSON.stringify(run) + '\n');
+            runs.push(run);
+            return run;
+        });
+    }
+
+    /**
+     * List runs, newest first, optionally filtered by topic
+     */
+    async list(options: { topic?: string; limit?: number } = {}): Promise<RunRecord[]> {
+        const runs = await this.enqueue(() => this.load());
+        const topic = options.topic?.toLowerCase();
+
+        const matching = runs
+            .filter(run => !topic || run.topic.toLowerCase().includes(topic))
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+        return options.limit ? matching.slice(0, options.limit) : matching;
+    }
+
+    /**
+     * Get a run by id
+     */
+    async get(id: string): Promise<RunRecord | null> {
+        const runs = await this.enqueue(() => this.load());
+        return runs.find(run => run.id === id) || null;
+    }
+
+    /**
+     * Most recent run, if any
+     */
+    async getLatest(): Promise<RunRecord | null> {
+        const [latest] = await this.list({ limit: 1 });
+        return latest || null;
+    }
+
+    /**
+     * Read and parse one of a run's JSON output files
+     */
+    async readJsonFile(run: RunRecord, suffix: string): Promise<any> {
+        const file = run.files.find(name => name.endsWith(suffix));
+        if (!file) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(await fs.readFile(join(this.outputDir, file), 'utf-8'));
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Output files of a run that still exist on disk
+     */
+    async listFiles(run: RunRecord): Promise<RunFile[]> {
+        const files = await Promise.all(run.files.map(async name => {
+            const path = this.resolveFile(run, name);
+            if (!path) {
+                return null;
+            }
+            try {
+                const stats = await fs.stat(path);
+                return { name: basename(path), size: stats.size, modifiedAt: stats.mtime.toISOString() };
+            } catch (error) {
+                if (error.code === 'ENOENT') {
+                    return null;
+                }
+                throw error;
+            }
+        }));
+        return files.filter(Boolean);
+    }
+
+    /**
+     * Absolute path of one of a run's output files, or null when the name is not
+     * one of its files or would resolve outside outputDir
+     */
+    resolveFile(run: RunRecord, name: string): string | null {
+        if (!name || !run.files.some(file => basename(file) === name)) {
+            return null;
+        }
+
+        const root = resolve(this.outputDir);
+        const path = resolve(root, name);
+        const relativePath = relative(root, path);
+        if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath) || relativePath !== basename(relativePath)) {
+            return null;
+        }
+        return path;
+    }
+
+    /**
+     * Load the persisted agent outputs and combined report of a run
+     */
+    async loadSnapshot(run: RunRecord) {
+        const [external, internal, product, report] = await Promise.all([
+            this.readJsonFile(run, '_external_signals.json'),
+            this.readJsonFile(run, '_internal_signals.json'),
+            this.readJsonFile(run, '_product_signals.json'),
+            this.readJsonFile(run, '_combined_insight_report.json')
+        ]);
+        return { run, external, internal, product, report };
+    }
+
+    /**
+     * Remove a run and its output files; returns the removed run or null if unknown
+     */
+    async delete(id: string): Promise<RunRecord | null> {
+        return this.enqueue(async () => {
+            const runs = await this.load();
+            const index = runs.findIndex(run => run.id === id);
+            if (index < 0) {
+                return null;
+            }
+
+            const run = runs[index];
+
+            // Only plain filenames are stored, so deletes stay inside outputDir
+            await Promise.all(run.files.map(file =>
+                fs.unlink(join(this.outputDir, basename(file))).catch(error => {
+                    if (error.code !== 'ENOENT') {
+                        throw error;
+                    }
+                })
+            ));
+
+            // Drop the cached run only once the index on disk no longer lists it
+            await this.rewrite(runs.filter(other => other !== run));
+            runs.splice(index, 1);
+            return run;
+        });
+    }
+
+    /**
+     * Load the index, skipping lines that fail to parse
+     */
+    private async load(): Promise<RunRecord[]> {
+        if (this.runs) {
+            return this.runs;
+        }
+
+        let content = '';
+        try {
+            content = await fs.readFile(this.indexFile, 'utf-8');
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        this.runs = content
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => {
+                try {
+                    return JSON.parse(line);
+                } catch {
+                    console.warn(`⚠️  Skipping corrupt run index entry in ${this.indexFile}`);
+                    return null;
+                }
+            })
+            .filter(Boolean);
+
+        return this.runs;
+    }
+
+    private async rewrite(runs: RunRecord[]): Promise<void> {
+        const tempFile = `${this.indexFile}.tmp`;
+        await fs.writeFile(tempFile, runs.map(run => JSON.stringify(run) + '\n').join(''));
+        await fs.rename(tempFile, this.indexFile);
+    }
+
+    /**
+     * Serialize index access so appends and rewrites never interleave
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.pending.then(task);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+}
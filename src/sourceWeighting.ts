@@ -0,0 +1,244 @@
+/**
+ * Source Weighting - How much each source and source type is trusted
+ *
+ * The method treats the three sources as equal thirds by default. Teams can
+ * weight a whole source (e.g. telemetry over news) or a source type: an
+ * external signal type (news_article, youtube_video, rss_article), an internal
+ * file type (md, txt, vtt) or a metric type (usage_metrics, performance_metrics).
+ * Dated items lose weight with age (half-life in days).
+ *
+ * Weights feed two scores:
+ * - source strength: weighted, recency-adjusted evidence volume per source
+ * - theme confidence: source agreement, signal strength and recency of the
+ *   items supporting a triangulated theme
+ */
+
+import { AgentName } from './events.js';
+
+export interface SourceWeightsConfig {
+    sources?: { [source in AgentName]?: number };
+    types?: { [type: string]: number };
+    recencyHalfLifeDays?: number;
+}
+
+export interface SourceWeights {
+    sources: { [source in AgentName]: number };
+    types: { [type: string]: number };
+    recencyHalfLifeDays: number;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface WeightedItem {
+    source: AgentName;
+    type: string | null;
+    publishedAt: string | null;
+}
+
+export interface ThemeConfidence {
+    score: number;
+    level: ConfidenceLevel;
+    // Weighted share of the three sources backing the theme's majority stance, less any opposing
+    agreement: number;
+    // Weighted volume of supporting items
+    strength: number;
+    // Weighted mean freshness of supporting items (1 for undated items)
+    recency: number;
+}
+
+export interface SourceStrength {
+    source: AgentName;
+    strength: 'strong' | 'medium' | 'weak';
+    count: number;
+    score: number;
+    weight: number;
+}
+
+export const DEFAULT_SOURCE_WEIGHTS: SourceWeights = {
+    sources: { external: 1, internal: 1, product: 1 },
+    types: {},
+    recencyHalfLifeDays: 30
+};
+
+const MAX_WEIGHT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Weighted items at which strength reaches about 63%
+const SOURCE_STRENGTH_SCALE = 5;
+const THEME_STRENGTH_SCALE = 3;
+const CONFIDENCE_COMPONENTS = { agreement: 0.5, strength: 0.3, recency: 0.2 };
+
+/**
+ * Weights from the defaults and config
+ */
+export function resolveSourceWeights(config: SourceWeightsConfig = {}): SourceWeights {
+    return {
+        sources: { ...DEFAULT_SOURCE_WEIGHTS.sources, ...(config.sources || {}) },
+        types: {
+            ...DEFAULT_SOURCE_WEIGHTS.types,
+            // File types may be given as extensions (".md")
+            ...Object.fromEntries(Object.entries(config.types || {}).map(([type, weight]) => [type.replace(/^\./, ''), weight]))
+        },
+        recencyHalfLifeDays: config.recencyHalfLifeDays || DEFAULT_SOURCE_WEIGHTS.recencyHalfLifeDays
+    };
+}
+
+/**
+ * Configuration errors, for validateConfig
+ */
+export function validateSourceWeights(config: any): string[] {
+    if (config === undefined || config === null) {
+        return [];
+    }
+    if (typeof config !== 'object') {
+        return ['sourceWeights must be an object'];
+    }
+
+    const errors = [];
+    const isWeight = (value: any) => typeof value === 'number' && value >= 0 && value <= MAX_WEIGHT;
+    Object.entries(config.sources || {}).forEach(([source, weight]) => {
+        if (!['external', 'internal', 'product'].includes(source)) {
+            errors.push(`sourceWeights.sources.${source} is not a source (expected external, internal, product)`);
+        } else if (!isWeight(weight)) {
+            errors.push(`sourceWeights.sources.${source} must be a number between 0 and ${MAX_WEIGHT}`);
+        }
+    });
+    Object.entries(config.types || {}).forEach(([type, weight]) => {
+        if (!isWeight(weight)) {
+            errors.push(`sourceWeights.types.${type} must be a number between 0 and ${MAX_WEIGHT}`);
+        }
+    });
+    const sources = { ...DEFAULT_SOURCE_WEIGHTS.sources, ...(config.sources || {}) };
+    if ((['external', 'internal', 'product'] as AgentName[]).every(source => sources[source] === 0)) {
+        errors.push('sourceWeights.sources cannot all be 0');
+    }
+    if (config.recencyHalfLifeDays !== undefined && !(typeof config.recencyHalfLifeDays === 'number' && config.recencyHalfLifeDays > 0)) {
+        errors.push('sourceWeights.recencyHalfLifeDays must be a positive number');
+    }
+    return errors;
+}
+
+/**
+ * Trust in one item: its source's weight times its type's weight
+ */
+export function itemWeight(item: WeightedItem, weights: SourceWeights): number {
+    return weights.sources[item.source] * (item.type && item.type in weights.types ? weights.types[item.type] : 1);
+}
+
+/**
+ * Freshness between 0 and 1, halving every recencyHalfLifeDays (1 for undated items)
+ */
+export function recencyFactor(publishedAt: string | null, weights: SourceWeights, now: number = Date.now()): number {
+    const time = publishedAt ? new Date(publishedAt).getTime() : NaN;
+    if (isNaN(time)) {
+        return 1;
+    }
+    const ageDays = Math.max(now - time, 0) / DAY_MS;
+    return Math.pow(0.5, ageDays / weights.recencyHalfLifeDays);
+}
+
+/**
+ * A finding's file type without the extension's dot (md, vtt), as weights are keyed
+ */
+export function fileType(finding: any): string | null {
+    const extension = finding.metadata?.fileType;
+    return extension ? String(extension).replace(/^\./, '').toLowerCase() : null;
+}
+
+/**
+ * Type and date of every gathered item, by source
+ */
+export function weightedItems(signals: any): { [source in AgentName]: WeightedItem[] } {
+    return {
+        external: (signals.external?.rankedSignals || []).map(signal => ({
+            source: 'external' as AgentName,
+            type: signal.type || null,
+            publishedAt: signal.publishedAt || null
+        })),
+        internal: (signals.internal?.rankedFindings || []).map(finding => ({
+            source: 'internal' as AgentName,
+            type: fileType(finding),
+            publishedAt: null
+        })),
+        product: (signals.product?.insights?.trends || []).map(trend => ({
+            source: 'product' as AgentName,
+            type: trend.sourceType || null,
+            publishedAt: null
+        }))
+    };
+}
+
+/**
+ * Strength of each source from its weighted, recency-adjusted items
+ * (an agent that did not succeed has no strength)
+ */
+export function scoreSourceStrength(signals: any, weights: SourceWeights, now: number = Date.now()): SourceStrength[] {
+    const items = weightedItems(signals);
+
+    return (['external', 'internal', 'product'] as AgentName[]).map(source => {
+        const succeeded = signals[source]?.status === 'success';
+        const weighted = succeeded
+            ? items[source].reduce((total, item) => total + itemWeight(item, weights) * recencyFactor(item.publishedAt, weights, now), 0)
+            : 0;
+        const score = round(1 - Math.exp(-weighted / SOURCE_STRENGTH_SCALE));
+
+        return {
+            source,
+            strength: score >= 0.7 ? 'strong' : score >= 0.35 ? 'medium' : 'weak',
+            count: succeeded ? items[source].length : 0,
+            score,
+            weight: weights.sources[source]
+        };
+    });
+}
+
+/**
+ * Confidence in a theme from the stance of each source that supports it and
+ * the items behind it
+ */
+export function scoreThemeConfidence(
+    support: { [source in AgentName]?: { stance: 'positive' | 'negative' | 'neutral'; items: WeightedItem[] } },
+    weights: SourceWeights,
+    now: number = Date.now()
+): ThemeConfidence {
+    const sources = Object.keys(support) as AgentName[];
+    const totalSourceWeight = Object.values(weights.sources).reduce((total, weight) => total + weight, 0);
+    const weightOf = (stance: string) => sources
+        .filter(source => support[source].stance === stance)
+        .reduce((total, source) => total + weights.sources[source], 0);
+
+    // Neutral sources back whichever side leads
+    const positive = weightOf('positive');
+    const negative = weightOf('negative');
+    const agreement = totalSourceWeight > 0
+        ? Math.max(Math.max(positive, negative) + weightOf('neutral') - Math.min(positive, negative), 0) / totalSourceWeight
+        : 0;
+
+    const items = sources.flatMap(source => support[source].items);
+    const itemWeights = items.map(item => itemWeight(item, weights));
+    const totalItemWeight = itemWeights.reduce((total, weight) => total + weight, 0);
+    const strength = 1 - Math.exp(-totalItemWeight / THEME_STRENGTH_SCALE);
+    const recency = totalItemWeight > 0
+        ? items.reduce((total, item, index) => total + itemWeights[index] * recencyFactor(item.publishedAt, weights, now), 0) / totalItemWeight
+        : 0;
+
+    const score = round(
+        CONFIDENCE_COMPONENTS.agreement * agreement +
+        CONFIDENCE_COMPONENTS.strength * strength +
+        CONFIDENCE_COMPONENTS.recency * recency
+    );
+    return {
+        score,
+        level: confidenceLevel(score),
+        agreement: round(agreement),
+        strength: round(strength),
+        recency: round(recency)
+    };
+}
+
+export function confidenceLevel(score: number): ConfidenceLevel {
+    return score >= 0.65 ? 'high' : score >= 0.4 ? 'medium' : 'low';
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
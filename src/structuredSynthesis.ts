@@ -0,0 +1,295 @@
+/**
+ * Structured Synthesis - JSON schema, validation and repair for the strategic synthesis
+ *
+ * The primary synthesis stage asks the LLM for a JSON object (key trends,
+ * critical findings, recommendations with confidence, risks, open questions).
+ * Responses are parsed leniently, repaired where the intent is unambiguous
+ * (code fences, trailing commas, "High" vs "high", a string where a list was
+ * expected) and then validated; anything still invalid is reported as errors.
+ */
+
+export type Confidence = 'high' | 'medium' | 'low';
+export type Horizon = 'immediate' | 'short-term' | 'long-term';
+
+export interface SynthesisRecommendation {
+    action: string;
+    horizon: Horizon;
+    confidence: Confidence;
+    rationale: string;
+}
+
+export interface SynthesisRisk {
+    risk: string;
+    severity: Confidence;
+    mitigation: string;
+}
+
+export interface StructuredSynthesis {
+    summary: string;
+    keyTrends: string[];
+    criticalFindings: string[];
+    recommendations: SynthesisRecommendation[];
+    risks: SynthesisRisk[];
+    openQuestions: string[];
+}
+
+export interface SynthesisValidation {
+    valid: boolean;
+    data: StructuredSynthesis | null;
+    errors: string[];
+    // Fixes applied to the raw response, e.g. "recommendations[0].confidence: High -> high"
+    repairs: string[];
+}
+
+const LEVELS: Confidence[] = ['high', 'medium', 'low'];
+const HORIZONS: Horizon[] = ['immediate', 'short-term', 'long-term'];
+const STRING_LISTS = ['keyTrends', 'criticalFindings', 'openQuestions'];
+
+/**
+ * JSON schema sent to the LLM with the primary synthesis prompt
+ */
+export const SYNTHESIS_SCHEMA = {
+    type: 'object',
+    required: ['summary', 'keyTrends', 'criticalFindings', 'recommendations', 'risks', 'openQuestions'],
+    properties: {
+        summary: { type: 'string', description: 'Executive summary in 2-3 sentences' },
+        keyTrends: { type: 'array', items: { type: 'string' }, description: 'Trends supported by the signals' },
+        criticalFindings: { type: 'array', items: { type: 'string' }, description: 'Findings that need leadership attention' },
+        recommendations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['action', 'horizon', 'confidence', 'rationale'],
+                properties: {
+                    action: { type: 'string' },
+                    horizon: { enum: HORIZONS },
+                    confidence: { enum: LEVELS },
+                    rationale: { type: 'string', description: 'Which signals support this, and where they agree or conflict' }
+                }
+            }
+        },
+        risks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['risk', 'severity', 'mitigation'],
+                properties: {
+                    risk: { type: 'string' },
+                    severity: { enum: LEVELS },
+                    mitigation: { type: 'string' }
+                }
+            }
+        },
+        openQuestions: { type: 'array', items: { type: 'string' }, description: 'Gaps the data cannot answer yet' }
+    }
+};
+
+/**
+ * Response format instructions appended to the primary synthesis prompt
+ */
+export function structuredPromptInstructions(): string {
+    return `## Response Format
+Respond with a single JSON object and nothing else - no markdown, no code fences. It must match this JSON schema:
+
+${JSON.stringify(SYNTHESIS_SCHEMA, null, 2)}
+
+Cover the analysis requested above within these fields, keeping evidence citations such as [E-xxxxxx] inline in the text.`;
+}
+
+/**
+ * Prompt asking the LLM to fix a response that failed validation
+ */
+export function repairPrompt(response: string, errors: string[]): string {
+    return `The JSON below does not match the required schema.
+
+Errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON object only, keeping the original content wherever possible.
+
+Schema:
+${JSON.stringify(SYNTHESIS_SCHEMA, null, 2)}
+
+JSON:
+${response}`;
+}
+
+/**
+ * Parse, repair and validate an LLM response against SYNTHESIS_SCHEMA
+ */
+export function validateSynthesis(response: string): SynthesisValidation {
+    const repairs: string[] = [];
+    const parsed = parseJson(response, repairs);
+
+    if (parsed === undefined) {
+        return { valid: false, data: null, errors: ['Response is not valid JSON'], repairs };
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { valid: false, data: null, errors: ['Response must be a JSON object'], repairs };
+    }
+
+    const errors: string[] = [];
+    const data: any = {};
+
+    data.summary = toText(parsed.summary, 'summary', repairs);
+    if (!data.summary) {
+        errors.push('summary is required and must be a non-empty string');
+    }
+
+    STRING_LISTS.forEach(field => {
+        data[field] = toList(parsed[field], field, errors, repairs)
+            .map((item, index) => toText(item, `${field}[${index}]`, repairs))
+            .filter(Boolean);
+    });
+
+    data.recommendations = toList(parsed.recommendations, 'recommendations', errors, repairs)
+        .map((item, index) => {
+            const path = `recommendations[${index}]`;
+            const action = toText(item?.action, `${path}.action`, repairs);
+            if (!action) {
+                repairs.push(`${path}: dropped (no action)`);
+                return null;
+            }
+            return {
+                action,
+                horizon: toEnum(item.horizon, HORIZONS, `${path}.horizon`, errors, repairs),
+                confidence: toEnum(item.confidence, LEVELS, `${path}.confidence`, errors, repairs),
+                rationale: toText(item.rationale, `${path}.rationale`, repairs)
+            };
+        })
+        .filter(Boolean);
+
+    data.risks = toList(parsed.risks, 'risks', errors, repairs)
+        .map((item, index) => {
+            const path = `risks[${index}]`;
+            const risk = toText(item?.risk, `${path}.risk`, repairs);
+            if (!risk) {
+                repairs.push(`${path}: dropped (no risk)`);
+                return null;
+            }
+            return {
+                risk,
+                severity: toEnum(item.severity, LEVELS, `${path}.severity`, errors, repairs),
+                mitigation: toText(item.mitigation, `${path}.mitigation`, repairs)
+            };
+        })
+        .filter(Boolean);
+
+    return { valid: errors.length === 0, data: errors.length === 0 ? data : null, errors, repairs };
+}
+
+/**
+ * Markdown rendering of a structured synthesis, used wherever text is expected
+ * (summary files, later pipeline stages, run diffs)
+ */
+export function formatSynthesisMarkdown(synthesis: StructuredSynthesis): string {
+    const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None identified';
+    const recommendations = synthesis.recommendations.length > 0
+        ? synthesis.recommendations.map(item =>
+            `- **${item.action}** (${item.horizon}, ${item.confidence} confidence)${item.rationale ? ` - ${item.rationale}` : ''}`
+        ).join('\n')
+        : '- None identified';
+    const risks = synthesis.risks.length > 0
+        ? synthesis.risks.map(item =>
+            `- **${item.risk}** (${item.severity} severity)${item.mitigation ? ` - Mitigation: ${item.mitigation}` : ''}`
+        ).join('\n')
+        : '- None identified';
+
+    return `## Executive Summary
+${synthesis.summary}
+
+## Key Trends
+${list(synthesis.keyTrends)}
+
+## Critical Findings
+${list(synthesis.criticalFindings)}
+
+## Recommendations
+${recommendations}
+
+## Risks
+${risks}
+
+## Open Questions
+${list(synthesis.openQuestions)}`;
+}
+
+/**
+ * Parse JSON, tolerating code fences, surrounding prose and trailing commas.
+ * Returns undefined when nothing parseable is found.
+ */
+function parseJson(response: string, repairs: string[]): any {
+    const text = (response || '').trim();
+    try {
+        return JSON.parse(text);
+    } catch {
+        // fall through to the repairs below
+    }
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) {
+        return undefined;
+    }
+
+    const candidates = [text.slice(start, end + 1)];
+    candidates.push(candidates[0].replace(/,(\s*[}\]])/g, '$1'));
+
+    for (const [index, candidate] of candidates.entries()) {
+        try {
+            const parsed = JSON.parse(candidate);
+            repairs.push(index === 0 ? 'extracted the JSON object from surrounding text' : 'removed trailing commas');
+            return parsed;
+        } catch {
+            // try the next candidate
+        }
+    }
+    return undefined;
+}
+
+function toText(value: any, path: string, repairs: string[]): string {
+    if (typeof value === 'string') {
+        return value.trim();
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        repairs.push(`${path}: converted ${typeof value} to string`);
+        return String(value);
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        repairs.push(`${path}: joined list into a string`);
+        return value.join(' ').trim();
+    }
+    if (value && typeof value === 'object') {
+        // e.g. { "trend": "...", "evidence": "..." } where a plain string was expected
+        const text = Object.values(value).filter(item => typeof item === 'string').join(' - ').trim();
+        if (text) {
+            repairs.push(`${path}: flattened object into a string`);
+        }
+        return text;
+    }
+    return '';
+}
+
+function toList(value: any, path: string, errors: string[], repairs: string[]): any[] {
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (value === undefined || value === null) {
+        errors.push(`${path} is required and must be an array`);
+        return [];
+    }
+    repairs.push(`${path}: wrapped single value in a list`);
+    return [value];
+}
+
+function toEnum<T extends string>(value: any, allowed: T[], path: string, errors: string[], repairs: string[]): T {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : '';
+    if (allowed.includes(normalized as T)) {
+        if (normalized !== value) {
+            repairs.push(`${path}: ${value} -> ${normalized}`);
+        }
+        return normalized as T;
+    }
+    errors.push(`${path} must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})`);
+    return allowed[allowed.length - 1];
+}
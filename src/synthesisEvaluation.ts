@@ -0,0 +1,440 @@
+/**
+ * Synthesis Evaluation - Replays stored runs through the synthesis with
+ * different prompts and providers and scores the results
+ *
+ * Each variant is an orchestrator configuration (templates, template
+ * directory, LLM provider, token budget...). The signals a run persisted are
+ * synthesized again under every variant and each synthesis is scored on:
+ * - citationValidity: share of cited ids that match gathered evidence
+ * - sourceCoverage: share of the sources with evidence that are cited
+ * - schemaCompliance: strategic synthesis JSON valid as returned (1), after
+ *   repair (0.75) or not at all (0); not scored for markdown-only variants
+ * - length: 1 within the target word range, proportionally less outside it
+ * The overall score is the mean of the scores that apply.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { AgentName } from './events.js';
+import { assignEvidenceIds, EvidenceKind } from './evidence.js';
+import { RuleOfThirdsOrchestrator } from './orchestrator.js';
+import { RunRecord, RunRepository } from './runRepository.js';
+import { TokenUsage, totalUsage } from './synthesisPipeline.js';
+
+export interface EvaluationVariant {
+    name: string;
+    description?: string;
+    // Orchestrator configuration for this variant (LLM caching is off unless enabled here)
+    config?: any;
+}
+
+export interface EvaluationCase {
+    run: RunRecord;
+    signals: { [source in AgentName]: any };
+    metadata: any;
+}
+
+export interface LengthTarget {
+    minWords: number;
+    maxWords: number;
+}
+
+export interface SynthesisScores {
+    citationValidity: number | null;
+    sourceCoverage: number | null;
+    schemaCompliance: number | null;
+    length: number | null;
+    overall: number | null;
+}
+
+export interface CaseEvaluation {
+    runId: string;
+    topic: string;
+    status: 'scored' | 'failed';
+    error: string | null;
+    scores: SynthesisScores;
+    details: {
+        model: string | null;
+        cited: number;
+        invalid: number;
+        citedSources: EvidenceKind[];
+        availableSources: EvidenceKind[];
+        words: number;
+        stagesCompleted: number;
+        stages: number;
+        repairs: string[];
+        validationErrors: string[];
+    } | null;
+    usage: TokenUsage | null;
+    executionTime: number;
+}
+
+export interface VariantEvaluation {
+    name: string;
+    description: string | null;
+    provider: string | null;
+    model: string | null;
+    cases: CaseEvaluation[];
+    averages: SynthesisScores;
+    failures: number;
+    usage: TokenUsage | null;
+    executionTime: number;
+}
+
+export interface EvaluationReport {
+    generatedAt: string;
+    lengthTarget: LengthTarget;
+    runs: { id: string; topic: string; productArea: string | null; timestamp: string }[];
+    variants: VariantEvaluation[];
+    // Variant with the highest average overall score
+    best: string | null;
+}
+
+// Bundled prompt templates against the built-in prompts, on the offline stub provider
+export const DEFAULT_VARIANTS: EvaluationVariant[] = [
+    {
+        name: 'bundled-templates',
+        description: 'Prompts rendered from templates/',
+        config: { llmProvider: 'stub' }
+    },
+    {
+        name: 'built-in-prompt',
+        description: 'Built-in strategic synthesis prompt (no template of that name exists)',
+        config: { llmProvider: 'stub', templates: { prompt: 'built-in' } }
+    }
+];
+
+export const DEFAULT_LENGTH_TARGET: LengthTarget = { minWords: 150, maxWords: 1200 };
+
+const SCORE_NAMES: (keyof SynthesisScores)[] = ['citationValidity', 'sourceCoverage', 'schemaCompliance', 'length', 'overall'];
+const SOURCE_KINDS: EvidenceKind[] = ['external', 'internal', 'metric'];
+const REPAIRED_SCHEMA_SCORE = 0.75;
+const EVALUATION_DIR = 'evaluations';
+
+// Helper function for logging
+function log(...args: any[]): void {
+    console.log(...args);
+}
+
+/**
+ * Stored runs to replay: the given ids, or the most recent runs (optionally
+ * matching a topic). Runs without any stored agent output are skipped.
+ */
+export async function loadEvaluationCases(
+    repository: RunRepository,
+    options: { runIds?: string[]; topic?: string; limit?: number } = {}
+): Promise<EvaluationCase[]> {
+    let runs: RunRecord[];
+    if (options.runIds?.length) {
+        runs = await Promise.all(options.runIds.map(async id => {
+            const run = await repository.get(id);
+            if (!run) {
+                throw new Error(`Run not found: ${id}`);
+            }
+            return run;
+        }));
+    } else {
+        runs = await repository.list({ topic: options.topic, limit: options.limit });
+    }
+
+    const cases: EvaluationCase[] = [];
+    for (const run of runs) {
+        const [snapshot, storedMetadata] = await Promise.all([
+            repository.loadSnapshot(run),
+            repository.readJsonFile(run, '_orchestration_metadata.json')
+        ]);
+        if (!snapshot.external && !snapshot.internal && !snapshot.product) {
+            log(`⚠️  Skipping run ${run.id}: no stored agent outputs`);
+            continue;
+        }
+
+        const signals = {
+            external: snapshot.external || missingSource(),
+            internal: snapshot.internal || missingSource(),
+            product: snapshot.product || missingSource()
+        };
+        cases.push({ run, signals, metadata: storedMetadata || metadataFromRecord(run) });
+    }
+    return cases;
+}
+
+/**
+ * Synthesize every case under one variant and score the results
+ */
+export async function evaluateVariant(
+    variant: EvaluationVariant,
+    cases: EvaluationCase[],
+    options: { outputDir?: string; lengthTarget?: LengthTarget } = {}
+): Promise<VariantEvaluation> {
+    const orchestrator = new RuleOfThirdsOrchestrator({
+        outputDir: options.outputDir || './outputs',
+        llmCache: { enabled: false },
+        ...(variant.config || {})
+    });
+    const llm = orchestrator.describeLlm();
+    log(`🧪 Evaluating variant "${variant.name}" (${llm.name || 'no LLM'}) on ${cases.length} run${cases.length === 1 ? '' : 's'}...`);
+
+    const results: CaseEvaluation[] = [];
+    for (const evaluationCase of cases) {
+        const startTime = Date.now();
+        const { run } = evaluationCase;
+        // The synthesis tags signals in place, so every variant gets its own copy
+        const signals = structuredClone(evaluationCase.signals);
+        try {
+            const insights = await orchestrator.synthesizeInsights(run.topic, run.productArea, signals, evaluationCase.metadata);
+            if (!insights.llmSynthesis) {
+                throw new Error(llm.available ? 'LLM synthesis is disabled for this variant' : llm.reason);
+            }
+            const { scores, details } = scoreSynthesis(insights.llmSynthesis, signals, options.lengthTarget);
+            results.push({
+                runId: run.id,
+                topic: run.topic,
+                status: 'scored',
+                error: insights.llmSynthesis.error || null,
+                scores,
+                details,
+                usage: insights.llmSynthesis.usage,
+                executionTime: Date.now() - startTime
+            });
+        } catch (error) {
+            log(`❌ Variant "${variant.name}" failed on run ${run.id}: ${error.message}`);
+            results.push({
+                runId: run.id,
+                topic: run.topic,
+                status: 'failed',
+                error: error.message,
+                scores: emptyScores(),
+                details: null,
+                usage: null,
+                executionTime: Date.now() - startTime
+            });
+        }
+    }
+
+    return {
+        name: variant.name,
+        description: variant.description || null,
+        provider: llm.name,
+        model: llm.model,
+        cases: results,
+        averages: averageScores(results.filter(result => result.status === 'scored').map(result => result.scores)),
+        failures: results.filter(result => result.status === 'failed').length,
+        usage: totalUsage(results),
+        executionTime: results.reduce((total, result) => total + result.executionTime, 0)
+    };
+}
+
+/**
+ * Score one llmSynthesis result against the signals it was synthesized from
+ * (after synthesis, so every item carries its evidenceId)
+ */
+export function scoreSynthesis(llmSynthesis: any, signals: any, lengthTarget: LengthTarget = DEFAULT_LENGTH_TARGET): {
+    scores: SynthesisScores;
+    details: CaseEvaluation['details'];
+} {
+    const citations = llmSynthesis.citations || { cited: [], invalid: [], evidence: {} };
+    const stages = llmSynthesis.stages || [];
+    const primary = stages[0];
+
+    const totalCitations = citations.cited.length + citations.invalid.length;
+    const evidence = [...assignEvidenceIds(structuredClone(signals)).values()];
+    const availableSources = SOURCE_KINDS.filter(kind => evidence.some(item => item.kind === kind));
+    const citedSources = SOURCE_KINDS.filter(kind =>
+        citations.cited.some(id => citations.evidence[id]?.kind === kind)
+    );
+    const validation = primary?.validation;
+    const words = countWords(llmSynthesis.content);
+
+    const scores: SynthesisScores = {
+        citationValidity: totalCitations > 0 ? citations.cited.length / totalCitations : 0,
+        sourceCoverage: availableSources.length > 0
+            ? citedSources.filter(kind => availableSources.includes(kind)).length / availableSources.length
+            : null,
+        schemaCompliance: !validation ? null
+            : !validation.valid ? 0
+            : validation.repairs.length > 0 ? REPAIRED_SCHEMA_SCORE
+            : 1,
+        length: words === 0 ? 0
+            : words < lengthTarget.minWords ? words / lengthTarget.minWords
+            : words > lengthTarget.maxWords ? lengthTarget.maxWords / words
+            : 1,
+        overall: null
+    };
+    const applicable = [scores.citationValidity, scores.sourceCoverage, scores.schemaCompliance, scores.length]
+        .filter(score => score !== null);
+    scores.overall = round(applicable.reduce((total, score) => total + score, 0) / applicable.length);
+    SCORE_NAMES.forEach(name => {
+        scores[name] = scores[name] === null ? null : round(scores[name]);
+    });
+
+    return {
+        scores,
+        details: {
+            model: llmSynthesis.model || null,
+            cited: citations.cited.length,
+            invalid: citations.invalid.length,
+            citedSources,
+            availableSources,
+            words,
+            stagesCompleted: stages.filter(stage => stage.status === 'completed').length,
+            stages: stages.length,
+            repairs: validation?.repairs || [],
+            validationErrors: validation?.errors || []
+        }
+    };
+}
+
+/**
+ * Replay the selected runs under every variant
+ */
+export async function runEvaluation(options: {
+    outputDir?: string;
+    variants?: EvaluationVariant[];
+    runIds?: string[];
+    topic?: string;
+    limit?: number;
+    lengthTarget?: LengthTarget;
+} = {}): Promise<EvaluationReport> {
+    if (options.variants && !Array.isArray(options.variants)) {
+        throw new Error('Variants must be an array of { name, description, config }');
+    }
+    const outputDir = options.outputDir || './outputs';
+    const variants = options.variants?.length ? options.variants : DEFAULT_VARIANTS;
+    const lengthTarget = options.lengthTarget || DEFAULT_LENGTH_TARGET;
+
+    const names = new Set<string>();
+    variants.forEach(variant => {
+        if (!variant.name || names.has(variant.name)) {
+            throw new Error(`Every variant needs a unique name (got "${variant.name || ''}")`);
+        }
+        names.add(variant.name);
+    });
+
+    const cases = await loadEvaluationCases(RunRepository.forDirectory(outputDir), options);
+    if (cases.length === 0) {
+        throw new Error(`No stored runs to evaluate in ${outputDir} - run an analysis first`);
+    }
+
+    const results: VariantEvaluation[] = [];
+    for (const variant of variants) {
+        results.push(await evaluateVariant(variant, cases, { outputDir, lengthTarget }));
+    }
+
+    const ranked = results
+        .filter(result => result.averages.overall !== null)
+        .sort((a, b) => b.averages.overall - a.averages.overall);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        lengthTarget,
+        runs: cases.map(({ run }) => ({ id: run.id, topic: run.topic, productArea: run.productArea, timestamp: run.timestamp })),
+        variants: results,
+        best: ranked[0]?.name || null
+    };
+}
+
+/**
+ * Markdown comparison of the variants: averages, then per-run scores
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+    const format = (score: number | null) => score === null ? 'n/a' : score.toFixed(2);
+    const header = '| Variant | Provider | Overall | Citation validity | Source coverage | Schema compliance | Length | Tokens | Failures |';
+
+    const summary = report.variants.map(variant => `| ${variant.name}${variant.name === report.best ? ' ⭐' : ''} | ${variant.provider || 'none'}${variant.model ? ` (${variant.model})` : ''} | ${[
+        variant.averages.overall,
+        variant.averages.citationValidity,
+        variant.averages.sourceCoverage,
+        variant.averages.schemaCompliance,
+        variant.averages.length
+    ].map(format).join(' | ')} | ${variant.usage?.totalTokens ?? 0} | ${variant.failures} |`);
+
+    const runSections = report.runs.map(run => {
+        const rows = report.variants.map(variant => {
+            const result = variant.cases.find(item => item.runId === run.id);
+            if (!result || result.status === 'failed') {
+                return `| ${variant.name} | failed: ${result?.error || 'not run'} | | | | | |`;
+            }
+            const { details, scores } = result;
+            return `| ${variant.name} | ${format(scores.overall)} | ${details.cited} valid, ${details.invalid} invalid | ${details.citedSources.join(', ') || 'none'} of ${details.availableSources.join(', ') || 'none'} | ${scores.schemaCompliance === null ? 'n/a' : details.validationErrors.length > 0 ? `invalid (${details.validationErrors.length} errors)` : details.repairs.length > 0 ? `repaired (${details.repairs.length})` : 'valid'} | ${details.words} words | ${details.stagesCompleted}/${details.stages} |`;
+        });
+
+        return `### ${run.topic}${run.productArea ? ` (${run.productArea})` : ''}
+
+Run \`${run.id}\` from ${run.timestamp.substring(0, 10)}
+
+| Variant | Overall | Citations | Sources cited | Schema | Length | Stages |
+|---|---|---|---|---|---|---|
+${rows.join('\n')}`;
+    });
+
+    return `# Synthesis Evaluation
+
+Generated ${report.generatedAt} from ${report.runs.length} stored run${report.runs.length === 1 ? '' : 's'}. Length target: ${report.lengthTarget.minWords}-${report.lengthTarget.maxWords} words.
+
+## Summary
+
+${header}
+|---|---|---|---|---|---|---|---|---|
+${summary.join('\n')}
+
+${report.best ? `Best variant: **${report.best}**` : 'No variant produced a scored synthesis.'}
+
+## Runs
+
+${runSections.join('\n\n')}
+`;
+}
+
+/**
+ * Write the report as JSON and markdown to <outputDir>/evaluations/
+ */
+export async function writeEvaluationReport(report: EvaluationReport, outputDir: string = './outputs'): Promise<string[]> {
+    const directory = join(outputDir, EVALUATION_DIR);
+    await fs.mkdir(directory, { recursive: true });
+
+    const baseFilename = `evaluation_${report.generatedAt.replace(/[:.]/g, '-')}`;
+    const jsonFile = join(directory, `${baseFilename}.json`);
+    const markdownFile = join(directory, `${baseFilename}.md`);
+    await fs.writeFile(jsonFile, JSON.stringify(report, null, 2));
+    await fs.writeFile(markdownFile, formatEvaluationReport(report));
+    return [jsonFile, markdownFile];
+}
+
+function averageScores(scores: SynthesisScores[]): SynthesisScores {
+    const averages = emptyScores();
+    SCORE_NAMES.forEach(name => {
+        const values = scores.map(score => score[name]).filter(value => value !== null);
+        averages[name] = values.length > 0 ? round(values.reduce((total, value) => total + value, 0) / values.length) : null;
+    });
+    return averages;
+}
+
+function emptyScores(): SynthesisScores {
+    return { citationValidity: null, sourceCoverage: null, schemaCompliance: null, length: null, overall: null };
+}
+
+// Stand-in for an agent whose output the run did not store
+function missingSource() {
+    return { status: 'skipped', error: 'Agent output not stored', signalCount: 0, findingCount: 0, dataPointCount: 0 };
+}
+
+// Runs recorded before the metadata file existed only have their index record
+function metadataFromRecord(run: RunRecord) {
+    const successfulAgents = Object.values(run.agentStatus).filter(status => status === 'fulfilled').length;
+    return {
+        timestamp: run.timestamp,
+        executionTime: run.executionTime,
+        totalSignals: run.totalSignals,
+        successfulAgents,
+        totalAgents: Object.keys(run.agentStatus).length,
+        agentOutcomes: Object.fromEntries(Object.entries(run.agentStatus).map(([agent, status]) => [agent, { status }]))
+    };
+}
+
+function countWords(text: string | null | undefined): number {
+    return (text || '').split(/\s+/).filter(Boolean).length;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,178 @@
+/**
+ * Synthesis Pipeline - Runs the LLM synthesis prompts as ordered stages
+ *
+ * The primary synthesis runs first; each later stage (cross-reference,
+ * actionable insights, risk assessment) receives the outputs of the stages
+ * before it. Every stage records the model, token usage and latency of its call.
+ */
+
+import { isAbortError } from './cancellation.js';
+import { StructuredSynthesis } from './structuredSynthesis.js';
+
+export type SynthesisStageId = 'primarySynthesis' | 'crossReference' | 'actionableInsights' | 'riskAssessment';
+
+export interface SynthesisStage {
+    id: SynthesisStageId;
+    title: string;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface SynthesisStageResult {
+    id: SynthesisStageId;
+    title: string;
+    status: 'completed' | 'failed' | 'skipped';
+    content: string | null;
+    model: string | null;
+    usage: TokenUsage | null;
+    executionTime: number;
+    error: string | null;
+    timestamp: string;
+    // Set for stages that requested structured JSON output
+    structured?: StructuredSynthesis | null;
+    validation?: StageValidation;
+    // Answered from the LLM cache
+    cached?: boolean;
+}
+
+export interface StageValidation {
+    valid: boolean;
+    errors: string[];
+    repairs: string[];
+}
+
+/**
+ * Result of a single LLM call made for a stage
+ */
+export interface StageCompletion {
+    content: string;
+    model: string;
+    usage: TokenUsage | null;
+    executionTime: number;
+    structured?: StructuredSynthesis | null;
+    validation?: StageValidation;
+    cached?: boolean;
+}
+
+export type StageRunner = (prompt: string, stage: SynthesisStage) => Promise<StageCompletion>;
+
+export const SYNTHESIS_STAGES: SynthesisStage[] = [
+    { id: 'primarySynthesis', title: 'Strategic Synthesis' },
+    { id: 'crossReference', title: 'Cross-Reference Analysis' },
+    { id: 'actionableInsights', title: 'Actionable Insights' },
+    { id: 'riskAssessment', title: 'Risk Assessment' }
+];
+
+/**
+ * Convert an OpenAI-style usage object (prompt_tokens, ...) to TokenUsage
+ */
+export function normalizeUsage(usage: any): TokenUsage | null {
+    if (!usage) {
+        return null;
+    }
+    return {
+        promptTokens: usage.prompt_tokens ?? usage.promptTokens ?? 0,
+        completionTokens: usage.completion_tokens ?? usage.completionTokens ?? 0,
+        totalTokens: usage.total_tokens ?? usage.totalTokens ?? 0
+    };
+}
+
+/**
+ * Append the outputs of earlier stages to a stage prompt
+ */
+export function buildStagePrompt(prompt: string, previous: SynthesisStageResult[]): string {
+    const completed = previous.filter(stage => stage.status === 'completed');
+    if (completed.length === 0) {
+        return prompt;
+    }
+
+    const sections = completed.map(stage => `### ${stage.title}\n\n${stage.content}`).join('\n\n');
+    return `${prompt}
+
+---
+
+## Earlier Analysis Stages
+Build on these results rather than repeating them:
+
+${sections}`;
+}
+
+/**
+ * Run the stages in order. A failed primary stage skips the rest, since every
+ * later stage builds on it; a later stage failing does not stop the pipeline.
+ * Aborts are rethrown.
+ *
+ * Returns the stage results and the prompts that were actually sent.
+ */
+export async function runSynthesisPipeline(
+    prompts: { [stage in SynthesisStageId]: string },
+    runStage: StageRunner,
+    options: { signal?: AbortSignal; onStageFinished?: (result: SynthesisStageResult) => void } = {}
+): Promise<{ stages: SynthesisStageResult[]; prompts: { [stage in SynthesisStageId]: string } }> {
+    const stages: SynthesisStageResult[] = [];
+    const sentPrompts = { ...prompts };
+
+    for (const stage of SYNTHESIS_STAGES) {
+        const base = { id: stage.id, title: stage.title, content: null, model: null, usage: null, executionTime: 0, error: null };
+        let result: SynthesisStageResult;
+
+        if (stages.length > 0 && stages[0].status !== 'completed') {
+            result = { ...base, status: 'skipped', error: `${stages[0].title} did not complete`, timestamp: new Date().toISOString() };
+        } else {
+            const prompt = buildStagePrompt(prompts[stage.id], stages);
+            sentPrompts[stage.id] = prompt;
+            const startTime = Date.now();
+
+            try {
+                const completion = await runStage(prompt, stage);
+                result = {
+                    ...base,
+                    status: 'completed',
+                    content: completion.content,
+                    model: completion.model,
+                    usage: completion.usage,
+                    executionTime: completion.executionTime,
+                    timestamp: new Date().toISOString()
+                };
+                if (completion.cached) {
+                    result.cached = true;
+                }
+                if (completion.validation) {
+                    result.structured = completion.structured || null;
+                    result.validation = completion.validation;
+                }
+            } catch (error) {
+                if (isAbortError(error, options.signal)) {
+                    throw error;
+                }
+                result = {
+                    ...base,
+                    status: 'failed',
+                    executionTime: Date.now() - startTime,
+                    error: error.message,
+                    timestamp: new Date().toISOString()
+                };
+            }
+        }
+
+        stages.push(result);
+        options.onStageFinished?.(result);
+    }
+
+    return { stages, prompts: sentPrompts };
+}
+
+/**
+ * Sum the token usage of the stages (or LLM calls) that reported it
+ */
+export function totalUsage(calls: { usage: TokenUsage | null }[]): TokenUsage {
+    return calls.reduce((total, call) => ({
+        promptTokens: total.promptTokens + (call.usage?.promptTokens || 0),
+        completionTokens: total.completionTokens + (call.usage?.completionTokens || 0),
+        totalTokens: total.totalTokens + (call.usage?.totalTokens || 0)
+    }), { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+}
@@ -0,0 +1,187 @@
+/**
+ * Template Renderer - Renders Handlebars (.hbs) templates from the templates directory
+ *
+ * Templates are addressed by name (the filename without `.hbs`), so custom
+ * templates dropped into `templates/` can be selected per request. Compiled
+ * templates are cached until the file changes on disk. Markdown and prompt
+ * templates render verbatim; HTML templates are rendered with escaping on.
+ */
+
+import { promises as fs } from 'fs';
+import { basename, extname, join } from 'path';
+import Handlebars from 'handlebars';
+import { Marked } from 'marked';
+
+const TEMPLATE_EXTENSION = '.hbs';
+
+// Template names map straight to filenames, so only allow plain names
+const TEMPLATE_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+
+/**
+ * Raised when a requested template does not exist in the template directory
+ */
+export class TemplateNotFoundError extends Error {
+    constructor(name: string, templateDir: string) {
+        super(`Template "${name}" not found in ${templateDir}`);
+        this.name = 'TemplateNotFoundError';
+    }
+}
+
+export class TemplateRenderer {
+    private templateDir: string;
+    private handlebars: typeof Handlebars;
+    private cache: Map<string, { mtimeMs: number; template: Handlebars.TemplateDelegate }>;
+    private markdown: Marked;
+
+    constructor(templateDir: string) {
+        this.templateDir = templateDir;
+        this.handlebars = Handlebars.create();
+        this.cache = new Map();
+        this.markdown = createMarkdownRenderer();
+        this.registerHelpers();
+    }
+
+    /**
+     * Names of the templates available in the template directory
+     */
+    async listTemplates(): Promise<string[]> {
+        try {
+            const files = await fs.readdir(this.templateDir);
+            return files
+                .filter(file => extname(file) === TEMPLATE_EXTENSION)
+                .map(file => basename(file, TEMPLATE_EXTENSION))
+                .sort();
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    async hasTemplate(name: string): Promise<boolean> {
+        return (await this.listTemplates()).includes(name);
+    }
+
+    /**
+     * Render a named template against the given context
+     *
+     * options.escapeHtml escapes interpolated values, for templates producing HTML.
+     */
+    async render(name: string, context: any, options: { escapeHtml?: boolean } = {}): Promise<string> {
+        const template = await this.compile(name, Boolean(options.escapeHtml));
+        return template(context);
+    }
+
+    private async compile(name: string, escapeHtml: boolean): Promise<Handlebars.TemplateDelegate> {
+        if (!TEMPLATE_NAME_PATTERN.test(name || '')) {
+            throw new TemplateNotFoundError(String(name), this.templateDir);
+        }
+
+        const file = join(this.templateDir, `${name}${TEMPLATE_EXTENSION}`);
+        let stats;
+        try {
+            stats = await fs.stat(file);
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                throw new TemplateNotFoundError(name, this.templateDir);
+            }
+            throw error;
+        }
+
+        const cacheKey = `${name}:${escapeHtml ? 'html' : 'text'}`;
+        const cached = this.cache.get(cacheKey);
+        if (cached && cached.mtimeMs === stats.mtimeMs) {
+            return cached.template;
+        }
+
+        const template = this.handlebars.compile(await fs.readFile(file, 'utf-8'), { noEscape: !escapeHtml });
+        this.cache.set(cacheKey, { mtimeMs: stats.mtimeMs, template });
+        return template;
+    }
+
+    private registerHelpers(): void {
+        const hb = this.handlebars;
+
+        // {{formatDate timestamp}} or {{formatDate timestamp "date"|"time"|"iso"}}
+        hb.registerHelper('formatDate', (value: any, format: any) => {
+            if (!value) {
+                return '';
+            }
+            const date = new Date(value);
+            if (isNaN(date.getTime())) {
+                return String(value);
+            }
+            switch (typeof format === 'string' ? format : 'datetime') {
+                case 'date': return date.toLocaleDateString();
+                case 'time': return date.toLocaleTimeString();
+                case 'iso': return date.toISOString();
+                default: return date.toLocaleString();
+            }
+        });
+
+        // {{percent 0.42}} -> 42%, {{percent 3 4}} -> 75%, {{percent 1 3 1}} -> 33.3%
+        hb.registerHelper('percent', (value: any, total: any, decimals: any) => {
+            const number = Number(value);
+            const hasTotal = typeof total === 'number';
+            if (!Number.isFinite(number) || (hasTotal && total === 0)) {
+                return 'n/a';
+            }
+            const ratio = hasTotal ? number / total : number;
+            return `${(ratio * 100).toFixed(typeof decimals === 'number' ? decimals : 0)}%`;
+        });
+
+        // {{truncate content 200}}
+        hb.registerHelper('truncate', (value: any, length: any) => {
+            const text = value === undefined || value === null ? '' : String(value);
+            const limit = typeof length === 'number' ? length : 200;
+            return text.length > limit ? `${text.substring(0, limit).trimEnd()}...` : text;
+        });
+
+        // {{#each (limit rankedSignals 5)}}
+        hb.registerHelper('limit', (list: any, count: any) => {
+            return Array.isArray(list) ? list.slice(0, typeof count === 'number' ? count : list.length) : [];
+        });
+
+        hb.registerHelper('eq', (a: any, b: any) => a === b);
+
+        hb.registerHelper('default', (value: any, fallback: any) => {
+            return value === undefined || value === null || value === '' ? fallback : value;
+        });
+
+        hb.registerHelper('json', (value: any) => JSON.stringify(value, null, 2));
+
+        // {{safeUrl url}} keeps only http(s) links, since signal URLs come from external feeds
+        hb.registerHelper('safeUrl', (value: any) => {
+            return typeof value === 'string' && /^https?:\/\//i.test(value) ? value : '';
+        });
+
+        // {{markdown llmSynthesis.content}} renders markdown to HTML (raw HTML in the source is escaped)
+        hb.registerHelper('markdown', (value: any) => {
+            const html = value ? this.markdown.parse(String(value), { async: false }) as string : '';
+            return new Handlebars.SafeString(html);
+        });
+    }
+}
+
+/**
+ * Markdown renderer for untrusted text (LLM output): raw HTML is shown as text
+ * and only http(s)/mailto links are kept
+ */
+function createMarkdownRenderer(): Marked {
+    return new Marked({
+        gfm: true,
+        renderer: {
+            html(html: string) {
+                return Handlebars.escapeExpression(html);
+            },
+            link(href: string, title: string | null, text: string) {
+                if (!/^(https?:|mailto:)/i.test(href || '')) {
+                    return text;
+                }
+                const titleAttribute = title ? ` title="${Handlebars.escapeExpression(title)}"` : '';
+                return `<a href="${Handlebars.escapeExpression(href)}"${titleAttribute}>${text}</a>`;
+            }
+        }
+    });
+}
@@ -0,0 +1,287 @@
+/**
+ * Token Budget - Fits the gathered signals into the synthesis prompt
+ *
+ * Each LLM provider has a context window; after reserving room for the
+ * response and the prompt's own instructions, the rest is shared between the
+ * three sources. A source whose full result set fits is included as is.
+ * Larger sets are summarized in chunks (map) and the summaries go into the
+ * strategic synthesis prompt, which then synthesizes across them (reduce).
+ * Without an LLM, the highest-ranked items that fit are kept instead.
+ */
+
+import { AgentName } from './events.js';
+import { isAbortError } from './cancellation.js';
+import { estimateTokens, LlmProviderName } from './llmProvider.js';
+import { TokenUsage, totalUsage } from './synthesisPipeline.js';
+
+export interface TokenBudgetConfig {
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    // Largest chunk of signals sent in a single summarization call
+    chunkTokens?: number;
+    // Per-provider overrides, e.g. { local: { contextWindow: 8192 } }
+    providers?: { [provider in LlmProviderName]?: Omit<TokenBudgetConfig, 'providers'> };
+}
+
+export interface TokenBudget {
+    provider: LlmProviderName | null;
+    contextWindow: number;
+    maxOutputTokens: number;
+    chunkTokens: number;
+    // Tokens available for signal data in the strategic synthesis prompt
+    dataTokens: number;
+}
+
+export type DigestMode = 'full' | 'map-reduce' | 'truncated' | 'empty';
+
+export interface SourceDigest {
+    source: AgentName;
+    mode: DigestMode;
+    items: number;
+    // Items that reached the prompt directly or through a summary
+    includedItems: number;
+    sourceTokens: number;
+    digestTokens: number;
+    chunks: number;
+    text: string;
+    error?: string;
+}
+
+export interface SignalDigest {
+    budget: TokenBudget;
+    sources: { [source in AgentName]: SourceDigest };
+    summarizationCalls: number;
+    usage: TokenUsage;
+}
+
+export type Summarizer = (prompt: string) => Promise<{ content: string; usage: TokenUsage | null }>;
+
+export const DEFAULT_CONTEXT_WINDOWS: { [provider in LlmProviderName]: number } = {
+    openai: 128000,
+    azure: 128000,
+    local: 8192,
+    stub: 32000
+};
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 4000;
+const DEFAULT_CHUNK_TOKENS = 6000;
+// Instructions, citation rules and the JSON schema around the signal data
+const PROMPT_OVERHEAD_TOKENS = 2500;
+// Content kept per item; longer items are cut before budgeting
+const ITEM_MAX_CHARS = 1200;
+const MAX_REDUCE_ROUNDS = 3;
+
+const SOURCE_LABELS: { [source in AgentName]: string } = {
+    external: 'external market signals',
+    internal: 'internal research findings',
+    product: 'product metrics'
+};
+
+/**
+ * Budget for a provider, from the defaults, config and the provider's overrides
+ */
+export function resolveTokenBudget(provider: LlmProviderName | null, config: TokenBudgetConfig = {}): TokenBudget {
+    const overrides = (provider && config.providers?.[provider]) || {};
+    const contextWindow = overrides.contextWindow || config.contextWindow || DEFAULT_CONTEXT_WINDOWS[provider] || DEFAULT_CONTEXT_WINDOWS.openai;
+    const maxOutputTokens = Math.min(
+        overrides.maxOutputTokens || config.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+        Math.floor(contextWindow / 2)
+    );
+    const dataTokens = Math.max(contextWindow - maxOutputTokens - PROMPT_OVERHEAD_TOKENS, 500);
+
+    return {
+        provider,
+        contextWindow,
+        maxOutputTokens,
+        chunkTokens: Math.min(overrides.chunkTokens || config.chunkTokens || DEFAULT_CHUNK_TOKENS, dataTokens),
+        dataTokens
+    };
+}
+
+/**
+ * Prompt lines for every gathered item, highest ranked first
+ */
+export function signalLines(signals: any): { [source in AgentName]: string[] } {
+    return {
+        external: (signals.external?.rankedSignals || []).map(signal => {
+            const details = [
+                signal.source || signal.channel || 'external',
+                typeof signal.publishedAt === 'string' ? signal.publishedAt.substring(0, 10) : null,
+                typeof signal.metadata?.rating === 'number' ? `${signal.metadata.rating}/5 stars` : null,
+                signal.relevanceScore !== undefined ? `relevance ${signal.relevanceScore}` : null
+            ].filter(Boolean).join(' | ');
+            return `- [${signal.evidenceId}] ${signal.title} (${details}): ${clip(signal.content)}`;
+        }),
+        internal: (signals.internal?.rankedFindings || []).map(finding =>
+            `- [${finding.evidenceId}] ${finding.source}: ${clip(finding.content)}`
+        ),
+        product: [
+            ...(signals.product?.insights?.trends || []).map(trend =>
+                `- [${trend.evidenceId}] ${trend.metric}: ${trend.direction} (${trend.percentChange}% change)`
+            ),
+            ...(signals.product?.insights?.keyFindings || []).map(finding =>
+                `- ${finding.description}: ${finding.value}`
+            )
+        ]
+    };
+}
+
+/**
+ * Split lines into chunks of at most maxTokens (a longer single line is its own chunk)
+ */
+export function chunkLines(lines: string[], maxTokens: number): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
+
+    lines.forEach(line => {
+        const lineTokens = estimateTokens(line) + 1;
+        if (current.length > 0 && tokens + lineTokens > maxTokens) {
+            chunks.push(current);
+            current = [];
+            tokens = 0;
+        }
+        current.push(line);
+        tokens += lineTokens;
+    });
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+/**
+ * Prompt summarizing one chunk of a source's items (the map step)
+ */
+export function mapPrompt(topic: string, source: AgentName, lines: string[], chunk: number, chunks: number, targetTokens: number): string {
+    return `# Signal Summary: ${topic}
+
+Below is part ${chunk} of ${chunks} of the ${SOURCE_LABELS[source]} gathered for ${topic}.
+
+Summarize it as markdown bullet points in at most ${targetTokens} tokens:
+- Group related items into one bullet and say how many items support it
+- Keep numbers, names and dates that matter
+- End every bullet with the evidence ids it summarizes, in square brackets exactly as given, e.g. [E-xxxxxx][E-xxxxxx]
+- Leave out items unrelated to ${topic}
+
+## Items
+${lines.join('\n')}`;
+}
+
+/**
+ * Fit each source's items into the budget, summarizing sources that do not
+ * fit when a summarizer is available. Unused budget from small sources goes
+ * to the larger ones.
+ */
+export async function buildSignalDigest(
+    topic: string,
+    signals: any,
+    budget: TokenBudget,
+    summarize: Summarizer | null,
+    options: { signal?: AbortSignal; onSourceDigested?: (digest: SourceDigest) => void } = {}
+): Promise<SignalDigest> {
+    const lines = signalLines(signals);
+    const sizes = (Object.keys(lines) as AgentName[])
+        .map(source => ({ source, tokens: estimateTokens(lines[source].join('\n')) }))
+        .sort((a, b) => a.tokens - b.tokens);
+
+    const calls: { usage: TokenUsage | null }[] = [];
+    const sources = {} as { [source in AgentName]: SourceDigest };
+    let remaining = budget.dataTokens;
+
+    for (const [index, { source, tokens }] of sizes.entries()) {
+        const share = Math.floor(remaining / (sizes.length - index));
+        const digest = await digestSource(topic, source, lines[source], tokens, share, budget, summarize, calls, options.signal);
+        sources[source] = digest;
+        remaining -= Math.min(digest.digestTokens, share);
+        options.onSourceDigested?.(digest);
+    }
+
+    return { budget, sources, summarizationCalls: calls.length, usage: totalUsage(calls) };
+}
+
+async function digestSource(
+    topic: string,
+    source: AgentName,
+    lines: string[],
+    sourceTokens: number,
+    share: number,
+    budget: TokenBudget,
+    summarize: Summarizer | null,
+    calls: { usage: TokenUsage | null }[],
+    signal?: AbortSignal
+): Promise<SourceDigest> {
+    const base = { source, items: lines.length, sourceTokens, chunks: 0 };
+
+    if (lines.length === 0) {
+        return { ...base, mode: 'empty', includedItems: 0, digestTokens: 0, text: '' };
+    }
+    if (sourceTokens <= share) {
+        const text = lines.join('\n');
+        return { ...base, mode: 'full', includedItems: lines.length, digestTokens: estimateTokens(text), text };
+    }
+
+    let error: string | undefined;
+    if (summarize) {
+        try {
+            let summaries = lines;
+            let chunks = 0;
+            for (let round = 0; round < MAX_REDUCE_ROUNDS; round++) {
+                const batches = chunkLines(summaries, budget.chunkTokens);
+                chunks += batches.length;
+                const target = Math.max(Math.floor(share / batches.length), 100);
+                summaries = [];
+                for (const [index, batch] of batches.entries()) {
+                    const completion = await summarize(mapPrompt(topic, source, batch, index + 1, batches.length, target));
+                    calls.push(completion);
+                    summaries.push(completion.content.trim());
+                }
+                if (estimateTokens(summaries.join('\n')) <= share || summaries.length === 1) {
+                    break;
+                }
+            }
+
+            const text = `_Summarized from ${lines.length} items in ${chunks} chunk${chunks === 1 ? '' : 's'}._\n${truncateLines(summaries, share).join('\n')}`;
+            return { ...base, mode: 'map-reduce', chunks, includedItems: lines.length, digestTokens: estimateTokens(text), text };
+        } catch (summaryError) {
+            if (isAbortError(summaryError, signal)) {
+                throw summaryError;
+            }
+            error = summaryError.message;
+        }
+    }
+
+    const kept = truncateLines(lines, share);
+    const omitted = lines.length - kept.length;
+    const text = `${kept.join('\n')}${omitted > 0 ? `\n- ...${omitted} lower-ranked items omitted to fit the token budget` : ''}`;
+    return {
+        ...base,
+        mode: 'truncated',
+        includedItems: kept.length,
+        digestTokens: estimateTokens(text),
+        text,
+        ...(error ? { error } : {})
+    };
+}
+
+/**
+ * Leading lines that fit within maxTokens
+ */
+function truncateLines(lines: string[], maxTokens: number): string[] {
+    const kept: string[] = [];
+    let tokens = 0;
+    for (const line of lines) {
+        const lineTokens = estimateTokens(line) + 1;
+        if (tokens + lineTokens > maxTokens) {
+            break;
+        }
+        kept.push(line);
+        tokens += lineTokens;
+    }
+    return kept;
+}
+
+function clip(text: any): string {
+    const value = typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+    return value.length > ITEM_MAX_CHARS ? `${value.substring(0, ITEM_MAX_CHARS)}...` : value;
+}
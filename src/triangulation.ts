@@ -0,0 +1,331 @@
+/**
+ * Triangulation - Aligns themes across the three signal sources
+ *
+ * Candidate themes come from the internal research key themes
+ * (InternalResearchAgent.extractThemes), terms recurring across external
+ * signals and the names of significant metric trends
+ * (ProductMetricsAgent.analyzeTrends). Every item of every source that
+ * mentions a theme supports it, with a stance: metric trends are positive when
+ * they move the right way (down for times, errors and churn), text items by
+ * their positive and negative wording. A theme is
+ * - corroborated: supported by two or more sources that do not disagree
+ * - contradicted: one source leans positive where another leans negative
+ * - single-source: only one source mentions it
+ * Each theme also gets a confidence score from the configured source weights.
+ */
+
+import { AgentName } from './events.js';
+import { DEFAULT_SOURCE_WEIGHTS, fileType, scoreThemeConfidence, SourceWeights, ThemeConfidence } from './sourceWeighting.js';
+
+export type TriangulationStatus = 'corroborated' | 'contradicted' | 'single-source';
+export type Stance = 'positive' | 'negative' | 'neutral';
+
+export interface SupportingItem {
+    evidenceId: string | null;
+    text: string;
+    stance: Stance;
+}
+
+export interface SourceSupport {
+    // Every matching item; only the strongest are listed
+    count: number;
+    stance: Stance;
+    items: SupportingItem[];
+}
+
+export interface TriangulatedTheme {
+    theme: string;
+    status: TriangulationStatus;
+    sources: AgentName[];
+    support: { [source in AgentName]?: SourceSupport };
+    // Ids of the listed supporting items, for citing
+    evidenceIds: string[];
+    summary: string;
+    confidence: ThemeConfidence;
+}
+
+export interface Triangulation {
+    themes: TriangulatedTheme[];
+    counts: { [status in TriangulationStatus]: number };
+}
+
+interface SourceItem {
+    source: AgentName;
+    type: string | null;
+    publishedAt: string | null;
+    evidenceId: string | null;
+    text: string;
+    stems: Set<string>;
+    stance: Stance;
+}
+
+const MAX_THEMES = 12;
+const MAX_SINGLE_SOURCE_THEMES = 4;
+const MAX_ITEMS_PER_SOURCE = 3;
+const MAX_ITEM_CHARS = 160;
+// External terms must recur in this many signals to become a theme
+const MIN_EXTERNAL_FREQUENCY = 2;
+
+const SOURCE_LABELS: { [source in AgentName]: string } = {
+    external: 'external signals',
+    internal: 'internal research',
+    product: 'product metrics'
+};
+
+const STATUS_ORDER: TriangulationStatus[] = ['contradicted', 'corroborated', 'single-source'];
+
+// Common words plus the vocabulary of the method itself, which every source mentions
+const STOP_WORDS = new Set([
+    'about', 'after', 'also', 'been', 'being', 'between', 'both', 'could', 'does', 'each', 'from', 'have', 'here',
+    'into', 'just', 'like', 'make', 'many', 'more', 'most', 'much', 'need', 'only', 'other', 'over', 'same', 'should',
+    'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through',
+    'very', 'want', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'within', 'would', 'your',
+    'http', 'https', 'localhost', 'www', 'com',
+    'signal', 'metric', 'research', 'internal', 'external', 'product', 'data', 'analysis', 'rule', 'thirds',
+    'agent', 'topic', 'insight', 'finding', 'source', 'simulated', 'report'
+]);
+
+// Metric name parts that are units or aggregations rather than themes
+const METRIC_UNITS = new Set(['seconds', 'second', 'minutes', 'minute', 'hours', 'hour', 'days', 'usd', 'count', 'total', 'percent', 'pct', 'per']);
+
+// Metrics where a decrease is an improvement
+const LOWER_IS_BETTER = /(time|latency|duration|error|failure|rollback|churn|crash|incident|bounce|abandon)/;
+
+const POSITIVE_WORDS = new Set([
+    'accelerate', 'adopt', 'adoption', 'benefit', 'better', 'boost', 'easy', 'easier', 'effective', 'efficient',
+    'excellent', 'fast', 'faster', 'gain', 'grow', 'growth', 'growing', 'improve', 'improved', 'improvement', 'increase',
+    'innovation', 'investment', 'love', 'popular', 'positive', 'reliable', 'rise', 'simple', 'strong', 'success',
+    'successful', 'surge', 'valuable'
+]);
+
+const NEGATIVE_WORDS = new Set([
+    'block', 'blocker', 'broken', 'bug', 'challenge', 'complex', 'concern', 'confusing', 'decline', 'declining',
+    'decrease', 'difficult', 'difficulty', 'drop', 'fail', 'failure', 'frustrate', 'frustrating', 'frustration', 'gap',
+    'hard', 'issue', 'lack', 'limited', 'missing', 'negative', 'pain', 'problem', 'risk', 'slow', 'slower', 'struggle',
+    'unclear', 'unreliable', 'weak', 'worse'
+]);
+
+/**
+ * Align themes across the sources and classify each one (signals must
+ * already carry their evidenceIds)
+ */
+export function triangulateSignals(
+    topic: string,
+    productArea: string | null,
+    signals: any,
+    weights: SourceWeights = DEFAULT_SOURCE_WEIGHTS
+): Triangulation {
+    const subject = new Set(tokenize(`${topic} ${productArea || ''}`).map(stem));
+    const items = sourceItems(signals);
+
+    const candidates = new Map<string, string>();
+    const addCandidate = (label: string) => {
+        const words = tokenize(label).filter(word => !STOP_WORDS.has(word) && !subject.has(stem(word)));
+        if (words.length === 0 || words.length !== tokenize(label).length) {
+            return;
+        }
+        const key = words.map(stem).join(' ');
+        if (!candidates.has(key)) {
+            candidates.set(key, words.join(' '));
+        }
+    };
+
+    (signals.internal?.summary?.keyThemes || []).forEach(theme => addCandidate(theme.phrase || theme.word || ''));
+    (signals.product?.insights?.trends || []).forEach(trend => {
+        tokenize(trend.metric).filter(word => !METRIC_UNITS.has(word)).forEach(addCandidate);
+    });
+    const externalFrequency = new Map<string, { word: string; count: number }>();
+    items.filter(item => item.source === 'external').forEach(item => {
+        new Set(tokenize(item.text)).forEach(word => {
+            const key = stem(word);
+            externalFrequency.set(key, { word: externalFrequency.get(key)?.word || word, count: (externalFrequency.get(key)?.count || 0) + 1 });
+        });
+    });
+    externalFrequency.forEach(({ word, count }) => {
+        if (count >= MIN_EXTERNAL_FREQUENCY) {
+            addCandidate(word);
+        }
+    });
+
+    const themes = [...candidates.entries()]
+        .map(([key, label]) => buildTheme(label, key.split(' '), items, weights))
+        .filter(Boolean)
+        .sort((a, b) =>
+            STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+            b.confidence.score - a.confidence.score ||
+            totalSupport(b) - totalSupport(a)
+        );
+
+    // Keep the strongest theme of any set that is backed by exactly the same items
+    const selected: TriangulatedTheme[] = [];
+    const seen = new Set<string>();
+    let singleSource = 0;
+    for (const theme of themes) {
+        const signature = supportSignature(theme);
+        if (seen.has(signature) || selected.length >= MAX_THEMES) {
+            continue;
+        }
+        if (theme.status === 'single-source' && ++singleSource > MAX_SINGLE_SOURCE_THEMES) {
+            continue;
+        }
+        seen.add(signature);
+        selected.push(theme);
+    }
+
+    return {
+        themes: selected,
+        counts: {
+            corroborated: selected.filter(theme => theme.status === 'corroborated').length,
+            contradicted: selected.filter(theme => theme.status === 'contradicted').length,
+            'single-source': selected.filter(theme => theme.status === 'single-source').length
+        }
+    };
+}
+
+/**
+ * Markdown list of the themes with their evidence ids, for prompts
+ */
+export function formatTriangulation(triangulation: Triangulation | null): string {
+    if (!triangulation?.themes.length) {
+        return '';
+    }
+    return triangulation.themes
+        .map(theme => `- **${theme.theme}** (${theme.status}, ${theme.confidence.level} confidence ${theme.confidence.score}): ${theme.summary}${theme.evidenceIds.map(id => ` [${id}]`).join('')}`)
+        .join('\n');
+}
+
+function sourceItems(signals: any): SourceItem[] {
+    const item = (source: AgentName, details: { type?: string; publishedAt?: string; evidenceId?: string }, text: string, stance: Stance): SourceItem => ({
+        source,
+        type: details.type || null,
+        publishedAt: details.publishedAt || null,
+        evidenceId: details.evidenceId || null,
+        text,
+        stems: new Set(tokenize(text).map(stem)),
+        stance
+    });
+
+    return [
+        ...(signals.external?.rankedSignals || []).map(signal => {
+            const text = `${signal.title || ''}. ${signal.content || ''}`;
+            return item('external', signal, text, textStance(text));
+        }),
+        ...(signals.internal?.rankedFindings || []).map(finding =>
+            item('internal', { type: fileType(finding), evidenceId: finding.evidenceId }, finding.content || '', textStance(finding.content))
+        ),
+        ...(signals.product?.insights?.trends || []).map(trend =>
+            item('product', { type: trend.sourceType, evidenceId: trend.evidenceId }, `${trend.metric} ${trend.direction} ${trend.percentChange}%`, trendStance(trend))
+        )
+    ];
+}
+
+function buildTheme(label: string, stems: string[], items: SourceItem[], weights: SourceWeights): TriangulatedTheme | null {
+    const matching = items.filter(item => stems.every(part => item.stems.has(part)));
+    if (matching.length === 0) {
+        return null;
+    }
+
+    const support: { [source in AgentName]?: SourceSupport } = {};
+    (['external', 'internal', 'product'] as AgentName[]).forEach(source => {
+        const sourceMatches = matching.filter(item => item.source === source);
+        if (sourceMatches.length === 0) {
+            return;
+        }
+        const balance = sourceMatches.reduce((total, item) => total + stanceValue(item.stance), 0);
+        support[source] = {
+            count: sourceMatches.length,
+            stance: balance > 0 ? 'positive' : balance < 0 ? 'negative' : 'neutral',
+            // Items that take a side come first
+            items: [...sourceMatches]
+                .sort((a, b) => Math.abs(stanceValue(b.stance)) - Math.abs(stanceValue(a.stance)))
+                .slice(0, MAX_ITEMS_PER_SOURCE)
+                .map(match => ({ evidenceId: match.evidenceId, text: clip(match.text), stance: match.stance }))
+        };
+    });
+
+    const sources = Object.keys(support) as AgentName[];
+    const stances = new Set(sources.map(source => support[source].stance));
+    const status: TriangulationStatus = sources.length < 2 ? 'single-source'
+        : stances.has('positive') && stances.has('negative') ? 'contradicted'
+        : 'corroborated';
+
+    return {
+        theme: label,
+        status,
+        sources,
+        support,
+        evidenceIds: sources.flatMap(source => support[source].items.map(item => item.evidenceId)).filter(Boolean),
+        summary: summarize(status, sources, support),
+        confidence: scoreThemeConfidence(
+            Object.fromEntries(sources.map(source => [source, {
+                stance: support[source].stance,
+                items: matching.filter(item => item.source === source)
+            }])),
+            weights
+        )
+    };
+}
+
+function summarize(status: TriangulationStatus, sources: AgentName[], support: { [source in AgentName]?: SourceSupport }): string {
+    const describe = (source: AgentName) => `${SOURCE_LABELS[source]} (${support[source].count}, ${support[source].stance})`;
+
+    if (status === 'single-source') {
+        return `only in ${describe(sources[0])}`;
+    }
+    if (status === 'contradicted') {
+        const positive = sources.filter(source => support[source].stance === 'positive');
+        const negative = sources.filter(source => support[source].stance === 'negative');
+        return `${positive.map(describe).join(' and ')} ${positive.length === 1 ? 'disagrees' : 'disagree'} with ${negative.map(describe).join(' and ')}`;
+    }
+    return `${sources.map(describe).join(', ')} agree`;
+}
+
+function supportSignature(theme: TriangulatedTheme): string {
+    return theme.sources
+        .map(source => `${source}:${theme.support[source].count}:${theme.support[source].items.map(item => item.evidenceId).join(',')}`)
+        .join('|');
+}
+
+function totalSupport(theme: TriangulatedTheme): number {
+    return Object.values(theme.support).reduce((total, support) => total + support.count, 0);
+}
+
+function trendStance(trend: any): Stance {
+    if (trend.direction !== 'increasing' && trend.direction !== 'decreasing') {
+        return 'neutral';
+    }
+    const improving = (trend.direction === 'increasing') !== LOWER_IS_BETTER.test(String(trend.metric || '').toLowerCase());
+    return improving ? 'positive' : 'negative';
+}
+
+function textStance(text: string): Stance {
+    const words = (text || '').toLowerCase().split(/[^a-z]+/);
+    const balance = words.filter(word => POSITIVE_WORDS.has(word)).length - words.filter(word => NEGATIVE_WORDS.has(word)).length;
+    return balance > 0 ? 'positive' : balance < 0 ? 'negative' : 'neutral';
+}
+
+function stanceValue(stance: Stance): number {
+    return stance === 'positive' ? 1 : stance === 'negative' ? -1 : 0;
+}
+
+function tokenize(text: string): string[] {
+    return (text || '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length >= 4 && !/^\d+$/.test(word));
+}
+
+// Light stemming so "deployments", "deployed" and "deploying" match "deploy"
+function stem(word: string): string {
+    for (const suffix of ['ments', 'ment', 'ings', 'ing', 'ed', 's']) {
+        if (word.endsWith(suffix) && word.length - suffix.length >= 4 && !word.endsWith('ss')) {
+            return word.slice(0, -suffix.length);
+        }
+    }
+    return word;
+}
+
+function clip(text: string): string {
+    const value = (text || '').replace(/\s+/g, ' ').trim();
+    return value.length > MAX_ITEM_CHARS ? `${value.substring(0, MAX_ITEM_CHARS)}...` : value;
+}
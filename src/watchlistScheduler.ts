@@ -0,0 +1,414 @@
+/**
+ * Watchlist Scheduler - Re-runs saved topics on a cron schedule
+ *
+ * Watchlist entries (topic, focus area, per-run config, cron expression) are
+ * stored in `watchlists.json` under outputDir. A single timer wakes up for the
+ * next due entry, runs it through the supplied analysis function and compares
+ * the new run against the entry's previous run so "what moved" is recorded.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { CronParseError, nextCronRun, parseCron } from './cron.js';
+import { diffRuns } from './runDiff.js';
+import { RunRepository } from './runRepository.js';
+
+export interface WatchlistEntry {
+    id: string;
+    name: string;
+    topic: string;
+    focusArea: string | null;
+    config: any;
+    cron: string;
+    enabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+    lastRunId: string | null;
+    lastStatus: string | null;
+    lastError: string | null;
+    lastChanges: any;
+    runIds: string[];
+}
+
+/**
+ * Raised for invalid watchlist input (reported to clients as 400)
+ */
+export class WatchlistValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WatchlistValidationError';
+    }
+}
+
+const STORE_FILE = 'watchlists.json';
+
+// Wake at least this often so long sleeps survive clock changes
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+// Helper function for logging
+function log(...args: any[]): void {
+    console.log(...args);
+}
+
+export class WatchlistScheduler {
+    private config: any;
+    private storeFile: string;
+    private entries: Map<string, WatchlistEntry> | null = null;
+    private running: Set<string>;
+    private timer: NodeJS.Timeout | null = null;
+    private started = false;
+    private saving: Promise<void> = Promise.resolve();
+
+    /**
+     * config.runAnalysis(entry) runs the analysis for an entry and resolves
+     * with the orchestration result (including its runId).
+     */
+    constructor(config: any = {}) {
+        this.config = {
+            outputDir: config.outputDir || './outputs',
+            historySize: config.historySize || 20,
+            ...config
+        };
+
+        if (typeof this.config.runAnalysis !== 'function') {
+            throw new Error('WatchlistScheduler requires a runAnalysis function');
+        }
+
+        this.storeFile = join(this.config.outputDir, STORE_FILE);
+        this.running = new Set();
+    }
+
+    /**
+     * Load stored watchlists and start the schedule timer
+     */
+    async start(): Promise<void> {
+        const entries = await this.load();
+        const now = new Date();
+
+        // Entries missed while the server was down run at their next slot rather than all at once
+        entries.forEach(entry => {
+            if (entry.enabled && (!entry.nextRunAt || new Date(entry.nextRunAt) < now)) {
+                entry.nextRunAt = this.computeNextRun(entry.cron, now);
+            }
+        });
+        await this.save();
+
+        this.started = true;
+        this.scheduleNext();
+        log(`⏰ Watchlist scheduler started (${entries.size} watchlists)`);
+    }
+
+    stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async list(): Promise<WatchlistEntry[]> {
+        const entries = await this.load();
+        return [...entries.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async get(id: string): Promise<WatchlistEntry | null> {
+        const entries = await this.load();
+        return entries.get(id) || null;
+    }
+
+    async create(input: any): Promise<WatchlistEntry> {
+        const entries = await this.load();
+        const now = new Date().toISOString();
+        const fields = this.validate(input, true);
+
+        const entry: WatchlistEntry = {
+            id: randomUUID(),
+            name: fields.name || fields.topic,
+            topic: fields.topic,
+            focusArea: fields.focusArea ?? null,
+            config: fields.config || {},
+            cron: fields.cron,
+            enabled: fields.enabled !== false,
+            createdAt: now,
+            updatedAt: now,
+            nextRunAt: null,
+            lastRunAt: null,
+            lastRunId: null,
+            lastStatus: null,
+            lastError: null,
+            lastChanges: null,
+            runIds: []
+        };
+        entry.nextRunAt = entry.enabled ? this.computeNextRun(entry.cron) : null;
+
+        entries.set(entry.id, entry);
+        await this.save();
+        this.scheduleNext();
+
+        log(`⏰ Watchlist "${entry.name}" created (${entry.cron}, next run ${entry.nextRunAt})`);
+        return entry;
+    }
+
+    async update(id: string, input: any): Promise<WatchlistEntry | null> {
+        const entries = await this.load();
+        const entry = entries.get(id);
+        if (!entry) {
+            return null;
+        }
+
+        const fields = this.validate(input, false);
+        Object.assign(entry, fields, { updatedAt: new Date().toISOString() });
+        entry.nextRunAt = entry.enabled ? this.computeNextRun(entry.cron) : null;
+
+        await this.save();
+        this.scheduleNext();
+        return entry;
+    }
+
+    async delete(id: string): Promise<WatchlistEntry | null> {
+        const entries = await this.load();
+        const entry = entries.get(id);
+        if (!entry) {
+            return null;
+        }
+
+        entries.delete(id);
+        await this.save();
+        this.scheduleNext();
+        return entry;
+    }
+
+    /**
+     * Start an entry's analysis immediately, outside its schedule
+     */
+    async runNow(id: string): Promise<WatchlistEntry | null> {
+        const entry = await this.get(id);
+        if (!entry) {
+            return null;
+        }
+
+        this.runEntry(entry).catch(error => {
+            log(`❌ Watchlist "${entry.name}" failed:`, error.message);
+        });
+        return entry;
+    }
+
+    isRunning(id: string): boolean {
+        return this.running.has(id);
+    }
+
+    /**
+     * Run an entry and record its outcome and the changes since its previous run
+     */
+    private async runEntry(entry: WatchlistEntry): Promise<void> {
+        if (this.running.has(entry.id)) {
+            log(`⏭️  Watchlist "${entry.name}" is still running - skipping this slot`);
+            return;
+        }
+
+        this.running.add(entry.id);
+        const previousRunId = entry.lastRunId;
+        log(`⏰ Running watchlist "${entry.name}" for topic "${entry.topic}"`);
+
+        try {
+            const results = await this.config.runAnalysis(entry);
+
+            entry.lastRunAt = new Date().toISOString();
+            entry.lastRunId = results.runId || null;
+            entry.lastStatus = results.cancelled ? 'cancelled' : results.success ? 'completed' : 'failed';
+            entry.lastError = results.success ? null : results.error || 'Analysis failed';
+            entry.lastChanges = previousRunId && results.runId
+                ? await this.summarizeChanges(previousRunId, results.runId)
+                : null;
+
+            if (results.runId) {
+                entry.runIds = [results.runId, ...entry.runIds].slice(0, this.config.historySize);
+            }
+        } catch (error) {
+            entry.lastRunAt = new Date().toISOString();
+            entry.lastStatus = 'failed';
+            entry.lastError = error.message;
+            log(`❌ Watchlist "${entry.name}" failed:`, error.message);
+        } finally {
+            this.running.delete(entry.id);
+        }
+
+        // The entry may have been deleted while it was running
+        try {
+            const entries = await this.load();
+            if (entries.has(entry.id)) {
+                await this.save();
+            }
+        } catch (error) {
+            log(`⚠️  Failed to save watchlist "${entry.name}":`, error.message);
+        }
+    }
+
+    private async summarizeChanges(previousRunId: string, runId: string): Promise<any> {
+        try {
+            const runs = RunRepository.forDirectory(this.config.outputDir);
+            const [previous, current] = await Promise.all([runs.get(previousRunId), runs.get(runId)]);
+            if (!previous || !current) {
+                return null;
+            }
+
+            const diff = diffRuns(await runs.loadSnapshot(previous), await runs.loadSnapshot(current));
+            return {
+                baseRunId: previousRunId,
+                compareRunId: runId,
+                ...diff.summary,
+                synthesisChanged: diff.synthesis.changed,
+                directionChanges: diff.product.directionChanges
+            };
+        } catch (error) {
+            log('⚠️  Failed to compare watchlist runs:', error.message);
+            return null;
+        }
+    }
+
+    /**
+     * Arm the timer for the earliest due entry
+     */
+    private scheduleNext(): void {
+        if (!this.started || !this.entries) {
+            return;
+        }
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const nextTimes = [...this.entries.values()]
+            .filter(entry => entry.enabled && entry.nextRunAt)
+            .map(entry => new Date(entry.nextRunAt).getTime());
+
+        if (nextTimes.length === 0) {
+            return;
+        }
+
+        const waitMs = Math.max(0, Math.min(Math.min(...nextTimes) - Date.now(), MAX_TIMER_MS));
+        this.timer = setTimeout(() => {
+            this.runDueEntries().catch(error => {
+                log('❌ Watchlist scheduler failed:', error.message);
+            });
+        }, waitMs);
+        this.timer.unref();
+    }
+
+    private async runDueEntries(): Promise<void> {
+        this.timer = null;
+        const now = new Date();
+
+        const due = [...this.entries.values()].filter(entry =>
+            entry.enabled && entry.nextRunAt && new Date(entry.nextRunAt) <= now
+        );
+
+        // Advance schedules before running so slow analyses never run twice for one slot
+        due.forEach(entry => {
+            entry.nextRunAt = this.computeNextRun(entry.cron, now);
+        });
+        try {
+            if (due.length > 0) {
+                await this.save();
+            }
+        } finally {
+            // A failed save must not stop the schedule
+            this.scheduleNext();
+        }
+
+        for (const entry of due) {
+            await this.runEntry(entry);
+        }
+    }
+
+    private computeNextRun(cron: string, from: Date = new Date()): string | null {
+        return nextCronRun(cron, from)?.toISOString() || null;
+    }
+
+    /**
+     * Validate create/update input; only known fields are returned
+     */
+    private validate(input: any, creating: boolean): any {
+        const fields: any = {};
+
+        if (!input || typeof input !== 'object') {
+            throw new WatchlistValidationError('Watchlist body must be an object');
+        }
+
+        if (creating || input.topic !== undefined) {
+            if (!input.topic || typeof input.topic !== 'string' || input.topic.trim().length === 0) {
+                throw new WatchlistValidationError('Topic is required and must be a non-empty string');
+            }
+            fields.topic = input.topic.trim();
+        }
+
+        if (creating || input.cron !== undefined) {
+            try {
+                parseCron(input.cron);
+            } catch (error) {
+                throw new WatchlistValidationError(error instanceof CronParseError ? error.message : 'Invalid cron expression');
+            }
+            // e.g. "0 0 31 2 *" parses but never comes round
+            if (!nextCronRun(input.cron)) {
+                throw new WatchlistValidationError(`Cron expression "${input.cron.trim()}" never matches a date`);
+            }
+            fields.cron = input.cron.trim();
+        }
+
+        if (input.name !== undefined) {
+            fields.name = String(input.name).trim();
+        }
+        if (input.focusArea !== undefined) {
+            fields.focusArea = typeof input.focusArea === 'string' && input.focusArea.trim() ? input.focusArea.trim() : null;
+        }
+        if (input.config !== undefined) {
+            if (input.config !== null && typeof input.config !== 'object') {
+                throw new WatchlistValidationError('config must be an object');
+            }
+            fields.config = input.config || {};
+        }
+        if (input.enabled !== undefined) {
+            fields.enabled = Boolean(input.enabled);
+        }
+
+        return fields;
+    }
+
+    private async load(): Promise<Map<string, WatchlistEntry>> {
+        if (this.entries) {
+            return this.entries;
+        }
+
+        let stored: WatchlistEntry[] = [];
+        try {
+            stored = JSON.parse(await fs.readFile(this.storeFile, 'utf-8'));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                log(`⚠️  Failed to read ${this.storeFile}:`, error.message);
+            }
+        }
+
+        this.entries = new Map(stored.map(entry => [entry.id, entry]));
+        return this.entries;
+    }
+
+    /**
+     * Write all entries, one save at a time so concurrent writes never interleave
+     */
+    private save(): Promise<void> {
+        const write = async () => {
+            await fs.mkdir(this.config.outputDir, { recursive: true });
+            const tempFile = `${this.storeFile}.tmp`;
+            await fs.writeFile(tempFile, JSON.stringify([...this.entries.values()], null, 2));
+            await fs.rename(tempFile, this.storeFile);
+        };
+
+        const result = this.saving.then(write);
+        this.saving = result.catch(() => undefined);
+        return result;
+    }
+}
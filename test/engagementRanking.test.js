@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExternalSignalsAgent } from '../build/agents/externalSignalsAgent.js';
+import { ConnectorRegistry } from '../build/connectors/connectorRegistry.js';
+import { HackerNewsConnector } from '../build/connectors/hackerNewsConnector.js';
+import { RedditConnector } from '../build/connectors/redditConnector.js';
+import { recordedFetch } from './helpers/recordedFetch.js';
+
+process.env.MCP_SILENT = '1';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function agentWith(connectors = []) {
+    return new ExternalSignalsAgent({ registry: new ConnectorRegistry(connectors) });
+}
+
+function signal(overrides = {}) {
+    return {
+        type: 'hackernews_story',
+        title: 'Bicep testing',
+        relevanceScore: 0.5,
+        publishedAt: new Date(Date.now() - 3 * DAY_MS).toISOString(),
+        ...overrides
+    };
+}
+
+test('engagement scores on a log scale, capped at 1', () => {
+    const agent = agentWith();
+
+    assert.equal(agent.calculateEngagementScore(signal()), null);
+    assert.equal(agent.calculateEngagementScore(signal({ metadata: { points: 0, commentCount: 0 } })), 0);
+    assert.equal(agent.calculateEngagementScore(signal({ metadata: { points: 9 } })), 1 / 3);
+    // A comment counts as two points
+    assert.equal(agent.calculateEngagementScore(signal({ metadata: { points: 39, commentCount: 30 } })), 2 / 3);
+    assert.equal(agent.calculateEngagementScore(signal({ metadata: { points: 50000, commentCount: 9000 } })), 1);
+});
+
+test('signals without engagement keep the relevance and recency weights', () => {
+    const agent = agentWith();
+
+    // 0.7 relevance + 0.3 recency (0.8 within a week)
+    assert.ok(Math.abs(agent.calculateCombinedScore(signal(), 'Bicep testing', null) - (0.5 * 0.7 + 0.8 * 0.3)) < 1e-9);
+});
+
+test('more engagement ranks higher when relevance and recency are equal', () => {
+    const agent = agentWith();
+    const ranked = agent.rankSignalsByRelevance([
+        signal({ title: 'quiet', metadata: { points: 2, commentCount: 0 } }),
+        signal({ title: 'busy', metadata: { points: 412, commentCount: 187 } }),
+        signal({ title: 'some', metadata: { points: 35, commentCount: 12 } })
+    ], 'Bicep testing', null);
+
+    assert.deepEqual(ranked.map(item => item.title), ['busy', 'some', 'quiet']);
+});
+
+test('engagement does not outrank a much more relevant signal', () => {
+    const agent = agentWith();
+    const ranked = agent.rankSignalsByRelevance([
+        signal({ title: 'popular', relevanceScore: 0.2, metadata: { points: 5000, commentCount: 900 } }),
+        signal({ title: 'relevant', type: 'news_article', relevanceScore: 0.9 })
+    ], 'Bicep testing', null);
+
+    assert.deepEqual(ranked.map(item => item.title), ['relevant', 'popular']);
+});
+
+test('recorded Hacker News and Reddit signals are ranked by combined score', async () => {
+    const { fetch } = recordedFetch(url => {
+        if (url.hostname === 'hn.algolia.com') {
+            const tags = url.searchParams.get('tags');
+            const story = tags?.match(/^comment,story_(\d+)$/)?.[1];
+            return tags === 'story' ? 'hackernews/search-stories.json' : story ? `hackernews/comments-${story}.json` : null;
+        }
+        if (url.pathname.endsWith('/search.json')) {
+            return 'reddit/search.json';
+        }
+        return url.pathname === '/comments/1fq2x7k.json' ? 'reddit/comments-1fq2x7k.json' : null;
+    });
+    const agent = agentWith([new HackerNewsConnector({ fetch }), new RedditConnector({ fetch })]);
+
+    const result = await agent.gatherSignals('Bicep testing', null);
+
+    assert.equal(result.status, 'success');
+    assert.equal(result.signalCount, 5);
+    assert.deepEqual(result.sources.map(source => [source.id, source.status, source.count]), [['hackernews', 'success', 3], ['reddit', 'success', 2]]);
+    const scores = result.rankedSignals.map(item => item.combinedScore);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    assert.ok(result.rankedSignals.every(item => item.metadata.points !== undefined && item.metadata.commentCount !== undefined));
+});
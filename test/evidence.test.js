@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignEvidenceIds } from '../build/evidence.js';
+
+test('signals sharing a URL get distinct evidence ids', () => {
+    const rankedSignals = [1, 2, 3, 4].map(n => ({ type: 'app_review', title: `Review ${n}`, url: 'https://apps.apple.com/us/app/id123' }));
+    const index = assignEvidenceIds({ external: { rankedSignals } });
+
+    assert.equal(new Set(rankedSignals.map(signal => signal.evidenceId)).size, 4);
+    assert.equal(index.size, 4);
+    rankedSignals.forEach(signal => assert.equal(index.get(signal.evidenceId).title, signal.title));
+});
+
+test('evidence ids are stable across runs', () => {
+    const run = () => {
+        const rankedSignals = [{ title: 'Bicep testing', url: 'https://example.dev/bicep' }];
+        assignEvidenceIds({ external: { rankedSignals } });
+        return rankedSignals[0].evidenceId;
+    };
+
+    assert.match(run(), /^E-[0-9a-f]{6}$/);
+    assert.equal(run(), run());
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HackerNewsConnector } from '../build/connectors/hackerNewsConnector.js';
+import { ProviderQuotas } from '../build/executionPlanner.js';
+import { recordedFetch } from './helpers/recordedFetch.js';
+
+process.env.MCP_SILENT = '1';
+
+function recordedHackerNews() {
+    return recordedFetch(url => {
+        const tags = url.searchParams.get('tags');
+        if (tags === 'story') {
+            return 'hackernews/search-stories.json';
+        }
+        const story = tags?.match(/^comment,story_(\d+)$/)?.[1];
+        return story === '41880123' || story === '41902277' ? `hackernews/comments-${story}.json` : null;
+    });
+}
+
+test('searches recent stories for the topic', async () => {
+    const { fetch, requests } = recordedHackerNews();
+    const connector = new HackerNewsConnector({ fetch, lookbackDays: 30 });
+
+    await connector.fetch('Bicep testing', null, { maxResults: 20 });
+
+    const search = requests[0];
+    assert.equal(search.searchParams.get('query'), 'Bicep testing');
+    assert.equal(search.searchParams.get('tags'), 'story');
+    assert.equal(search.searchParams.get('hitsPerPage'), '20');
+    const since = Number(search.searchParams.get('numericFilters').replace('created_at_i>', ''));
+    assert.ok(Math.abs(since - (Date.now() / 1000 - 30 * 24 * 60 * 60)) < 60);
+});
+
+test('normalizes stories into hackernews_story signals', async () => {
+    const { fetch } = recordedHackerNews();
+    const result = await new HackerNewsConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+
+    assert.equal(result.status, 'success');
+    assert.equal(result.source, 'Hacker News');
+    assert.equal(result.signals.length, 3);
+
+    const [showHn, askHn] = result.signals;
+    assert.equal(showHn.type, 'hackernews_story');
+    assert.equal(showHn.title, 'Show HN: Unit tests for Bicep testing without deploying to Azure');
+    assert.equal(showHn.url, 'https://github.com/mkaminski/bicep-unit');
+    assert.equal(showHn.publishedAt, '2026-09-24T14:03:11Z');
+    assert.ok(showHn.relevanceScore > 0);
+
+    // Text posts link to the discussion and keep their text, without markup
+    assert.equal(askHn.url, 'https://news.ycombinator.com/item?id=41902277');
+    assert.ok(askHn.content.startsWith("How are you doing Bicep testing in CI? We run az deployment what-if on every PR but it's slow & noisy."));
+});
+
+test('keeps engagement and top comments in metadata', async () => {
+    const { fetch, requests } = recordedHackerNews();
+    const result = await new HackerNewsConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+    const [showHn, , quiet] = result.signals;
+
+    assert.equal(showHn.metadata.points, 412);
+    assert.equal(showHn.metadata.commentCount, 187);
+    assert.equal(showHn.metadata.author, 'mkaminski');
+    assert.equal(showHn.metadata.discussionUrl, 'https://news.ycombinator.com/item?id=41880123');
+    assert.deepEqual(showHn.metadata.topComments.map(comment => comment.author), ['rhea', 'tfrefugee', 'skeptic42']);
+    assert.equal(showHn.metadata.topComments[0].text, 'We replaced half of our what-if checks with this. The "expect" syntax reads much better than PSRule.');
+    assert.ok(showHn.content.includes('Mocking resource providers gets you only so far > you still need an integration environment.'));
+
+    // Stories without comments are not asked for any
+    assert.deepEqual(quiet.metadata.topComments, []);
+    assert.ok(!requests.some(url => url.searchParams.get('tags') === 'comment,story_41911904'));
+});
+
+test('story and comment requests count against the hackernews quota', async () => {
+    const { fetch, requests } = recordedHackerNews();
+    const quota = new ProviderQuotas({ hackernews: { maxConcurrent: 1, maxRequests: 2 } }, true);
+    const result = await new HackerNewsConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20, quota });
+
+    // The search and one comment page fit; the second comment page is over quota
+    assert.equal(result.status, 'success');
+    assert.equal(requests.length, 2);
+    assert.deepEqual(quota.getUsage().hackernews, { requests: 2, rejected: 1, waitedMs: quota.getUsage().hackernews.waitedMs });
+    assert.equal(result.signals.filter(story => story.metadata.topComments.length > 0).length, 1);
+});
+
+test('a failing comment request keeps the story', async () => {
+    const { fetch } = recordedFetch(url => url.searchParams.get('tags') === 'story' ? 'hackernews/search-stories.json' : null);
+    const result = await new HackerNewsConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+
+    assert.equal(result.status, 'success');
+    assert.equal(result.signals.length, 3);
+    assert.deepEqual(result.signals[0].metadata.topComments, []);
+});
+
+test('a failing search fails the connector', async () => {
+    const { fetch } = recordedFetch(() => null);
+    const result = await new HackerNewsConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+
+    assert.equal(result.status, 'failed');
+    assert.deepEqual(result.signals, []);
+    assert.match(result.error, /404/);
+});
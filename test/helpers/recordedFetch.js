@@ -0,0 +1,29 @@
+/**
+ * A fetch replacement that answers from recorded responses in test/fixtures
+ *
+ * route(url) returns the fixture path (relative to test/fixtures) for a
+ * request, or null for a 404. Every requested URL is kept in `requests`.
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+export function loadFixture(path) {
+    return JSON.parse(readFileSync(join(FIXTURES_DIR, path), 'utf-8'));
+}
+
+export function recordedFetch(route) {
+    const requests = [];
+    const fetch = async (url) => {
+        requests.push(new URL(url));
+        const fixture = route(new URL(url));
+        if (!fixture) {
+            return { ok: false, status: 404, statusText: 'Not Found', json: async () => ({}) };
+        }
+        return { ok: true, status: 200, statusText: 'OK', json: async () => loadFixture(fixture) };
+    };
+    return { fetch, requests };
+}
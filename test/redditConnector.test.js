@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RedditConnector } from '../build/connectors/redditConnector.js';
+import { recordedFetch } from './helpers/recordedFetch.js';
+
+process.env.MCP_SILENT = '1';
+
+function recordedReddit() {
+    return recordedFetch(url => {
+        if (url.pathname.endsWith('/search.json')) {
+            return 'reddit/search.json';
+        }
+        return url.pathname === '/comments/1fq2x7k.json' ? 'reddit/comments-1fq2x7k.json' : null;
+    });
+}
+
+test('searches all of Reddit by default', async () => {
+    const { fetch, requests } = recordedReddit();
+    await new RedditConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+
+    const search = requests[0];
+    assert.equal(search.pathname, '/search.json');
+    assert.equal(search.searchParams.get('q'), 'Bicep testing');
+    assert.equal(search.searchParams.get('t'), 'month');
+    assert.equal(search.searchParams.get('limit'), '20');
+    assert.equal(search.searchParams.get('raw_json'), '1');
+    assert.equal(search.searchParams.get('restrict_sr'), null);
+});
+
+test('restricts the search to configured subreddits', async () => {
+    const { fetch, requests } = recordedReddit();
+    const result = await new RedditConnector({ fetch, subreddits: ['AZURE', 'devops'], timeWindow: 'year' })
+        .fetch('Bicep testing', null, { maxResults: 20 });
+
+    assert.equal(requests[0].pathname, '/r/AZURE+devops/search.json');
+    assert.equal(requests[0].searchParams.get('restrict_sr'), '1');
+    assert.equal(requests[0].searchParams.get('t'), 'year');
+    assert.equal(result.source, 'Reddit (2 subreddits)');
+});
+
+test('normalizes posts into reddit_post signals', async () => {
+    const { fetch } = recordedReddit();
+    const result = await new RedditConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+
+    assert.equal(result.status, 'success');
+    assert.equal(result.signals.length, 2);
+
+    const [selfPost, linkPost] = result.signals;
+    assert.equal(selfPost.type, 'reddit_post');
+    assert.equal(selfPost.source, 'r/AZURE');
+    assert.equal(selfPost.publishedAt, new Date(1790412000 * 1000).toISOString());
+    // Self posts link to the thread, link posts to what they share
+    assert.equal(selfPost.url, 'https://www.reddit.com/r/AZURE/comments/1fq2x7k/bicep_testing_what_does_your_pipeline_look_like/');
+    assert.equal(linkPost.url, 'https://techcommunity.microsoft.com/blog/azuretoolsblog/avm-bicep-tests');
+    assert.ok(selfPost.content.startsWith('We lint with `bicep build` and run what-if'));
+    assert.ok(selfPost.relevanceScore > 0);
+});
+
+test('keeps engagement and top comments in metadata', async () => {
+    const { fetch, requests } = recordedReddit();
+    const result = await new RedditConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+    const [selfPost, linkPost] = result.signals;
+
+    assert.equal(selfPost.metadata.points, 96);
+    assert.equal(selfPost.metadata.commentCount, 41);
+    assert.equal(selfPost.metadata.subreddit, 'AZURE');
+    assert.equal(selfPost.metadata.discussionUrl, 'https://www.reddit.com/r/AZURE/comments/1fq2x7k/bicep_testing_what_does_your_pipeline_look_like/');
+    // "more" placeholders are not comments
+    assert.deepEqual(selfPost.metadata.topComments, [
+        { author: 'armtemplateveteran', text: 'PSRule on the compiled JSON catches most of it. What-if is too noisy to gate on.', points: 58 },
+        { author: 'moduleauthor', text: "We deploy every module to a throwaway resource group nightly & tear it down. Slow, but it's the only thing we trust.", points: 31 }
+    ]);
+
+    assert.deepEqual(linkPost.metadata.topComments, []);
+    assert.ok(!requests.some(url => url.pathname === '/comments/1fr9m2d.json'));
+});
+
+test('a failing search fails the connector', async () => {
+    const { fetch } = recordedFetch(() => null);
+    const result = await new RedditConnector({ fetch }).fetch('Bicep testing', null, { maxResults: 20 });
+
+    assert.equal(result.status, 'failed');
+    assert.match(result.error, /Reddit API error: 404/);
+});
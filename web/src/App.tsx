@@ -1,4 +1,13 @@
 import { useState } from 'react';
+import RunDownloads from './RunDownloads';
+import RunChat from './RunChat';
+import RunHistory from './RunHistory';
+import { Citations, CitedText, EvidenceList } from './Citations';
+import StructuredSynthesisView, { StructuredSynthesis } from './StructuredSynthesisView';
+import TriangulationView, { Triangulation } from './TriangulationView';
+import WeightingTriangle, { SourceStrength } from './WeightingTriangle';
+import WatchlistPanel from './WatchlistPanel';
+import FeedLibraryPanel from './FeedLibraryPanel';
 import './index.css';
 
 interface AgentStatus {
@@ -7,24 +16,71 @@ interface AgentStatus {
   research: 'idle' | 'active' | 'complete' | 'failed';
 }
 
+interface AgentOutcome {
+  status: 'fulfilled' | 'failed' | 'timed-out' | 'skipped';
+  error: string | null;
+  executionTime: number;
+}
+
+interface ProgressEvent {
+  type: string;
+  agent?: 'external' | 'internal' | 'product';
+  source?: string;
+  message: string;
+  data?: any;
+  timestamp: string;
+}
+
+// Orchestrator agent names mapped to the live-update panels
+const AGENT_PANELS: { [agent: string]: keyof AgentStatus } = {
+  external: 'market',
+  internal: 'research',
+  product: 'product'
+};
+
+interface SynthesisStage {
+  id: string;
+  title: string;
+  status: 'completed' | 'failed' | 'skipped';
+  content: string | null;
+  model: string | null;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number } | null;
+  executionTime: number;
+  error: string | null;
+  // Present on the strategic synthesis stage when its JSON passed validation
+  structured?: StructuredSynthesis | null;
+  cached?: boolean;
+}
+
 interface AnalysisResult {
   success: boolean;
+  cancelled?: boolean;
+  runId?: string;
   signals: {
-    external: { status: string; signalCount: number };
-    internal: { status: string; findingCount: number };
-    product: { status: string; dataPointCount: number };
+    external: { status: string; signalCount: number; error?: string };
+    internal: { status: string; findingCount: number; error?: string };
+    product: { status: string; dataPointCount: number; error?: string };
   };
   insights?: {
+    executiveSummary?: { signalStrength?: SourceStrength[] };
+    triangulation?: Triangulation;
     llmSynthesis?: {
       content: string;
       model: string;
       executionTime: number;
+      usage?: { totalTokens: number };
+      stages?: SynthesisStage[];
+      citations?: Citations;
       error?: string;
     };
   };
   metadata: {
     executionTime: number;
     totalSignals: number;
+    agentOutcomes?: { [agent: string]: AgentOutcome };
+    completedAgents?: string[];
+    cancellationReason?: string;
+    llmCache?: { enabled: boolean; bypassed: boolean; hits: number; misses: number; tokensSaved: number };
   };
 }
 
@@ -37,11 +93,20 @@ function App() {
   // Data source configuration
   const [config, setConfig] = useState({
     researchPaths: './processed-research,./research-outputs,./docs',
-    customRssFeeds: '',
+    feedTags: '',
+    githubRepositories: '',
     newsApiKey: '',
     youtubeApiKey: '',
+    githubToken: '',
     amplitudeApiKey: '',
-    amplitudeSecretKey: ''
+    amplitudeSecretKey: '',
+    executionMode: 'sequential',
+    maxConcurrentAgents: '2',
+    llmProvider: 'auto',
+    noCache: false,
+    marketWeight: '1',
+    researchWeight: '1',
+    productWeight: '1'
   });
   
   const [agentStatus, setAgentStatus] = useState<AgentStatus>({
@@ -58,6 +123,148 @@ function App() {
     research: [],
     product: []
   });
+  const [runUpdates, setRunUpdates] = useState<string[]>([]);
+  const [agentErrors, setAgentErrors] = useState<{[key: string]: string}>({});
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  const appendUpdate = (panel: keyof AgentStatus, message: string) => {
+    setLiveUpdates(prev => ({ ...prev, [panel]: [...prev[panel], message] }));
+  };
+
+  const handleProgressEvent = (event: ProgressEvent) => {
+    const panel = event.agent ? AGENT_PANELS[event.agent] : null;
+
+    switch (event.type) {
+      case 'agent_started':
+        if (panel) {
+          setAgentStatus(prev => ({ ...prev, [panel]: 'active' }));
+          appendUpdate(panel, `🔄 ${event.message}`);
+        }
+        break;
+      case 'source_finished':
+        if (panel) {
+          appendUpdate(panel, `${event.data?.status === 'failed' ? '⚠️' : '📥'} ${event.message}`);
+        }
+        break;
+      case 'agent_retry':
+        if (panel) {
+          appendUpdate(panel, `⏳ ${event.message}`);
+        }
+        break;
+      case 'agent_finished':
+        if (panel) {
+          setAgentStatus(prev => ({ ...prev, [panel]: 'complete' }));
+          appendUpdate(panel, `✅ ${event.message}`);
+        }
+        break;
+      case 'agent_failed':
+        if (panel) {
+          setAgentStatus(prev => ({ ...prev, [panel]: 'failed' }));
+          setAgentErrors(prev => ({ ...prev, [panel]: event.message }));
+          appendUpdate(panel, `❌ ${event.message}`);
+        }
+        break;
+      case 'agent_skipped':
+        if (panel) {
+          setAgentErrors(prev => ({ ...prev, [panel]: event.message }));
+          appendUpdate(panel, `⏭️ ${event.message}`);
+        }
+        break;
+      case 'cancelled':
+        setAgentStatus(prev => ({
+          market: prev.market === 'active' ? 'failed' : prev.market,
+          research: prev.research === 'active' ? 'failed' : prev.research,
+          product: prev.product === 'active' ? 'failed' : prev.product
+        }));
+        setRunUpdates(prev => [...prev, `⏹️ ${event.message}`]);
+        break;
+      case 'run_started':
+      case 'synthesis_started':
+      case 'synthesis_stage_finished':
+      case 'synthesis_finished':
+      case 'done':
+        setRunUpdates(prev => [...prev, event.message]);
+        break;
+    }
+  };
+
+  // Follow a job's Server-Sent Events until it completes or fails
+  const streamJobEvents = (jobId: string) => new Promise<AnalysisResult>((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.onmessage = (message) => {
+      const event: ProgressEvent = JSON.parse(message.data);
+
+      if (event.type === 'job_completed' || event.type === 'job_cancelled') {
+        source.close();
+        resolve(event.data);
+      } else if (event.type === 'job_failed' || event.type === 'error') {
+        source.close();
+        reject(new Error(event.message));
+      } else {
+        handleProgressEvent(event);
+      }
+    };
+
+    source.onerror = () => {
+      source.close();
+      reject(new Error('Lost connection to analysis progress stream'));
+    };
+  });
+
+  // Sync the triangle dots with the per-agent outcomes reported by the server
+  const applyAgentOutcomes = (result: AnalysisResult) => {
+    const outcomes = result.metadata.agentOutcomes;
+    if (!outcomes) return;
+
+    const nextStatus = { ...agentStatus };
+    const nextErrors: {[key: string]: string} = {};
+    Object.entries(outcomes).forEach(([agent, outcome]) => {
+      const panel = AGENT_PANELS[agent];
+      if (!panel) return;
+      nextStatus[panel] = outcome.status === 'fulfilled' ? 'complete' : outcome.status === 'skipped' ? 'idle' : 'failed';
+      if (outcome.error) {
+        nextErrors[panel] = `${outcome.status}: ${outcome.error}`;
+      }
+    });
+    setAgentStatus(nextStatus);
+    setAgentErrors(nextErrors);
+  };
+
+  // Only sent when a source is weighted away from the default of 1
+  const buildSourceWeights = () => {
+    const sources = {
+      external: parseFloat(config.marketWeight),
+      internal: parseFloat(config.researchWeight),
+      product: parseFloat(config.productWeight)
+    };
+    const weighted = Object.values(sources).some(weight => !isNaN(weight) && weight !== 1);
+    return weighted
+      ? { sources: Object.fromEntries(Object.entries(sources).map(([source, weight]) => [source, isNaN(weight) ? 1 : weight])) }
+      : undefined;
+  };
+
+  // API keys are left out of configs that get stored (watchlists); the server falls back to its environment
+  const buildRequestConfig = (includeApiKeys: boolean) => ({
+    researchDirectories: config.researchPaths.split(',').map(p => p.trim()).filter(p => p),
+    feedTags: config.feedTags.trim() ? config.feedTags.split(',').map(p => p.trim().toLowerCase()).filter(p => p) : undefined,
+    githubRepositories: config.githubRepositories.trim() ? config.githubRepositories.split(',').map(p => p.trim()).filter(p => p) : undefined,
+    apis: includeApiKeys ? {
+      newsApiKey: config.newsApiKey.trim() || undefined,
+      youtubeApiKey: config.youtubeApiKey.trim() || undefined,
+      githubToken: config.githubToken.trim() || undefined,
+      amplitudeApiKey: config.amplitudeApiKey.trim() || undefined,
+      amplitudeSecretKey: config.amplitudeSecretKey.trim() || undefined
+    } : undefined,
+    execution: {
+      mode: config.executionMode,
+      maxConcurrentAgents: config.executionMode === 'bounded' ? parseInt(config.maxConcurrentAgents) || 2 : undefined
+    },
+    llmProvider: config.llmProvider === 'auto' ? undefined : config.llmProvider,
+    sourceWeights: buildSourceWeights()
+  });
 
   const handleAnalyze = async () => {
     if (!topic.trim()) {
@@ -82,42 +289,11 @@ function App() {
       research: [],
       product: []
     });
+    setRunUpdates([]);
+    setAgentErrors({});
 
     try {
-      // Start all agents in parallel
-      setTimeout(() => {
-        setAgentStatus({
-          market: 'active',
-          research: 'active', 
-          product: 'active'
-        });
-        
-        // Add initial updates
-        setLiveUpdates({
-          market: ['🔍 Searching news articles and industry reports...'],
-          research: ['📁 Scanning internal documents and research files...'],
-          product: ['📊 Collecting usage metrics and performance data...']
-        });
-      }, 500);
-
-      // Progressive updates
-      setTimeout(() => {
-        setLiveUpdates(prev => ({
-          market: [...prev.market, '📰 Found 12 news articles about ' + topic, '🔍 Analyzing TechCrunch and industry coverage...'],
-          research: [...prev.research, '📄 Scanning 8 internal documents', '🎤 Processing meeting transcripts...'],
-          product: [...prev.product, '📈 Collecting user engagement metrics', '⚡ Analyzing feature adoption rates...']
-        }));
-      }, 1500);
-
-      setTimeout(() => {
-        setLiveUpdates(prev => ({
-          market: [...prev.market, '📊 Processing industry analyst reports', '🐦 Checking social media mentions...'],
-          research: [...prev.research, '💬 Found relevant user interview data', '🔍 Extracting key insights...'],
-          product: [...prev.product, '⚡ Gathering performance benchmarks', '📝 Analyzing user feedback scores...']
-        }));
-      }, 3000);
-
-      const response = await fetch('/api/orchestrate', {
+      const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -125,16 +301,8 @@ function App() {
         body: JSON.stringify({
           topic: topic.trim(),
           focus_area: focusArea.trim() || null,
-          config: {
-            researchDirectories: config.researchPaths.split(',').map(p => p.trim()).filter(p => p),
-            customRssFeeds: config.customRssFeeds.split(',').map(p => p.trim()).filter(p => p),
-            apis: {
-              newsApiKey: config.newsApiKey.trim() || undefined,
-              youtubeApiKey: config.youtubeApiKey.trim() || undefined,
-              amplitudeApiKey: config.amplitudeApiKey.trim() || undefined,
-              amplitudeSecretKey: config.amplitudeSecretKey.trim() || undefined
-            }
-          }
+          config: buildRequestConfig(true),
+          noCache: config.noCache
         })
       });
 
@@ -142,38 +310,14 @@ function App() {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const result: AnalysisResult = await response.json();
-      setResults(result);
+      const job = await response.json();
+      setJobId(job.jobId);
+      const result = await streamJobEvents(job.jobId);
 
-      // Complete agents sequentially
-      setTimeout(() => {
-        setAgentStatus(prev => ({ ...prev, market: 'complete' }));
-        setLiveUpdates(prev => ({
-          ...prev,
-          market: [...prev.market, '✅ Market analysis complete - ' + (result.signals?.external?.signalCount || 0) + ' signals found']
-        }));
-        
-        setTimeout(() => {
-          setAgentStatus(prev => ({ ...prev, research: 'complete' }));
-          setLiveUpdates(prev => ({
-            ...prev,
-            research: [...prev.research, '✅ Research analysis complete - ' + (result.signals?.internal?.findingCount || 0) + ' findings']
-          }));
-          
-          setTimeout(() => {
-            setAgentStatus(prev => ({ ...prev, product: 'complete' }));
-            setLiveUpdates(prev => ({
-              ...prev,
-              product: [...prev.product, '✅ Product analysis complete - ' + (result.signals?.product?.dataPointCount || 0) + ' data points']
-            }));
-            
-            setTimeout(() => {
-              setAnalysisComplete(true);
-              setShowLiveUpdates(false);
-            }, 800);
-          }, 800);
-        }, 800);
-      }, 1000);
+      setResults(result);
+      applyAgentOutcomes(result);
+      setAnalysisComplete(result.success && !result.cancelled);
+      setShowLiveUpdates(false);
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed');
@@ -185,6 +329,24 @@ function App() {
       setShowLiveUpdates(false);
     } finally {
       setIsAnalyzing(false);
+      setIsCancelling(false);
+      setJobId(null);
+      setHistoryVersion(version => version + 1);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 409) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel analysis');
+      setIsCancelling(false);
     }
   };
 
@@ -213,6 +375,8 @@ function App() {
       research: [],
       product: []
     });
+    setRunUpdates([]);
+    setAgentErrors({});
   };
 
   return (
@@ -316,15 +480,101 @@ function App() {
               </div>
 
               <div className="config-section">
-                <h4><span className="config-emoji">📰</span> Custom RSS Feeds</h4>
+                <h4><span className="config-emoji">📰</span> RSS Feed Tags</h4>
                 <input
                   type="text"
-                  value={config.customRssFeeds}
-                  onChange={(e) => setConfig(prev => ({...prev, customRssFeeds: e.target.value}))}
-                  placeholder="https://techcrunch.com/feed,https://blog.yourcompany.com/feed"
+                  value={config.feedTags}
+                  onChange={(e) => setConfig(prev => ({...prev, feedTags: e.target.value}))}
+                  placeholder="competitor,analyst,community"
                   disabled={isAnalyzing}
                 />
-                <small>Industry-specific RSS feeds for market intelligence</small>
+                <small>Only feeds from the RSS Feed Library with any of these tags; all enabled feeds when empty</small>
+              </div>
+
+              <div className="config-section">
+                <h4><span className="config-emoji">🐙</span> GitHub Repositories</h4>
+                <input
+                  type="text"
+                  value={config.githubRepositories}
+                  onChange={(e) => setConfig(prev => ({...prev, githubRepositories: e.target.value}))}
+                  placeholder="Azure/bicep,hashicorp/terraform"
+                  disabled={isAnalyzing}
+                />
+                <small>Comma-separated owner/name repositories whose issues, discussions and releases are tracked</small>
+              </div>
+
+              <div className="config-section">
+                <h4><span className="config-emoji">⚡</span> Execution Strategy</h4>
+                <select
+                  value={config.executionMode}
+                  onChange={(e) => setConfig(prev => ({...prev, executionMode: e.target.value}))}
+                  disabled={isAnalyzing}
+                >
+                  <option value="sequential">Sequential - one agent at a time</option>
+                  <option value="parallel">Parallel - all agents at once</option>
+                  <option value="bounded">Bounded - limited concurrency with API quotas</option>
+                </select>
+                {config.executionMode === 'bounded' && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={3}
+                    value={config.maxConcurrentAgents}
+                    onChange={(e) => setConfig(prev => ({...prev, maxConcurrentAgents: e.target.value}))}
+                    disabled={isAnalyzing}
+                  />
+                )}
+                <small>How agents are scheduled; bounded mode also caps NewsAPI, YouTube, Hacker News, Reddit, GitHub, Amplitude and OpenAI requests</small>
+              </div>
+
+              <div className="config-section">
+                <h4><span className="config-emoji">🤖</span> LLM Provider</h4>
+                <select
+                  value={config.llmProvider}
+                  onChange={(e) => setConfig(prev => ({...prev, llmProvider: e.target.value}))}
+                  disabled={isAnalyzing}
+                >
+                  <option value="auto">Server default</option>
+                  <option value="azure">Azure OpenAI</option>
+                  <option value="openai">OpenAI</option>
+                  <option value="local">Local OpenAI-compatible server</option>
+                  <option value="stub">Stub - deterministic offline output</option>
+                </select>
+                <label className="config-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={config.noCache}
+                    onChange={(e) => setConfig(prev => ({...prev, noCache: e.target.checked}))}
+                    disabled={isAnalyzing}
+                  />
+                  Ignore cached AI responses
+                </label>
+                <small>Which model runs the synthesis; the server supplies credentials and endpoints. Identical prompts reuse cached responses unless ignored.</small>
+              </div>
+
+              <div className="config-section">
+                <h4><span className="config-emoji">⚖️</span> Source Weights</h4>
+                <div className="api-keys-grid">
+                  {([
+                    ['marketWeight', 'Market'],
+                    ['researchWeight', 'Research'],
+                    ['productWeight', 'Product Metrics']
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="key-input">
+                      <label>{label}</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.1}
+                        value={config[key]}
+                        onChange={(e) => setConfig(prev => ({...prev, [key]: e.target.value}))}
+                        disabled={isAnalyzing}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <small>How much each source counts toward signal strength and theme confidence (0-10, default 1)</small>
               </div>
 
               <div className="config-section">
@@ -350,6 +600,16 @@ function App() {
                       disabled={isAnalyzing}
                     />
                   </div>
+                  <div className="key-input">
+                    <label>GitHub Token</label>
+                    <input
+                      type="password"
+                      value={config.githubToken}
+                      onChange={(e) => setConfig(prev => ({...prev, githubToken: e.target.value}))}
+                      placeholder="Token for discussions and higher rate limits"
+                      disabled={isAnalyzing}
+                    />
+                  </div>
                   <div className="key-input">
                     <label>Amplitude API Key</label>
                     <input
@@ -384,6 +644,12 @@ function App() {
               {isAnalyzing ? 'Analyzing...' : 'Start Analysis'}
             </button>
 
+            {isAnalyzing && jobId && (
+              <button onClick={handleCancel} disabled={isCancelling} className="reset-btn">
+                {isCancelling ? 'Cancelling...' : 'Cancel'}
+              </button>
+            )}
+
             {(results || error) && (
               <button onClick={resetAnalysis} className="reset-btn">
                 Reset
@@ -401,21 +667,21 @@ function App() {
             <div className="grid-line horizontal line-2"></div>
             
             {/* Agent dots */}
-            <div className={`${getDotClass(agentStatus.market)} market-dot`} title="Market Intelligence">
+            <div className={`${getDotClass(agentStatus.market)} market-dot`} title={agentErrors.market ? `Market Intelligence - ${agentErrors.market}` : 'Market Intelligence'}>
               <div className="dot-content">
                 <span className="dot-emoji">📰</span>
                 <span className="dot-label">Market</span>
               </div>
             </div>
 
-            <div className={`${getDotClass(agentStatus.research)} research-dot`} title="Internal Research Analysis">
+            <div className={`${getDotClass(agentStatus.research)} research-dot`} title={agentErrors.research ? `Internal Research Analysis - ${agentErrors.research}` : 'Internal Research Analysis'}>
               <div className="dot-content">
                 <span className="dot-emoji">💬</span>
                 <span className="dot-label">Research</span>
               </div>
             </div>
 
-            <div className={`${getDotClass(agentStatus.product)} product-dot`} title="Product Metrics & Analytics">
+            <div className={`${getDotClass(agentStatus.product)} product-dot`} title={agentErrors.product ? `Product Metrics & Analytics - ${agentErrors.product}` : 'Product Metrics & Analytics'}>
               <div className="dot-content">
                 <span className="dot-emoji">📊</span>
                 <span className="dot-label">Product</span>
@@ -450,6 +716,11 @@ function App() {
                 />
               </svg>
             )}
+
+            {/* Weighted source strength once results are in */}
+            {results?.insights?.executiveSummary?.signalStrength && (
+              <WeightingTriangle signalStrength={results.insights.executiveSummary.signalStrength} />
+            )}
           </div>
         </div>
       </div>
@@ -458,6 +729,13 @@ function App() {
       {showLiveUpdates && (
         <div className="live-status">
           <h3>Analysis in Progress</h3>
+          {runUpdates.length > 0 && (
+            <div className="run-updates">
+              {runUpdates.map((update, index) => (
+                <div key={index} className="update-item">{update}</div>
+              ))}
+            </div>
+          )}
           <div className="status-grid">
             <div className={`status-card market ${agentStatus.market}`}>
               <div className="status-header">
@@ -509,7 +787,7 @@ function App() {
 
       {results && (
         <div className="results-summary">
-          <h3>Analysis Complete</h3>
+          <h3>{results.cancelled ? 'Analysis Cancelled' : 'Analysis Complete'}</h3>
           
           <div className="analysis-summary">
             <h4>What We Analyzed</h4>
@@ -539,6 +817,9 @@ function App() {
               <span className={`status ${results.signals.external.status}`}>
                 {results.signals.external.status}
               </span>
+              {results.signals.external.error && (
+                <small className="agent-error">{results.signals.external.error}</small>
+              )}
             </div>
             
             <div className="result-card">
@@ -547,6 +828,9 @@ function App() {
               <span className={`status ${results.signals.internal.status}`}>
                 {results.signals.internal.status}
               </span>
+              {results.signals.internal.error && (
+                <small className="agent-error">{results.signals.internal.error}</small>
+              )}
             </div>
             
             <div className="result-card">
@@ -555,15 +839,34 @@ function App() {
               <span className={`status ${results.signals.product.status}`}>
                 {results.signals.product.status}
               </span>
+              {results.signals.product.error && (
+                <small className="agent-error">{results.signals.product.error}</small>
+              )}
             </div>
           </div>
           
           <div className="summary-stats">
             <p><strong>Total Signals:</strong> {results.metadata.totalSignals}</p>
             <p><strong>Execution Time:</strong> {results.metadata.executionTime}ms</p>
-            <p><strong>Analysis Status:</strong> {results.success ? '✅ Complete' : '❌ Failed'}</p>
+            {results.metadata.llmCache?.enabled && (results.metadata.llmCache.hits > 0 || results.metadata.llmCache.misses > 0) && (
+              <p>
+                <strong>AI Response Cache:</strong> {results.metadata.llmCache.hits} hits, {results.metadata.llmCache.misses} misses
+                {results.metadata.llmCache.tokensSaved > 0 && ` (${results.metadata.llmCache.tokensSaved} tokens saved)`}
+              </p>
+            )}
+            <p><strong>Analysis Status:</strong> {results.success ? '✅ Complete' : results.cancelled ? '⏹️ Cancelled' : '❌ Failed'}</p>
+            {results.cancelled && (
+              <p>
+                <strong>Finished Before Cancellation:</strong> {results.metadata.completedAgents?.length ? results.metadata.completedAgents.join(', ') : 'none'}
+                {results.metadata.cancellationReason && ` (${results.metadata.cancellationReason})`}
+              </p>
+            )}
           </div>
           
+          {results.insights?.triangulation && (
+            <TriangulationView triangulation={results.insights.triangulation} />
+          )}
+          
           {results.insights?.llmSynthesis && (
             <div className="llm-synthesis">
               <h4>🤖 AI Strategic Synthesis</h4>
@@ -572,21 +875,51 @@ function App() {
                   <p>❌ LLM synthesis failed: {results.insights.llmSynthesis.error}</p>
                 </div>
               ) : (
-                <div className="synthesis-content">
-                  <div className="synthesis-text">
-                    {results.insights.llmSynthesis.content.split('\n').map((line, index) => (
-                      <p key={index}>{line}</p>
-                    ))}
-                  </div>
+                <>
+                  {(results.insights.llmSynthesis.stages || []).map(stage => (
+                    <div key={stage.id} className="synthesis-content synthesis-stage">
+                      <h5>{stage.title}</h5>
+                      {stage.status === 'completed' ? (
+                        <>
+                          {stage.structured ? (
+                            <StructuredSynthesisView synthesis={stage.structured} citations={results.insights?.llmSynthesis?.citations} />
+                          ) : (
+                            <div className="synthesis-text">
+                              {(stage.content || '').split('\n').map((line, index) => (
+                                <p key={index}><CitedText text={line} citations={results.insights?.llmSynthesis?.citations} /></p>
+                              ))}
+                            </div>
+                          )}
+                          <div className="synthesis-meta">
+                            <small>
+                              {stage.model} · {stage.usage ? `${stage.usage.totalTokens} tokens` : 'token usage unavailable'} · {stage.executionTime}ms{stage.cached && ' · cached'}
+                            </small>
+                          </div>
+                        </>
+                      ) : (
+                        <div className="synthesis-error">
+                          <p>{stage.status === 'skipped' ? '⏭️ Skipped' : '❌ Failed'}: {stage.error}</p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {results.insights.llmSynthesis.citations && (
+                    <EvidenceList citations={results.insights.llmSynthesis.citations} />
+                  )}
                   <div className="synthesis-meta">
                     <small>
                       Generated by {results.insights.llmSynthesis.model} in {results.insights.llmSynthesis.executionTime}ms
+                      {results.insights.llmSynthesis.usage && ` (${results.insights.llmSynthesis.usage.totalTokens} tokens)`}
                     </small>
                   </div>
-                </div>
+                </>
               )}
             </div>
           )}
+
+          {results.runId && !results.cancelled && <RunChat runId={results.runId} />}
+
+          {results.runId && <RunDownloads runId={results.runId} />}
           
           <div className="next-steps">
             <h4>🎯 Suggested Customer Research Questions</h4>
@@ -609,6 +942,17 @@ function App() {
           </div>
         </div>
       )}
+
+      <WatchlistPanel
+        defaultTopic={topic}
+        defaultFocusArea={focusArea}
+        getConfig={() => buildRequestConfig(false)}
+        onRunFinished={() => setHistoryVersion(version => version + 1)}
+      />
+
+      <FeedLibraryPanel />
+
+      <RunHistory refreshKey={historyVersion} />
     </div>
   );
 }
@@ -0,0 +1,126 @@
+export interface EvidenceItem {
+  id: string;
+  kind: 'external' | 'internal' | 'metric';
+  title: string;
+  excerpt: string;
+  source: string;
+  url: string | null;
+  filePath: string | null;
+  line: number | null;
+  timestamp: string | null;
+  metric: string | null;
+}
+
+export interface Citations {
+  cited: string[];
+  invalid: string[];
+  evidence: { [id: string]: EvidenceItem };
+  uncitedClaims: number;
+}
+
+// Matches the evidence ids the synthesis cites inline, e.g. [E-1a2b3c]
+const CITATION_PATTERN = /(\[[EIM]-[0-9a-f]{6,8}\])/;
+
+const KIND_ICONS = {
+  external: '🌍',
+  internal: '🔬',
+  metric: '📊'
+};
+
+const describeLocation = (item: EvidenceItem) => {
+  if (item.kind === 'metric') {
+    return `Metric: ${item.metric}`;
+  }
+  if (item.filePath) {
+    return `${item.filePath}${item.line ? `:${item.line}` : ''}${item.timestamp ? ` @ ${item.timestamp}` : ''}`;
+  }
+  return item.url || item.source;
+};
+
+interface CitedTextProps {
+  text: string;
+  citations?: Citations;
+}
+
+/**
+ * Text with its [E-xxxxxx] citations rendered as links: external evidence opens
+ * the article, other evidence jumps to its entry in the evidence list
+ */
+export function CitedText({ text, citations }: CitedTextProps) {
+  if (!citations) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {text.split(CITATION_PATTERN).map((part, index) => {
+        const match = part.match(/^\[([EIM]-[0-9a-f]{6,8})\]$/);
+        if (!match) {
+          return part;
+        }
+        const item = citations.evidence[match[1]];
+        if (!item) {
+          return (
+            <span key={index} className="citation invalid" title="Unverified citation - no matching evidence">
+              {part}
+            </span>
+          );
+        }
+        return (
+          <a
+            key={index}
+            className={`citation ${item.kind}`}
+            href={item.url || `#evidence-${item.id}`}
+            target={item.url ? '_blank' : undefined}
+            rel={item.url ? 'noreferrer' : undefined}
+            title={`${item.title} — ${describeLocation(item)}`}
+          >
+            {part}
+          </a>
+        );
+      })}
+    </>
+  );
+}
+
+interface EvidenceListProps {
+  citations: Citations;
+}
+
+/**
+ * The evidence cited by the synthesis, with where each item came from
+ */
+export function EvidenceList({ citations }: EvidenceListProps) {
+  const items = citations.cited.map(id => citations.evidence[id]).filter(Boolean);
+
+  if (items.length === 0 && citations.invalid.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="evidence-list">
+      <h5>🔗 Evidence ({items.length} cited)</h5>
+      <ul>
+        {items.map(item => (
+          <li key={item.id} id={`evidence-${item.id}`}>
+            <span className={`citation ${item.kind}`}>{item.id}</span>
+            {KIND_ICONS[item.kind]}{' '}
+            {item.url ? <a href={item.url} target="_blank" rel="noreferrer">{item.title}</a> : item.title}
+            <small>{describeLocation(item)}</small>
+            {item.kind === 'internal' && <small className="evidence-excerpt">“{item.excerpt}”</small>}
+          </li>
+        ))}
+      </ul>
+      {citations.invalid.length > 0 && (
+        <small className="evidence-warning">
+          ⚠️ {citations.invalid.length} citation{citations.invalid.length === 1 ? '' : 's'} did not match any evidence: {citations.invalid.join(', ')}
+        </small>
+      )}
+      {citations.uncitedClaims > 0 && (
+        <small className="evidence-warning">
+          ⚠️ {citations.uncitedClaims} synthesis item{citations.uncitedClaims === 1 ? '' : 's'} cite no evidence
+        </small>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+
+interface Feed {
+  id: string;
+  url: string;
+  title: string;
+  tags: string[];
+  enabled: boolean;
+  health: {
+    status: 'unknown' | 'healthy' | 'failing' | 'broken';
+    lastCheckedAt: string | null;
+    lastSuccessAt: string | null;
+    lastError: string | null;
+    errorRate: number | null;
+    averageItems: number | null;
+  };
+}
+
+const SUGGESTED_TAGS = ['competitor', 'analyst', 'community'];
+
+const HEALTH_LABELS = {
+  unknown: 'Not checked',
+  healthy: 'Healthy',
+  failing: 'Failing',
+  broken: 'Broken - skipped'
+};
+
+function FeedLibraryPanel() {
+  const [feeds, setFeeds] = useState<Feed[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [filter, setFilter] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ url: '', title: '', tags: '' });
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadFeeds = async () => {
+    try {
+      const response = await fetch(`/api/feeds${filter ? `?tags=${encodeURIComponent(filter)}` : ''}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load feeds: ${response.status}`);
+      }
+      const data = await response.json();
+      setFeeds(data.feeds);
+      setTags(data.tags);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load feeds');
+    }
+  };
+
+  useEffect(() => {
+    loadFeeds();
+  }, [filter]);
+
+  const request = async (url: string, options: RequestInit = {}, contentType = 'application/json') => {
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers: { 'Content-Type': contentType }
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `Request failed: ${response.status}`);
+      }
+      await loadFeeds();
+      return body;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/feeds', {
+      method: 'POST',
+      body: JSON.stringify({
+        url: form.url.trim(),
+        title: form.title.trim() || undefined,
+        tags: form.tags.split(',').map(tag => tag.trim().toLowerCase()).filter(tag => tag)
+      })
+    });
+    if (created) {
+      setForm({ url: '', title: '', tags: '' });
+      setShowForm(false);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    const result = await request('/api/feeds/import', { method: 'POST', body: await file.text() }, 'text/xml');
+    if (result) {
+      setMessage(`Imported ${result.added.length} feeds from ${file.name}${result.skipped.length > 0 ? `, skipped ${result.skipped.length}` : ''}`);
+    }
+  };
+
+  const describeHealth = (feed: Feed) => {
+    const { health } = feed;
+    const parts = [];
+    if (health.lastSuccessAt) {
+      parts.push(`Last success ${new Date(health.lastSuccessAt).toLocaleString()}`);
+    } else if (health.lastCheckedAt) {
+      parts.push('Never fetched successfully');
+    }
+    if (health.errorRate !== null) {
+      parts.push(`${Math.round(health.errorRate * 100)}% errors`);
+    }
+    if (health.averageItems !== null) {
+      parts.push(`${health.averageItems} items on average`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="feed-library">
+      <div className="watchlists-header">
+        <h3>RSS Feed Library</h3>
+        <div className="watchlist-actions">
+          <button className="reset-btn" onClick={() => setShowForm(!showForm)}>
+            {showForm ? 'Cancel' : '+ Add Feed'}
+          </button>
+          <button className="reset-btn" onClick={() => fileInput.current?.click()}>Import OPML</button>
+          <a className="reset-btn" href={`/api/feeds/export${filter ? `?tags=${encodeURIComponent(filter)}` : ''}`} download="feeds.opml">
+            Export OPML
+          </a>
+          <input ref={fileInput} type="file" accept=".opml,.xml,text/xml" onChange={handleImport} hidden />
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="watchlist-form config-section">
+          <input
+            type="text"
+            value={form.url}
+            onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+            placeholder="Feed URL, e.g. https://blog.competitor.com/feed"
+          />
+          <input
+            type="text"
+            value={form.title}
+            onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="Title (optional)"
+          />
+          <input
+            type="text"
+            value={form.tags}
+            onChange={(e) => setForm(prev => ({ ...prev, tags: e.target.value }))}
+            placeholder={`Tags, e.g. ${SUGGESTED_TAGS.join(',')}`}
+          />
+          <button className="analyze-btn" onClick={handleCreate} disabled={!form.url.trim()}>
+            Add Feed
+          </button>
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <div className="feed-tags">
+          <button className={`feed-tag ${filter === null ? 'selected' : ''}`} onClick={() => setFilter(null)}>all</button>
+          {tags.map(tag => (
+            <button key={tag} className={`feed-tag ${filter === tag ? 'selected' : ''}`} onClick={() => setFilter(tag)}>
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {message && <p className="run-history-hint">✅ {message}</p>}
+      {error && (
+        <div className="error">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {feeds.length === 0 && (
+        <p className="run-history-hint">No feeds{filter ? ` tagged ${filter}` : ''}. Add a feed or import an OPML file from your feed reader.</p>
+      )}
+
+      <div className="run-list">
+        {feeds.map(feed => (
+          <div key={feed.id} className={`watchlist-item ${feed.enabled ? '' : 'paused'}`}>
+            <div className="watchlist-main">
+              <a className="run-topic" href={feed.url} target="_blank" rel="noreferrer">{feed.title}</a>
+              {feed.tags.map(tag => <span key={tag} className="feed-tag">{tag}</span>)}
+              <span className={`feed-health ${feed.health.status}`}>{HEALTH_LABELS[feed.health.status]}</span>
+            </div>
+            {feed.health.lastCheckedAt && (
+              <small className="watchlist-changes">
+                {describeHealth(feed)}
+                {feed.health.lastError && ` — ${feed.health.lastError}`}
+              </small>
+            )}
+            <div className="watchlist-actions">
+              <button
+                className="reset-btn"
+                onClick={() => request(`/api/feeds/${feed.id}`, {
+                  method: 'PUT',
+                  body: JSON.stringify({ enabled: !feed.enabled })
+                })}
+              >
+                {feed.enabled ? 'Disable' : 'Enable'}
+              </button>
+              <button
+                className="reset-btn"
+                onClick={() => request(`/api/feeds/${feed.id}`, { method: 'DELETE' })}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default FeedLibraryPanel;
@@ -0,0 +1,158 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { CitedText, EvidenceItem } from './Citations';
+
+interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  model?: string | null;
+  citations?: {
+    cited: string[];
+    invalid: string[];
+    evidence: { [id: string]: EvidenceItem };
+  };
+}
+
+interface RunChatProps {
+  runId: string;
+}
+
+const describeSource = (item: EvidenceItem) => {
+  if (item.filePath) {
+    return `${item.filePath}${item.line ? `:${item.line}` : ''}${item.timestamp ? ` @ ${item.timestamp}` : ''}`;
+  }
+  return item.metric ? `Metric: ${item.metric}` : item.source;
+};
+
+function ChatBubble({ message }: { message: ChatMessage }) {
+  const citations = message.citations ? { ...message.citations, uncitedClaims: 0 } : undefined;
+  const sources = (message.citations?.cited || [])
+    .map(id => message.citations?.evidence[id])
+    .filter((item): item is EvidenceItem => Boolean(item));
+
+  return (
+    <div className={`chat-message ${message.role}`}>
+      {message.content.split('\n').map((line, index) => (
+        <p key={index}><CitedText text={line} citations={citations} /></p>
+      ))}
+      {sources.length > 0 && (
+        <ul className="chat-sources">
+          {sources.map(item => (
+            <li key={item.id}>
+              <span className={`citation ${item.kind}`}>{item.id}</span>
+              {item.url ? <a href={item.url} target="_blank" rel="noreferrer">{item.title}</a> : item.title}
+              <small>{describeSource(item)}</small>
+            </li>
+          ))}
+        </ul>
+      )}
+      {message.role === 'assistant' && (
+        <small className="chat-meta">{message.model || 'No LLM configured'} · {new Date(message.timestamp).toLocaleTimeString()}</small>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Follow-up questions about a completed run, answered from its stored evidence
+ */
+function RunChat({ runId }: RunChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadConversation = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/runs/${runId}/chat`);
+        if (!response.ok) {
+          throw new Error(`Failed to load conversation: ${response.status}`);
+        }
+        const data = await response.json();
+        setMessages(data.messages);
+      } catch (err) {
+        setMessages([]);
+        setError(err instanceof Error ? err.message : 'Failed to load conversation');
+      }
+    };
+
+    loadConversation();
+  }, [runId]);
+
+  const handleAsk = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!question.trim() || isAsking) {
+      return;
+    }
+
+    setIsAsking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/runs/${runId}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: question.trim() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Failed to ask question: ${response.status}`);
+      }
+      setMessages(prev => [...prev, data.question, data.answer]);
+      setQuestion('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to ask question');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      const response = await fetch(`/api/runs/${runId}/chat`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Failed to clear conversation: ${response.status}`);
+      }
+      setMessages([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear conversation');
+    }
+  };
+
+  return (
+    <div className="run-chat">
+      <h4>💬 Ask About This Analysis</h4>
+      {messages.length === 0 && (
+        <p className="run-history-hint">Ask a follow-up question, e.g. "What did interviewees say about policy validation?"</p>
+      )}
+      <div className="chat-messages">
+        {messages.map(message => (
+          <ChatBubble key={message.id} message={message} />
+        ))}
+      </div>
+      <form className="chat-form" onSubmit={handleAsk}>
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question about this run's signals, findings and metrics"
+          maxLength={2000}
+          disabled={isAsking}
+        />
+        <button type="submit" className="analyze-btn" disabled={isAsking || !question.trim()}>
+          {isAsking ? 'Thinking...' : 'Ask'}
+        </button>
+        {messages.length > 0 && (
+          <button type="button" className="reset-btn" onClick={handleClear} disabled={isAsking}>
+            Clear
+          </button>
+        )}
+      </form>
+      {error && <p className="agent-error">{error}</p>}
+    </div>
+  );
+}
+
+export default RunChat;
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+
+interface RunFile {
+  name: string;
+  size: number;
+  url: string;
+}
+
+interface RunDownloadsProps {
+  runId: string;
+}
+
+// Friendly labels for the files each run writes, by filename suffix
+const FILE_LABELS: { suffix: string; label: string }[] = [
+  { suffix: '_report.html', label: '🌐 HTML Report' },
+  { suffix: '_analysis_report.md', label: '📄 Analysis Report' },
+  { suffix: '_human_readable_summary.md', label: '📝 Summary' },
+  { suffix: '_combined_insight_report.json', label: '🧩 Combined Report (JSON)' },
+  { suffix: '_external_signals.json', label: '🌍 External Signals' },
+  { suffix: '_internal_signals.json', label: '🔬 Internal Research' },
+  { suffix: '_product_signals.json', label: '📊 Product Metrics' },
+  { suffix: '_orchestration_metadata.json', label: '⚙️ Metadata' }
+];
+
+const labelFor = (name: string) =>
+  FILE_LABELS.find(entry => name.endsWith(entry.suffix))?.label || name;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+function RunDownloads({ runId }: RunDownloadsProps) {
+  const [files, setFiles] = useState<RunFile[]>([]);
+  const [bundleUrl, setBundleUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFiles = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/runs/${runId}/files`);
+        if (!response.ok) {
+          throw new Error(`Failed to load output files: ${response.status}`);
+        }
+        const data = await response.json();
+        setFiles(data.files);
+        setBundleUrl(data.bundle);
+      } catch (err) {
+        setFiles([]);
+        setError(err instanceof Error ? err.message : 'Failed to load output files');
+      }
+    };
+
+    loadFiles();
+  }, [runId]);
+
+  if (error) {
+    return <p className="run-history-hint">{error}</p>;
+  }
+
+  if (files.length === 0) {
+    return null;
+  }
+
+  // Keep the order of FILE_LABELS so the reports come first
+  const sorted = [...files].sort((a, b) =>
+    FILE_LABELS.findIndex(entry => a.name.endsWith(entry.suffix)) -
+    FILE_LABELS.findIndex(entry => b.name.endsWith(entry.suffix)));
+  const htmlReport = files.find(file => file.name.endsWith('_report.html'));
+
+  return (
+    <div className="run-downloads">
+      <h4>📁 Downloads</h4>
+      <div className="download-buttons">
+        {bundleUrl && (
+          <a className="analyze-btn download-btn" href={bundleUrl}>
+            ⬇️ All Files (.zip)
+          </a>
+        )}
+        {sorted.map(file => (
+          <a
+            key={file.name}
+            className="reset-btn download-btn"
+            href={`${file.url}?download=true`}
+            title={`${file.name} (${formatSize(file.size)})`}
+          >
+            {labelFor(file.name)}
+          </a>
+        ))}
+      </div>
+      {htmlReport && (
+        <small>
+          <a href={htmlReport.url} target="_blank" rel="noreferrer">
+            Open the HTML report in a new tab
+          </a>
+        </small>
+      )}
+    </div>
+  );
+}
+
+export default RunDownloads;
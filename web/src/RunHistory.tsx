@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+
+interface RunRecord {
+  id: string;
+  topic: string;
+  productArea: string | null;
+  timestamp: string;
+  status: 'completed' | 'partial' | 'failed' | 'cancelled';
+  totalSignals: number;
+  agentStatus: { [agent: string]: string };
+}
+
+interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+interface RunDiff {
+  base: RunRecord;
+  compare: RunRecord;
+  sameTopic: boolean;
+  external: {
+    newSignals: { type: string; title: string; url?: string; source?: string }[];
+    droppedSignals: { type: string; title: string; url?: string; source?: string }[];
+    unchangedCount: number;
+  };
+  internal: {
+    newFindings: { content: string; source: string }[];
+    droppedFindings: { content: string; source: string }[];
+    unchangedCount: number;
+  };
+  product: {
+    directionChanges: { metric: string; sourceType: string; from: string; to: string; percentChange: number }[];
+    newTrends: { metric: string; direction: string }[];
+    droppedTrends: { metric: string; direction: string }[];
+  };
+  synthesis: {
+    available: { base: boolean; compare: boolean };
+    changed: boolean;
+    lines: DiffLine[];
+  };
+}
+
+interface RunHistoryProps {
+  // Changes whenever a new analysis finishes so the list reloads
+  refreshKey: number;
+}
+
+function RunHistory({ refreshKey }: RunHistoryProps) {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<RunDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const loadRuns = async () => {
+    try {
+      const response = await fetch('/api/runs?limit=20');
+      if (!response.ok) {
+        throw new Error(`Failed to load runs: ${response.status}`);
+      }
+      const data = await response.json();
+      setRuns(data.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load runs');
+    }
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, [refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id)
+      ? prev.filter(runId => runId !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const handleCompare = async () => {
+    // Compare oldest to newest regardless of the order the runs were picked
+    const [baseId, compareId] = [...selected].sort((a, b) => {
+      const runA = runs.find(run => run.id === a);
+      const runB = runs.find(run => run.id === b);
+      return (runA?.timestamp || '').localeCompare(runB?.timestamp || '');
+    });
+
+    setIsComparing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/runs/${baseId}/diff/${compareId}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Comparison failed: ${response.status}`);
+      }
+      setDiff(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/runs/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Failed to delete run: ${response.status}`);
+      }
+      setSelected(prev => prev.filter(runId => runId !== id));
+      if (diff && (diff.base.id === id || diff.compare.id === id)) {
+        setDiff(null);
+      }
+      await loadRuns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete run');
+    }
+  };
+
+  if (runs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="run-history">
+      <h3>Run History</h3>
+      <p className="run-history-hint">Select two runs to see what changed between them.</p>
+
+      <div className="run-list">
+        {runs.map(run => (
+          <label key={run.id} className={`run-item ${selected.includes(run.id) ? 'selected' : ''}`}>
+            <input
+              type="checkbox"
+              checked={selected.includes(run.id)}
+              onChange={() => toggleSelected(run.id)}
+            />
+            <span className="run-topic">
+              {run.topic}{run.productArea && ` (${run.productArea})`}
+            </span>
+            <span className="run-date">{new Date(run.timestamp).toLocaleString()}</span>
+            <span className="run-signals">{run.totalSignals} signals</span>
+            <span className={`status ${run.status}`}>{run.status}</span>
+            <button
+              type="button"
+              className="run-delete"
+              title="Delete run and its output files"
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete(run.id);
+              }}
+            >
+              ✕
+            </button>
+          </label>
+        ))}
+      </div>
+
+      <button
+        className="reset-btn"
+        onClick={handleCompare}
+        disabled={selected.length !== 2 || isComparing}
+      >
+        {isComparing ? 'Comparing...' : 'Compare Selected Runs'}
+      </button>
+
+      {error && (
+        <div className="error">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {diff && (
+        <div className="run-diff">
+          <h4>
+            {diff.base.topic} — {new Date(diff.base.timestamp).toLocaleDateString()} → {new Date(diff.compare.timestamp).toLocaleDateString()}
+          </h4>
+          {!diff.sameTopic && (
+            <p className="agent-error">These runs analyzed different topics ({diff.base.topic} vs {diff.compare.topic})</p>
+          )}
+
+          <div className="diff-section">
+            <h5>📊 Market Intelligence</h5>
+            <p>{diff.external.newSignals.length} new, {diff.external.droppedSignals.length} dropped, {diff.external.unchangedCount} unchanged</p>
+            <ul>
+              {diff.external.newSignals.map((signal, index) => (
+                <li key={`new-${index}`} className="diff-added">
+                  {signal.url ? <a href={signal.url} target="_blank" rel="noreferrer">{signal.title}</a> : signal.title}
+                  {signal.source && <small> — {signal.source}</small>}
+                </li>
+              ))}
+              {diff.external.droppedSignals.map((signal, index) => (
+                <li key={`dropped-${index}`} className="diff-removed">{signal.title}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="diff-section">
+            <h5>🔍 Internal Research</h5>
+            <p>{diff.internal.newFindings.length} new findings, {diff.internal.droppedFindings.length} no longer found</p>
+            <ul>
+              {diff.internal.newFindings.map((finding, index) => (
+                <li key={index} className="diff-added">
+                  {finding.content} <small>— {finding.source}</small>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="diff-section">
+            <h5>📈 Product Analytics</h5>
+            {diff.product.directionChanges.length === 0 ? (
+              <p>No metric changed trend direction</p>
+            ) : (
+              <ul>
+                {diff.product.directionChanges.map((change, index) => (
+                  <li key={index}>
+                    <strong>{change.metric}</strong>: {change.from} → {change.to} ({change.percentChange > 0 ? '+' : ''}{change.percentChange}%)
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="diff-section">
+            <h5>🤖 AI Strategic Synthesis</h5>
+            {!diff.synthesis.available.base && !diff.synthesis.available.compare ? (
+              <p>Neither run has an AI synthesis</p>
+            ) : !diff.synthesis.changed ? (
+              <p>Synthesis unchanged</p>
+            ) : (
+              <div className="synthesis-diff">
+                {diff.synthesis.lines.map((line, index) => (
+                  <div key={index} className={`diff-line diff-${line.type}`}>
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RunHistory;
@@ -0,0 +1,85 @@
+import { Citations, CitedText } from './Citations';
+
+export interface StructuredSynthesis {
+  summary: string;
+  keyTrends: string[];
+  criticalFindings: string[];
+  recommendations: {
+    action: string;
+    horizon: 'immediate' | 'short-term' | 'long-term';
+    confidence: 'high' | 'medium' | 'low';
+    rationale: string;
+  }[];
+  risks: {
+    risk: string;
+    severity: 'high' | 'medium' | 'low';
+    mitigation: string;
+  }[];
+  openQuestions: string[];
+}
+
+interface StructuredSynthesisViewProps {
+  synthesis: StructuredSynthesis;
+  citations?: Citations;
+}
+
+const HORIZON_LABELS = {
+  immediate: 'Immediate (0-30 days)',
+  'short-term': 'Short-term (1-6 months)',
+  'long-term': 'Long-term (6+ months)'
+};
+
+function StructuredSynthesisView({ synthesis, citations }: StructuredSynthesisViewProps) {
+  const cite = (text: string) => <CitedText text={text} citations={citations} />;
+  const renderList = (items: string[]) => items.length > 0
+    ? <ul>{items.map((item, index) => <li key={index}>{cite(item)}</li>)}</ul>
+    : <p className="run-history-hint">None identified</p>;
+
+  return (
+    <div className="structured-synthesis">
+      <p className="structured-summary">{cite(synthesis.summary)}</p>
+
+      <div className="structured-columns">
+        <div>
+          <h6>📈 Key Trends</h6>
+          {renderList(synthesis.keyTrends)}
+        </div>
+        <div>
+          <h6>🚨 Critical Findings</h6>
+          {renderList(synthesis.criticalFindings)}
+        </div>
+      </div>
+
+      <h6>✅ Recommendations</h6>
+      {synthesis.recommendations.length > 0 ? (
+        <ul className="structured-items">
+          {synthesis.recommendations.map((recommendation, index) => (
+            <li key={index}>
+              <strong>{cite(recommendation.action)}</strong>
+              <span className={`level ${recommendation.confidence}`}>{recommendation.confidence} confidence</span>
+              <small>{HORIZON_LABELS[recommendation.horizon]}{recommendation.rationale && <> — {cite(recommendation.rationale)}</>}</small>
+            </li>
+          ))}
+        </ul>
+      ) : <p className="run-history-hint">None identified</p>}
+
+      <h6>⚠️ Risks</h6>
+      {synthesis.risks.length > 0 ? (
+        <ul className="structured-items">
+          {synthesis.risks.map((risk, index) => (
+            <li key={index}>
+              <strong>{cite(risk.risk)}</strong>
+              <span className={`level risk-${risk.severity}`}>{risk.severity} severity</span>
+              {risk.mitigation && <small>Mitigation: {cite(risk.mitigation)}</small>}
+            </li>
+          ))}
+        </ul>
+      ) : <p className="run-history-hint">None identified</p>}
+
+      <h6>❓ Open Questions</h6>
+      {renderList(synthesis.openQuestions)}
+    </div>
+  );
+}
+
+export default StructuredSynthesisView;
@@ -0,0 +1,115 @@
+type SourceName = 'external' | 'internal' | 'product';
+type Stance = 'positive' | 'negative' | 'neutral';
+
+export interface TriangulatedTheme {
+  theme: string;
+  status: 'corroborated' | 'contradicted' | 'single-source';
+  sources: SourceName[];
+  support: {
+    [source in SourceName]?: {
+      count: number;
+      stance: Stance;
+      items: { evidenceId: string | null; text: string; stance: Stance }[];
+    };
+  };
+  evidenceIds: string[];
+  summary: string;
+  confidence?: {
+    score: number;
+    level: 'high' | 'medium' | 'low';
+    agreement: number;
+    strength: number;
+    recency: number;
+  };
+}
+
+export interface Triangulation {
+  themes: TriangulatedTheme[];
+  counts: { corroborated: number; contradicted: number; 'single-source': number };
+}
+
+interface TriangulationViewProps {
+  triangulation: Triangulation;
+}
+
+const SOURCE_LABELS: { [source in SourceName]: string } = {
+  external: '📊 Market',
+  internal: '🔍 Research',
+  product: '📈 Metrics'
+};
+
+// Evidence id classes match the citation badges
+const EVIDENCE_KINDS: { [source in SourceName]: string } = {
+  external: 'external',
+  internal: 'internal',
+  product: 'metric'
+};
+
+const STANCE_ICONS: { [stance in Stance]: string } = {
+  positive: '▲',
+  negative: '▼',
+  neutral: '●'
+};
+
+/**
+ * Themes aligned across the three sources, contradictions first, with the
+ * items supporting each theme per source
+ */
+function TriangulationView({ triangulation }: TriangulationViewProps) {
+  if (triangulation.themes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="triangulation">
+      <h4>🔺 Source Triangulation</h4>
+      <p className="run-history-hint">
+        {triangulation.counts.corroborated} corroborated · {triangulation.counts.contradicted} contradicted · {triangulation.counts['single-source']} single-source
+      </p>
+      <ul className="triangulation-themes">
+        {triangulation.themes.map(theme => (
+          <li key={theme.theme} className={`triangulation-theme ${theme.status}`}>
+            <details>
+              <summary>
+                <strong>{theme.theme}</strong>
+                <span className={`triangulation-status ${theme.status}`}>{theme.status}</span>
+                {theme.confidence && (
+                  <span
+                    className={`triangulation-confidence ${theme.confidence.level}`}
+                    title={`agreement ${theme.confidence.agreement} · strength ${theme.confidence.strength} · recency ${theme.confidence.recency}`}
+                  >
+                    {theme.confidence.level} {Math.round(theme.confidence.score * 100)}%
+                  </span>
+                )}
+                <small>{theme.summary}</small>
+              </summary>
+              <div className="triangulation-support">
+                {theme.sources.map(source => {
+                  const support = theme.support[source];
+                  return support && (
+                    <div key={source} className="triangulation-source">
+                      <h6>
+                        {SOURCE_LABELS[source]} <span className={`stance ${support.stance}`}>{STANCE_ICONS[support.stance]} {support.stance}</span>
+                        <small> · {support.count} item{support.count === 1 ? '' : 's'}</small>
+                      </h6>
+                      <ul>
+                        {support.items.map((item, index) => (
+                          <li key={item.evidenceId || index}>
+                            {item.evidenceId && <span className={`citation ${EVIDENCE_KINDS[source]}`}>{item.evidenceId}</span>}
+                            {item.text}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default TriangulationView;
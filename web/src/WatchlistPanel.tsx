@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface Watchlist {
+  id: string;
+  name: string;
+  topic: string;
+  focusArea: string | null;
+  cron: string;
+  enabled: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  lastChanges: {
+    newSignals: number;
+    droppedSignals: number;
+    newFindings: number;
+    directionChanges: { metric: string; from: string; to: string }[];
+    synthesisChanged: boolean;
+  } | null;
+}
+
+interface WatchlistPanelProps {
+  defaultTopic: string;
+  defaultFocusArea: string;
+  // Configuration stored with new watchlists (without API keys)
+  getConfig: () => any;
+  // Called when a watchlist run finishes so the run history can reload
+  onRunFinished: () => void;
+}
+
+const SCHEDULE_PRESETS = [
+  { label: 'Every Monday at 9:00', cron: '0 9 * * 1' },
+  { label: 'Every weekday at 9:00', cron: '0 9 * * 1-5' },
+  { label: 'Every day at 9:00', cron: '0 9 * * *' },
+  { label: 'First day of the month', cron: '0 9 1 * *' },
+  { label: 'Custom cron expression', cron: '' }
+];
+
+// How often to refresh while a watchlist is running
+const POLL_INTERVAL_MS = 3000;
+
+function WatchlistPanel({ defaultTopic, defaultFocusArea, getConfig, onRunFinished }: WatchlistPanelProps) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ topic: '', focusArea: '', preset: SCHEDULE_PRESETS[0].cron, cron: '' });
+  const [error, setError] = useState<string | null>(null);
+  const runningIds = useRef<string[]>([]);
+
+  const loadWatchlists = async () => {
+    try {
+      const response = await fetch('/api/watchlists');
+      if (!response.ok) {
+        throw new Error(`Failed to load watchlists: ${response.status}`);
+      }
+      const data = await response.json();
+      const loaded: Watchlist[] = data.watchlists;
+
+      // A watchlist that was running and no longer is has produced a new run
+      const nowRunning = loaded.filter(watchlist => watchlist.running).map(watchlist => watchlist.id);
+      if (runningIds.current.some(id => !nowRunning.includes(id))) {
+        onRunFinished();
+      }
+      runningIds.current = nowRunning;
+
+      setWatchlists(loaded);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watchlists');
+    }
+  };
+
+  useEffect(() => {
+    loadWatchlists();
+  }, []);
+
+  useEffect(() => {
+    if (!watchlists.some(watchlist => watchlist.running)) {
+      return;
+    }
+    const timer = setTimeout(loadWatchlists, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [watchlists]);
+
+  const openForm = () => {
+    setForm({ topic: defaultTopic, focusArea: defaultFocusArea, preset: SCHEDULE_PRESETS[0].cron, cron: '' });
+    setShowForm(true);
+  };
+
+  const request = async (url: string, options: RequestInit = {}) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers: { 'Content-Type': 'application/json' }
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Request failed: ${response.status}`);
+      }
+      await loadWatchlists();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({
+        topic: form.topic.trim(),
+        focusArea: form.focusArea.trim() || null,
+        cron: form.preset || form.cron.trim(),
+        config: getConfig()
+      })
+    });
+    if (created) {
+      setShowForm(false);
+    }
+  };
+
+  const describeChanges = (watchlist: Watchlist) => {
+    const changes = watchlist.lastChanges;
+    if (!changes) {
+      return null;
+    }
+    const parts = [
+      `${changes.newSignals} new signals`,
+      `${changes.droppedSignals} dropped`,
+      `${changes.newFindings} new findings`,
+      `${changes.directionChanges.length} metric trend reversals`
+    ];
+    if (changes.synthesisChanged) {
+      parts.push('synthesis changed');
+    }
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="watchlists">
+      <div className="watchlists-header">
+        <h3>Watchlists</h3>
+        <button className="reset-btn" onClick={() => showForm ? setShowForm(false) : openForm()}>
+          {showForm ? 'Cancel' : '+ Watch a Topic'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="watchlist-form config-section">
+          <input
+            type="text"
+            value={form.topic}
+            onChange={(e) => setForm(prev => ({ ...prev, topic: e.target.value }))}
+            placeholder="Topic to re-run, e.g. Bicep testing"
+          />
+          <input
+            type="text"
+            value={form.focusArea}
+            onChange={(e) => setForm(prev => ({ ...prev, focusArea: e.target.value }))}
+            placeholder="Focus area (optional)"
+          />
+          <select
+            value={form.preset}
+            onChange={(e) => setForm(prev => ({ ...prev, preset: e.target.value }))}
+          >
+            {SCHEDULE_PRESETS.map(preset => (
+              <option key={preset.label} value={preset.cron}>{preset.label}</option>
+            ))}
+          </select>
+          {!form.preset && (
+            <input
+              type="text"
+              value={form.cron}
+              onChange={(e) => setForm(prev => ({ ...prev, cron: e.target.value }))}
+              placeholder="minute hour day-of-month month day-of-week, e.g. 0 9 * * MON"
+            />
+          )}
+          <small>Uses the current data source and execution settings; API keys come from the server environment</small>
+          <button className="analyze-btn" onClick={handleCreate} disabled={!form.topic.trim()}>
+            Save Watchlist
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="error">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {watchlists.length === 0 && !showForm && (
+        <p className="run-history-hint">No watchlists yet. Watch a topic to re-run it on a schedule.</p>
+      )}
+
+      <div className="run-list">
+        {watchlists.map(watchlist => (
+          <div key={watchlist.id} className={`watchlist-item ${watchlist.enabled ? '' : 'paused'}`}>
+            <div className="watchlist-main">
+              <span className="run-topic">
+                {watchlist.topic}{watchlist.focusArea && ` (${watchlist.focusArea})`}
+              </span>
+              <code>{watchlist.cron}</code>
+              <span className="run-date">
+                {watchlist.running
+                  ? 'Running now...'
+                  : watchlist.enabled && watchlist.nextRunAt
+                    ? `Next: ${new Date(watchlist.nextRunAt).toLocaleString()}`
+                    : 'Paused'}
+              </span>
+              {watchlist.lastStatus && (
+                <span className={`status ${watchlist.lastStatus}`}>{watchlist.lastStatus}</span>
+              )}
+            </div>
+            {watchlist.lastRunAt && (
+              <small className="watchlist-changes">
+                Last run {new Date(watchlist.lastRunAt).toLocaleString()}
+                {describeChanges(watchlist) && ` — ${describeChanges(watchlist)}`}
+                {watchlist.lastError && ` — ${watchlist.lastError}`}
+              </small>
+            )}
+            <div className="watchlist-actions">
+              <button
+                className="reset-btn"
+                onClick={() => request(`/api/watchlists/${watchlist.id}/run`, { method: 'POST' })}
+                disabled={watchlist.running}
+              >
+                Run Now
+              </button>
+              <button
+                className="reset-btn"
+                onClick={() => request(`/api/watchlists/${watchlist.id}`, {
+                  method: 'PUT',
+                  body: JSON.stringify({ enabled: !watchlist.enabled })
+                })}
+              >
+                {watchlist.enabled ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                className="reset-btn"
+                onClick={() => request(`/api/watchlists/${watchlist.id}`, { method: 'DELETE' })}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default WatchlistPanel;
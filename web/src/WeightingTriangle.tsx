@@ -0,0 +1,56 @@
+export interface SourceStrength {
+  source: 'external' | 'internal' | 'product';
+  strength: 'strong' | 'medium' | 'weak';
+  count: number;
+  score: number;
+  weight: number;
+}
+
+interface WeightingTriangleProps {
+  signalStrength: SourceStrength[];
+}
+
+// Dot positions in the rule-of-thirds grid (viewBox 700 x 467)
+const VERTICES = {
+  external: { x: 117, y: 78 },
+  internal: { x: 583, y: 234 },
+  product: { x: 350, y: 389 }
+};
+
+const CENTROID = { x: 350, y: 233.67 };
+
+// Keep a source with no evidence visible as a sliver
+const MIN_REACH = 0.06;
+
+/**
+ * Overlay on the triangle: each corner reaches toward its dot in proportion
+ * to that source's weighted strength, labelled with its weight and score
+ */
+function WeightingTriangle({ signalStrength }: WeightingTriangleProps) {
+  const toward = (source: SourceStrength['source'], reach: number) => ({
+    x: CENTROID.x + (VERTICES[source].x - CENTROID.x) * reach,
+    y: CENTROID.y + (VERTICES[source].y - CENTROID.y) * reach
+  });
+  const entries = signalStrength.filter(entry => entry.source in VERTICES);
+  const points = entries
+    .map(entry => toward(entry.source, Math.max(entry.score, MIN_REACH)))
+    .map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg className="weighting-triangle" viewBox="0 0 700 467">
+      <polygon points={points} className="weighting-fill" />
+      {entries.map(entry => {
+        const label = toward(entry.source, 0.62);
+        return (
+          <text key={entry.source} x={label.x} y={label.y} className={`weighting-label ${entry.source}`} textAnchor="middle">
+            <title>{`${entry.count} items, ${entry.strength}`}</title>
+            ×{entry.weight} · {Math.round(entry.score * 100)}%
+          </text>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default WeightingTriangle;